@@ -0,0 +1,349 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { useLocale } from '../../context/LocaleContext';
+import { formatDateTime, formatDisplayDate, formatHours, formatHoursCompact } from '../../utils/format';
+
+// Types
+type ApprovalStatus = 'submitted' | 'approved' | 'rejected';
+
+interface ProjectHours {
+  project_name: string;
+  hours: number;
+}
+
+// One employee's submission for one week
+interface SubmittedWeek {
+  employee_id: number;
+  employee_name: string;
+  week_start_date: string;
+  week_end_date: string;
+  total_hours: number;
+  projects: ProjectHours[];
+  status: ApprovalStatus;
+  submitted_at: string;
+  reviewed_by?: string;
+  rejection_reason?: string;
+}
+
+// A request to take back a submitted week, when the organisation requires manager consent
+interface RecallRequest {
+  id: number;
+  employee_name: string;
+  week_start_date: string;
+  requested_at: string;
+  reason: string;
+  entry_count: number;
+}
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8000/api';
+
+// JWT API helper
+const makeAPICall = async (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem('access_token');
+  
+  return fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+      ...options.headers,
+    },
+  });
+};
+
+const getWeekKey = (week: SubmittedWeek) => `${week.employee_id}-${week.week_start_date}`;
+
+export default function AdminApprovals() {
+  const { locale, t, tLatest } = useLocale();
+  const [weeks, setWeeks] = useState<SubmittedWeek[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ApprovalStatus>('submitted');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<SubmittedWeek | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [recallRequests, setRecallRequests] = useState<RecallRequest[]>([]);
+
+  const fetchWeeks = useCallback(async () => {
+    try {
+      const response = await makeAPICall(`${API_BASE}/timesheets/approvals/?status=${statusFilter}`);
+      if (!response.ok) throw new Error('Failed to fetch submitted weeks');
+      const data = await response.json();
+      setWeeks(data.weeks || []);
+    } catch {
+      setError(tLatest('admin.approvals.weeksLoadFailed'));
+    }
+  }, [statusFilter, tLatest]);
+
+  const fetchRecallRequests = useCallback(async () => {
+    try {
+      const response = await makeAPICall(`${API_BASE}/timesheets/recalls/?status=pending`);
+      if (!response.ok) throw new Error('Failed to fetch recall requests');
+      const data = await response.json();
+      setRecallRequests(data.recalls || []);
+    } catch {
+      setError(tLatest('admin.approvals.recallsLoadFailed'));
+    }
+  }, [tLatest]);
+
+  // Load data
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      await Promise.all([fetchWeeks(), fetchRecallRequests()]);
+      setLoading(false);
+    };
+    loadData();
+  }, [fetchWeeks, fetchRecallRequests]);
+
+  // Clear messages after 5 seconds
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError('');
+        setSuccess('');
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [error, success]);
+
+  const filteredWeeks = weeks.filter(week =>
+    week.employee_name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const reviewWeek = async (week: SubmittedWeek, action: 'approve' | 'reject', reason = '') => {
+    setReviewing(getWeekKey(week));
+    try {
+      const response = await makeAPICall(`${API_BASE}/timesheets/approvals/review/`, {
+        method: 'POST',
+        body: JSON.stringify({
+          employee_id: week.employee_id,
+          week_start_date: week.week_start_date,
+          action,
+          reason
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t(action === 'approve' ? 'admin.approvals.approveFailed' : 'admin.approvals.rejectFailed'));
+      }
+
+      setSuccess(t(action === 'approve' ? 'admin.approvals.approved' : 'admin.approvals.rejected', {
+        date: formatDisplayDate(week.week_start_date, locale),
+        name: week.employee_name
+      }));
+      await fetchWeeks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('admin.approvals.unexpectedError'));
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  // Approving a recall reverts the week's entries to draft and records who allowed it
+  const reviewRecall = async (request: RecallRequest, action: 'approve' | 'decline') => {
+    try {
+      const response = await makeAPICall(`${API_BASE}/timesheets/recalls/${request.id}/review/`, {
+        method: 'POST',
+        body: JSON.stringify({ action })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t(action === 'approve' ? 'admin.approvals.recallApproveFailed' : 'admin.approvals.recallDeclineFailed'));
+      }
+
+      setSuccess(t(action === 'approve' ? 'admin.approvals.recallApproved' : 'admin.approvals.recallDeclined', { name: request.employee_name }));
+      await Promise.all([fetchWeeks(), fetchRecallRequests()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('admin.approvals.unexpectedError'));
+    }
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rejecting) return;
+
+    await reviewWeek(rejecting, 'reject', rejectReason.trim());
+    closeRejectForm();
+  };
+
+  const closeRejectForm = () => {
+    setRejecting(null);
+    setRejectReason('');
+  };
+
+  if (loading) return <div className="loading">{t('admin.approvals.loading')}</div>;
+
+  return (
+    <div>
+      <div className="admin-header">
+        <h1>{t('admin.approvals.title')}</h1>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+      {success && <div className="alert alert-success">{success}</div>}
+
+      {recallRequests.length > 0 && (
+        <div style={{ marginBottom: '24px' }}>
+          <h2>{t('admin.approvals.recallRequests')}</h2>
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>{t('admin.approvals.employee')}</th>
+                <th>{t('admin.approvals.week')}</th>
+                <th>{t('admin.approvals.entries')}</th>
+                <th>{t('admin.approvals.reason')}</th>
+                <th>{t('admin.approvals.requested')}</th>
+                <th>{t('admin.approvals.actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recallRequests.map(request => (
+                <tr key={request.id}>
+                  <td>{request.employee_name}</td>
+                  <td>{formatDisplayDate(request.week_start_date, locale)}</td>
+                  <td>{request.entry_count}</td>
+                  <td>{request.reason || '-'}</td>
+                  <td>{formatDateTime(new Date(request.requested_at), locale)}</td>
+                  <td>
+                    <button className="btn btn-success" onClick={() => reviewRecall(request, 'approve')}>
+                      {t('admin.approvals.allow')}
+                    </button>
+                    <button className="btn btn-danger" onClick={() => reviewRecall(request, 'decline')}>
+                      {t('admin.approvals.decline')}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="actions">
+        <input
+          type="text"
+          placeholder={t('admin.approvals.search')}
+          className="search-box"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        <div className="form-group" style={{ margin: 0 }}>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ApprovalStatus)}
+          >
+            <option value="submitted">{t('admin.approvals.filter.submitted')}</option>
+            <option value="approved">{t('admin.approvals.filter.approved')}</option>
+            <option value="rejected">{t('admin.approvals.filter.rejected')}</option>
+          </select>
+        </div>
+      </div>
+
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>{t('admin.approvals.employee')}</th>
+            <th>{t('admin.approvals.week')}</th>
+            <th>{t('admin.approvals.hours')}</th>
+            <th>{t('admin.approvals.projects')}</th>
+            <th>{t('admin.approvals.submitted')}</th>
+            <th>{t('admin.approvals.actions')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {filteredWeeks.map((week) => (
+            <tr key={getWeekKey(week)}>
+              <td>{week.employee_name}</td>
+              <td>
+                {t('admin.approvals.weekRange', {
+                  from: formatDisplayDate(week.week_start_date, locale),
+                  to: formatDisplayDate(week.week_end_date, locale)
+                })}
+              </td>
+              <td>{formatHours(week.total_hours, locale)}</td>
+              <td>
+                {week.projects.map(project => t('admin.approvals.projectHours', {
+                  name: project.project_name,
+                  hours: formatHoursCompact(project.hours, locale)
+                })).join(', ')}
+              </td>
+              <td>
+                {formatDateTime(new Date(week.submitted_at), locale)}
+                {week.reviewed_by && <div><small>{t('admin.approvals.reviewedBy', { name: week.reviewed_by })}</small></div>}
+                {week.rejection_reason && <div><small>{week.rejection_reason}</small></div>}
+              </td>
+              <td>
+                {week.status === 'submitted' && (
+                  <>
+                    <button
+                      className="btn btn-success"
+                      disabled={reviewing === getWeekKey(week)}
+                      onClick={() => reviewWeek(week, 'approve')}
+                    >
+                      {t('admin.approvals.approve')}
+                    </button>
+                    <button
+                      className="btn btn-danger"
+                      disabled={reviewing === getWeekKey(week)}
+                      onClick={() => setRejecting(week)}
+                    >
+                      {t('admin.approvals.reject')}
+                    </button>
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {!filteredWeeks.length && !loading && <div className="empty-state">{t('admin.approvals.empty')}</div>}
+
+      {rejecting && (
+        <div className="modal">
+          <div className="modal-content">
+            <div className="modal-header">
+              <h2>{t('admin.approvals.rejectTitle')}</h2>
+              <button className="close-btn" onClick={closeRejectForm}>×</button>
+            </div>
+
+            <form onSubmit={handleReject}>
+              <p>
+                {t('admin.approvals.rejectSummary', {
+                  name: rejecting.employee_name,
+                  date: formatDisplayDate(rejecting.week_start_date, locale),
+                  hours: formatHours(rejecting.total_hours, locale)
+                })}
+              </p>
+
+              <div className="form-group">
+                <label>{t('admin.approvals.rejectReason')}</label>
+                <textarea
+                  required
+                  rows={3}
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder={t('admin.approvals.rejectPlaceholder')}
+                />
+                <small className="help-text">
+                  {t('admin.approvals.rejectHelp')}
+                </small>
+              </div>
+
+              <div className="form-actions">
+                <button type="button" className="btn" onClick={closeRejectForm}>{t('admin.approvals.cancel')}</button>
+                <button type="submit" className="btn btn-danger">{t('admin.approvals.rejectTitle')}</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDisplayDate } from '../../utils/format';
+import { useLocale } from '../../context/LocaleContext';
+
+// Types
+interface Holiday {
+  date: string;
+  name: string;
+}
+
+interface HolidayCalendar {
+  id: number;
+  name: string;
+  // Users are matched to a calendar by company, then narrowed by location when one is set
+  company: string;
+  location: string;
+  holidays: Holiday[];
+}
+
+interface CalendarFormData {
+  name: string;
+  company: string;
+  location: string;
+  holidays: Holiday[];
+}
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8000/api';
+
+// JWT API helper
+const makeAPICall = async (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem('access_token');
+  
+  return fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+      ...options.headers,
+    },
+  });
+};
+
+const emptyForm: CalendarFormData = {
+  name: '',
+  company: '',
+  location: '',
+  holidays: []
+};
+
+export default function AdminHolidays() {
+  const { locale, t, tLatest } = useLocale();
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [editingCalendar, setEditingCalendar] = useState<HolidayCalendar | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [formData, setFormData] = useState<CalendarFormData>(emptyForm);
+
+  const fetchCalendars = useCallback(async () => {
+    try {
+      const response = await makeAPICall(`${API_BASE}/timesheets/holiday-calendars/`);
+      if (!response.ok) throw new Error('Failed to fetch holiday calendars');
+      const data = await response.json();
+      setCalendars(data.calendars || []);
+    } catch {
+      setError(tLatest('admin.holidays.loadFailed'));
+    }
+  }, [tLatest]);
+
+  // Load data
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      await fetchCalendars();
+      setLoading(false);
+    };
+    loadData();
+  }, [fetchCalendars]);
+
+  // Clear messages after 5 seconds
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError('');
+        setSuccess('');
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [error, success]);
+
+  const filteredCalendars = calendars.filter(calendar =>
+    [calendar.name, calendar.company, calendar.location]
+      .some(value => value.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  // Handle submit
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const holidays = formData.holidays
+      .filter(holiday => holiday.date && holiday.name.trim())
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    if (new Set(holidays.map(holiday => holiday.date)).size !== holidays.length) {
+      setError(t('admin.holidays.duplicateDate'));
+      return;
+    }
+
+    try {
+      const response = await makeAPICall(
+        editingCalendar
+          ? `${API_BASE}/timesheets/holiday-calendars/${editingCalendar.id}/`
+          : `${API_BASE}/timesheets/holiday-calendars/`,
+        {
+          method: editingCalendar ? 'PUT' : 'POST',
+          body: JSON.stringify({ ...formData, holidays })
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t('admin.holidays.saveFailed'));
+      }
+
+      setSuccess(t(editingCalendar ? 'admin.holidays.updated' : 'admin.holidays.created'));
+      await fetchCalendars();
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('admin.holidays.unexpectedError'));
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setShowForm(false);
+    setEditingCalendar(null);
+    setError('');
+  };
+
+  const handleEdit = (calendar: HolidayCalendar) => {
+    setEditingCalendar(calendar);
+    setFormData({
+      name: calendar.name,
+      company: calendar.company,
+      location: calendar.location,
+      holidays: calendar.holidays
+    });
+    setShowForm(true);
+  };
+
+  const handleDelete = async (calendar: HolidayCalendar) => {
+    if (!confirm(t('admin.holidays.deleteConfirm', { name: calendar.name }))) return;
+
+    try {
+      const response = await makeAPICall(`${API_BASE}/timesheets/holiday-calendars/${calendar.id}/`, {
+        method: 'DELETE'
+      });
+      if (!response.ok) throw new Error(t('admin.holidays.deleteFailed'));
+      setSuccess(t('admin.holidays.deleted'));
+      await fetchCalendars();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('admin.holidays.deleteFailed'));
+    }
+  };
+
+  const addHoliday = () =>
+    setFormData({ ...formData, holidays: [...formData.holidays, { date: '', name: '' }] });
+
+  const removeHoliday = (index: number) =>
+    setFormData({ ...formData, holidays: formData.holidays.filter((_, i) => i !== index) });
+
+  const updateHoliday = (index: number, field: keyof Holiday, value: string) => {
+    const newList = [...formData.holidays];
+    newList[index] = { ...newList[index], [field]: value };
+    setFormData({ ...formData, holidays: newList });
+  };
+
+  // Holidays from today onwards, for the calendar list
+  const getUpcomingHolidays = (calendar: HolidayCalendar): Holiday[] => {
+    const today = new Date().toISOString().split('T')[0];
+    return calendar.holidays.filter(holiday => holiday.date >= today);
+  };
+
+  // The first three by name and date, then a count of the rest
+  const formatUpcomingHolidays = (upcoming: Holiday[]): string => {
+    const holidays = upcoming.slice(0, 3).map(holiday => t('admin.holidays.holidayItem', {
+      name: holiday.name,
+      date: formatDisplayDate(holiday.date, locale)
+    })).join(', ');
+    return upcoming.length > 3 ? t('admin.holidays.more', { holidays, count: upcoming.length - 3 }) : holidays;
+  };
+
+  if (loading) return <div className="loading">{t('admin.holidays.loading')}</div>;
+
+  return (
+    <div>
+      <div className="admin-header">
+        <h1>{t('admin.holidays.title')}</h1>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+      {success && <div className="alert alert-success">{success}</div>}
+
+      <div className="actions">
+        <input
+          type="text"
+          placeholder={t('admin.holidays.search')}
+          className="search-box"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        <button className="btn btn-primary" onClick={() => setShowForm(true)}>
+          {t('admin.holidays.add')}
+        </button>
+      </div>
+
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>{t('admin.holidays.name')}</th>
+            <th>{t('admin.holidays.company')}</th>
+            <th>{t('admin.holidays.location')}</th>
+            <th>{t('admin.holidays.upcoming')}</th>
+            <th>{t('admin.holidays.actions')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {filteredCalendars.map((calendar) => {
+            const upcoming = getUpcomingHolidays(calendar);
+            return (
+              <tr key={calendar.id}>
+                <td>{calendar.name}</td>
+                <td>{calendar.company || t('admin.holidays.allCompanies')}</td>
+                <td>{calendar.location || t('admin.holidays.allLocations')}</td>
+                <td>
+                  {upcoming.length ? formatUpcomingHolidays(upcoming) : t('admin.holidays.noUpcoming')}
+                </td>
+                <td>
+                  <button className="btn btn-warning" onClick={() => handleEdit(calendar)}>{t('admin.holidays.editButton')}</button>
+                  <button className="btn btn-danger" onClick={() => handleDelete(calendar)}>{t('admin.holidays.deleteButton')}</button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {!filteredCalendars.length && !loading && <div className="empty-state">{t('admin.holidays.empty')}</div>}
+
+      {showForm && (
+        <div className="modal">
+          <div className="modal-content">
+            <div className="modal-header">
+              <h2>{editingCalendar ? t('admin.holidays.edit') : t('admin.holidays.add')}</h2>
+              <button className="close-btn" onClick={resetForm}>×</button>
+            </div>
+            
+            <form onSubmit={handleSubmit}>
+              <div className="form-group">
+                <label>{t('admin.holidays.calendarName')}</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder={t('admin.holidays.calendarNamePlaceholder')}
+                />
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label>{t('admin.holidays.company')}</label>
+                  <input
+                    type="text"
+                    value={formData.company}
+                    onChange={(e) => setFormData({ ...formData, company: e.target.value })}
+                    placeholder={t('admin.holidays.companyPlaceholder')}
+                  />
+                </div>
+                <div className="form-group">
+                  <label>{t('admin.holidays.location')}</label>
+                  <input
+                    type="text"
+                    value={formData.location}
+                    onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                    placeholder={t('admin.holidays.locationPlaceholder')}
+                  />
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label>{t('admin.holidays.holidays')}</label>
+                <small className="help-text">
+                  {t('admin.holidays.holidaysHelp')}
+                </small>
+
+                {formData.holidays.map((holiday, index) => (
+                  <div key={index} className="activity-row">
+                    <input
+                      type="date"
+                      required
+                      value={holiday.date}
+                      onChange={(e) => updateHoliday(index, 'date', e.target.value)}
+                    />
+                    <input
+                      type="text"
+                      required
+                      value={holiday.name}
+                      onChange={(e) => updateHoliday(index, 'name', e.target.value)}
+                      placeholder={t('admin.holidays.holidayPlaceholder')}
+                      className="activity-input"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeHoliday(index)}
+                      className="btn btn-danger btn-small"
+                    >
+                      {t('admin.holidays.remove')}
+                    </button>
+                  </div>
+                ))}
+                
+                <button type="button" onClick={addHoliday} className="btn btn-secondary">
+                  {t('admin.holidays.addHoliday')}
+                </button>
+              </div>
+
+              <div className="form-actions">
+                <button type="button" className="btn" onClick={resetForm}>{t('admin.holidays.cancel')}</button>
+                <button type="submit" className="btn btn-primary">
+                  {editingCalendar ? t('admin.holidays.update') : t('admin.holidays.add')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { usePathname, useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import './admin.css';
 import LogoutButton from '../components/LogoutButton';
+import { useLocale } from '../context/LocaleContext';
+import { MessageKey } from '../utils/i18n';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8000/api';
 
@@ -36,6 +38,7 @@ export default function AdminLayout({
 }) {
   const pathname = usePathname();
   const router = useRouter();
+  const { t, tLatest } = useLocale();
   const [loading, setLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
   const [currentUser, setCurrentUser] = useState<UserInfo | null>(null);
@@ -65,7 +68,7 @@ export default function AdminLayout({
             true;
 
           if (!hasAdminAccess) {
-            alert(`Access denied. Admin privileges required. Your role: ${userData.designation}`);
+            alert(tLatest('admin.nav.accessDenied', { role: userData.designation }));
             router.push('/');
             return;
           }
@@ -84,18 +87,23 @@ export default function AdminLayout({
     };
 
     checkAdminAccess();
-  }, [router]);
-
-  const navItems = [
-    { href: '/admin', label: 'Dashboard' },
-    { href: '/admin/users', label: 'Users' },
-    { href: '/admin/projects', label: 'Projects' },
+  }, [router, tLatest]);
+
+  const navItems: { href: string; label: MessageKey }[] = [
+    { href: '/admin', label: 'admin.nav.dashboard' },
+    { href: '/admin/users', label: 'admin.nav.users' },
+    { href: '/admin/projects', label: 'admin.nav.projects' },
+    { href: '/admin/approvals', label: 'admin.nav.approvals' },
+    { href: '/admin/holidays', label: 'admin.nav.holidays' },
+    { href: '/admin/leave', label: 'admin.nav.leave' },
+    { href: '/admin/validation', label: 'admin.nav.validation' },
+    { href: '/admin/work-week', label: 'admin.nav.workWeek' },
   ];
 
   if (loading) {
     return (
       <div className="admin-container">
-        <div className="loading">Checking admin access...</div>
+        <div className="loading">{t('admin.nav.checkingAccess')}</div>
       </div>
     );
   }
@@ -107,15 +115,15 @@ export default function AdminLayout({
   return (
     <div className="admin-container">
       <div className="admin-sidebar">
-        <h2>Admin Panel</h2>
+        <h2>{t('admin.nav.title')}</h2>
         
         {currentUser && (
           <div className="admin-user-info">
-            <h3>Current User</h3>
-            <p><strong>Name:</strong> {currentUser.user_name}</p>
-            <p><strong>Email:</strong> {currentUser.email}</p>
-            <p><strong>Role:</strong> {currentUser.designation}</p>
-            <p><strong>Admin:</strong> {currentUser.is_admin ? 'Yes' : 'No'}</p>
+            <h3>{t('admin.nav.currentUser')}</h3>
+            <p><strong>{t('admin.nav.name')}</strong> {currentUser.user_name}</p>
+            <p><strong>{t('admin.nav.email')}</strong> {currentUser.email}</p>
+            <p><strong>{t('admin.nav.role')}</strong> {currentUser.designation}</p>
+            <p><strong>{t('admin.nav.admin')}</strong> {currentUser.is_admin ? t('admin.nav.yes') : t('admin.nav.no')}</p>
             {/* <p><strong>Staff:</strong> {currentUser.is_staff ? 'Yes' : 'No'}</p> */}
           </div>
         )}
@@ -127,13 +135,13 @@ export default function AdminLayout({
                 href={item.href}
                 className={pathname === item.href ? 'active' : ''}
               >
-                {item.label}
+                {t(item.label)}
               </Link>
             </li>
           ))}
           <li>
             <Link href="/" className="back-link">
-              ← Back to Employee View
+              {t('admin.nav.back')}
             </Link>
           </li>
         </ul>
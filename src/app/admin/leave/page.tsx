@@ -0,0 +1,241 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { LeaveType, LEAVE_TYPE_LABELS } from '../../utils/api';
+import { formatDisplayDate } from '../../utils/format';
+import { useLocale } from '../../context/LocaleContext';
+
+// Types
+type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+interface LeaveRequest {
+  id: number;
+  employee_name: string;
+  start_date: string;
+  end_date: string;
+  duration: 'full_day' | 'half_day';
+  leave_type: LeaveType;
+  reason: string;
+  status: LeaveStatus;
+  reviewed_by?: string;
+  review_note?: string;
+  created_at: string;
+}
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8000/api';
+
+// JWT API helper
+const makeAPICall = async (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem('access_token');
+  
+  return fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+      ...options.headers,
+    },
+  });
+};
+
+export default function AdminLeave() {
+  const { locale, t, tLatest } = useLocale();
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [statusFilter, setStatusFilter] = useState<LeaveStatus | ''>('pending');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [rejecting, setRejecting] = useState<LeaveRequest | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const query = statusFilter ? `?status=${statusFilter}` : '';
+      const response = await makeAPICall(`${API_BASE}/leave/requests/${query}`);
+      if (!response.ok) throw new Error('Failed to fetch leave requests');
+      const data = await response.json();
+      setRequests(data.requests || []);
+    } catch {
+      setError(tLatest('admin.leave.loadFailed'));
+    }
+  }, [statusFilter, tLatest]);
+
+  // Load data
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      await fetchRequests();
+      setLoading(false);
+    };
+    loadData();
+  }, [fetchRequests]);
+
+  // Clear messages after 5 seconds
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError('');
+        setSuccess('');
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [error, success]);
+
+  const filteredRequests = requests.filter(request =>
+    request.employee_name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const reviewRequest = async (request: LeaveRequest, action: 'approve' | 'reject', note = '') => {
+    try {
+      const response = await makeAPICall(`${API_BASE}/leave/requests/${request.id}/review/`, {
+        method: 'POST',
+        body: JSON.stringify({ action, note })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t(action === 'approve' ? 'admin.leave.approveFailed' : 'admin.leave.rejectFailed'));
+      }
+
+      setSuccess(t(action === 'approve' ? 'admin.leave.approved' : 'admin.leave.rejected', { name: request.employee_name }));
+      await fetchRequests();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('admin.leave.unexpectedError'));
+    }
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rejecting) return;
+
+    await reviewRequest(rejecting, 'reject', rejectNote.trim());
+    closeRejectForm();
+  };
+
+  const closeRejectForm = () => {
+    setRejecting(null);
+    setRejectNote('');
+  };
+
+  const formatDates = (request: LeaveRequest) => {
+    const dates = request.start_date === request.end_date
+      ? formatDisplayDate(request.start_date, locale)
+      : t('admin.leave.dateRange', {
+        from: formatDisplayDate(request.start_date, locale),
+        to: formatDisplayDate(request.end_date, locale)
+      });
+    return request.duration === 'half_day' ? t('admin.leave.halfDay', { dates }) : dates;
+  };
+
+  if (loading) return <div className="loading">{t('admin.leave.loading')}</div>;
+
+  return (
+    <div>
+      <div className="admin-header">
+        <h1>{t('admin.leave.title')}</h1>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+      {success && <div className="alert alert-success">{success}</div>}
+
+      <div className="actions">
+        <input
+          type="text"
+          placeholder={t('admin.leave.search')}
+          className="search-box"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        <div className="form-group" style={{ margin: 0 }}>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as LeaveStatus | '')}
+          >
+            <option value="pending">{t('leaveStatus.pending')}</option>
+            <option value="approved">{t('leaveStatus.approved')}</option>
+            <option value="rejected">{t('leaveStatus.rejected')}</option>
+            <option value="cancelled">{t('leaveStatus.cancelled')}</option>
+            <option value="">{t('admin.leave.all')}</option>
+          </select>
+        </div>
+      </div>
+
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>{t('admin.leave.employee')}</th>
+            <th>{t('admin.leave.type')}</th>
+            <th>{t('admin.leave.dates')}</th>
+            <th>{t('admin.leave.reason')}</th>
+            <th>{t('admin.leave.status')}</th>
+            <th>{t('admin.leave.actions')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {filteredRequests.map((request) => (
+            <tr key={request.id}>
+              <td>{request.employee_name}</td>
+              <td>{t(LEAVE_TYPE_LABELS[request.leave_type])}</td>
+              <td>{formatDates(request)}</td>
+              <td>{request.reason || '-'}</td>
+              <td>
+                {t(`leaveStatus.${request.status}`)}
+                {request.reviewed_by && <div><small>{t('admin.leave.reviewedBy', { name: request.reviewed_by })}</small></div>}
+                {request.review_note && <div><small>{request.review_note}</small></div>}
+              </td>
+              <td>
+                {request.status === 'pending' && (
+                  <>
+                    <button className="btn btn-success" onClick={() => reviewRequest(request, 'approve')}>
+                      {t('admin.leave.approve')}
+                    </button>
+                    <button className="btn btn-danger" onClick={() => setRejecting(request)}>
+                      {t('admin.leave.reject')}
+                    </button>
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {!filteredRequests.length && !loading && <div className="empty-state">{t('admin.leave.empty')}</div>}
+
+      {rejecting && (
+        <div className="modal">
+          <div className="modal-content">
+            <div className="modal-header">
+              <h2>{t('admin.leave.rejectTitle')}</h2>
+              <button className="close-btn" onClick={closeRejectForm}>×</button>
+            </div>
+
+            <form onSubmit={handleReject}>
+              <p>
+                {rejecting.employee_name} - {t(LEAVE_TYPE_LABELS[rejecting.leave_type])}, {formatDates(rejecting)}
+              </p>
+
+              <div className="form-group">
+                <label>{t('admin.leave.rejectReason')}</label>
+                <textarea
+                  required
+                  rows={3}
+                  value={rejectNote}
+                  onChange={(e) => setRejectNote(e.target.value)}
+                  placeholder={t('admin.leave.rejectPlaceholder')}
+                />
+                <small className="help-text">{t('admin.leave.rejectHelp')}</small>
+              </div>
+
+              <div className="form-actions">
+                <button type="button" className="btn" onClick={closeRejectForm}>{t('admin.leave.cancel')}</button>
+                <button type="submit" className="btn btn-danger">{t('admin.leave.rejectTitle')}</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { useLocale } from '../context/LocaleContext';
+import { formatDisplayDate, formatHoursCompact } from '../utils/format';
 
 // Types
 interface Project {
@@ -108,6 +110,7 @@ const makeAPICall = async (url: string, options: RequestInit = {}) => {
 
 export default function AdminDashboard() {
   const { user } = useAuth();
+  const { locale, t, tLatest } = useLocale();
   const [projects, setProjects] = useState<Project[]>([]);
   const [selectedProject, setSelectedProject] = useState<string>("");
   const [projectData, setProjectData] = useState<ProjectTimesheetSummary | null>(null);
@@ -126,22 +129,6 @@ export default function AdminDashboard() {
     setDateTo(lastDay.toISOString().split("T")[0]);
   }, []);
 
-  const formatToBritishDate = (dateString: string): string => {
-    if (!dateString) return "";
-
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString("en-GB", {
-        day: "2-digit",
-        month: "2-digit",
-        year: "numeric",
-      });
-    } catch (err) {
-      console.error("Date formatting error:", err);
-      return dateString;
-    }
-  };
-
   const fetchProjects = useCallback(async () => {
     try {
       const response = await makeAPICall(`${API_BASE}/projects/active/`);
@@ -153,9 +140,9 @@ export default function AdminDashboard() {
       }
     } catch (err) {
       console.error("Failed to fetch projects:", err);
-      setError("Failed to load projects");
+      setError(tLatest('admin.dashboard.projectsLoadFailed'));
     }
-  }, []);
+  }, [tLatest]);
 
   // Fetch project-specific timesheets for detailed view
   const fetchProjectTimesheets = useCallback(async () => {
@@ -184,12 +171,12 @@ export default function AdminDashboard() {
       const summary = processTimesheetData(timesheets);
       setProjectData(summary);
     } catch (err) {
-      setError("Failed to load project timesheets");
+      setError(tLatest('admin.dashboard.timesheetsLoadFailed'));
       console.error(err);
     } finally {
       setLoading(false);
     }
-  }, [selectedProject, dateFrom, dateTo]);
+  }, [selectedProject, dateFrom, dateTo, tLatest]);
 
   const processTimesheetData = (timesheets: TimesheetEntry[]): ProjectTimesheetSummary => {
     const employees: { [key: string]: string } = {};
@@ -261,28 +248,28 @@ export default function AdminDashboard() {
 
   // Show loading if user data is not available yet
   if (!user) {
-    return <div className="loading">Loading user information...</div>;
+    return <div className="loading">{t('admin.dashboard.loadingUser')}</div>;
   }
 
   return (
     <div>
       <div className="admin-header">
-        <h1>Timesheet Dashboard</h1>
+        <h1>{t('admin.dashboard.title')}</h1>
       </div>
 
       {error && <div className="alert alert-error">{error}</div>}
 
       <div className="filters-section">
-        <h3>Select Project and Date Range</h3>
+        <h3>{t('admin.dashboard.filters')}</h3>
         
         <div className="form-row">
           <div className="form-group">
-            <label>Project:</label>
+            <label>{t('admin.dashboard.project')}</label>
             <select
               value={selectedProject}
               onChange={(e) => setSelectedProject(e.target.value)}
             >
-              <option value="">Select a project...</option>
+              <option value="">{t('admin.dashboard.selectProject')}</option>
               {projects.map((project) => (
                 <option key={project.id} value={project.id}>
                   {project.name}
@@ -291,7 +278,7 @@ export default function AdminDashboard() {
             </select>
           </div>
           <div className="form-group">
-            <label>Date From:</label>
+            <label>{t('admin.dashboard.dateFrom')}</label>
             <input
               type="date"
               value={dateFrom}
@@ -299,7 +286,7 @@ export default function AdminDashboard() {
             />
           </div>
           <div className="form-group">
-            <label>Date To:</label>
+            <label>{t('admin.dashboard.dateTo')}</label>
             <input
               type="date"
               value={dateTo}
@@ -309,29 +296,29 @@ export default function AdminDashboard() {
         </div>
         
         <p>
-          <strong>Date Range:</strong> {formatToBritishDate(dateFrom)} - {formatToBritishDate(dateTo)}
+          <strong>{t('admin.dashboard.dateRange')}</strong> {dateFrom && formatDisplayDate(dateFrom, locale)} - {dateTo && formatDisplayDate(dateTo, locale)}
         </p>
       </div>
 
-      {loading && <div className="loading">Loading dashboard data...</div>}
+      {loading && <div className="loading">{t('admin.dashboard.loading')}</div>}
 
       {/* Project Summary Display */}
       {!loading && projectData && selectedProject && (
         <div>
           <div className="admin-header">
             <h2>{getSelectedProjectName()}</h2>
-            <p>Submitted timesheets for the selected period</p>
+            <p>{t('admin.dashboard.submittedOnly')}</p>
           </div>
 
           <div className="table-container">
             <table className="admin-table">
               <thead>
                 <tr>
-                  <th>Employee Name</th>
+                  <th>{t('admin.dashboard.employee')}</th>
                   {projectData.activities.map((activity) => (
                     <th key={activity}>{activity}</th>
                   ))}
-                  <th>Total Hours</th>
+                  <th>{t('admin.dashboard.totalHours')}</th>
                 </tr>
               </thead>
               <tbody>
@@ -340,30 +327,28 @@ export default function AdminDashboard() {
                     <td>{userName}</td>
                     {projectData.activities.map((activity) => (
                       <td key={activity}>
-                        {projectData.data[userEmail]?.[activity]
-                          ? Math.round(projectData.data[userEmail][activity] * 100) / 100
-                          : 0}h
+                        {formatHoursCompact(projectData.data[userEmail]?.[activity] || 0, locale)}
                       </td>
                     ))}
                     <td>
                       <strong>
-                        {Math.round(projectData.totals.byEmployee[userEmail] * 100) / 100}h
+                        {formatHoursCompact(projectData.totals.byEmployee[userEmail], locale)}
                       </strong>
                     </td>
                   </tr>
                 ))}
                 <tr className="totals-row">
-                  <td><strong>Total</strong></td>
+                  <td><strong>{t('admin.dashboard.total')}</strong></td>
                   {projectData.activities.map((activity) => (
                     <td key={activity}>
                       <strong>
-                        {Math.round(projectData.totals.byActivity[activity] * 100) / 100}h
+                        {formatHoursCompact(projectData.totals.byActivity[activity], locale)}
                       </strong>
                     </td>
                   ))}
                   <td>
                     <strong>
-                      {Math.round(projectData.totals.grandTotal * 100) / 100}h
+                      {formatHoursCompact(projectData.totals.grandTotal, locale)}
                     </strong>
                   </td>
                 </tr>
@@ -373,23 +358,23 @@ export default function AdminDashboard() {
 
           <div className="stats-grid">
             <div className="stat-card">
-              <h3>Total Employees</h3>
+              <h3>{t('admin.dashboard.totalEmployees')}</h3>
               <div className="number">{Object.keys(projectData.employees).length}</div>
             </div>
             <div className="stat-card">
-              <h3>Total Activities</h3>
+              <h3>{t('admin.dashboard.totalActivities')}</h3>
               <div className="number">{projectData.activities.length}</div>
             </div>
             <div className="stat-card">
-              <h3>Total Hours</h3>
-              <div className="number">{Math.round(projectData.totals.grandTotal * 100) / 100}h</div>
+              <h3>{t('admin.dashboard.totalHours')}</h3>
+              <div className="number">{formatHoursCompact(projectData.totals.grandTotal, locale)}</div>
             </div>
             <div className="stat-card">
-              <h3>Average Hours/Employee</h3>
+              <h3>{t('admin.dashboard.averageHours')}</h3>
               <div className="number">
-                {Object.keys(projectData.employees).length > 0
-                  ? Math.round((projectData.totals.grandTotal / Object.keys(projectData.employees).length) * 100) / 100
-                  : 0}h
+                {formatHoursCompact(Object.keys(projectData.employees).length > 0
+                  ? projectData.totals.grandTotal / Object.keys(projectData.employees).length
+                  : 0, locale)}
               </div>
             </div>
           </div>
@@ -398,16 +383,16 @@ export default function AdminDashboard() {
 
       {!selectedProject && !loading && (
         <div className="empty-state">
-          <h3>Select a Project</h3>
-          <p>Choose a project from the dropdown above to view the timesheet summary.</p>
+          <h3>{t('admin.dashboard.selectTitle')}</h3>
+          <p>{t('admin.dashboard.selectHelp')}</p>
         </div>
       )}
 
       {!loading && selectedProject && projectData && Object.keys(projectData.employees).length === 0 && (
         <div className="empty-state">
-          <h3>No Data Found</h3>
-          <p>No submitted timesheet entries found for the selected project and date range.</p>
-          <p>Ensure employees have submitted their timesheets for this project and period.</p>
+          <h3>{t('admin.dashboard.emptyTitle')}</h3>
+          <p>{t('admin.dashboard.empty')}</p>
+          <p>{t('admin.dashboard.emptyHelp')}</p>
         </div>
       )}
     </div>
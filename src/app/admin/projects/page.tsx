@@ -1,6 +1,8 @@
 "use client";
 
 import { useState, useEffect, useCallback } from 'react';
+import { useLocale } from '../../context/LocaleContext';
+import { MessageKey } from '../../utils/i18n';
 
 // Types
 interface User {
@@ -32,6 +34,14 @@ interface ProjectChoices {
   statuses: { [key: string]: string };
 }
 
+// Statuses the server may add later fall back to its own label
+const PROJECT_STATUS_LABELS: { [key: string]: MessageKey } = {
+  active: 'admin.projects.status.active',
+  completed: 'admin.projects.status.completed',
+  on_hold: 'admin.projects.status.on_hold',
+  cancelled: 'admin.projects.status.cancelled'
+};
+
 const API_BASE = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8000/api';
 
 // JWT API helper
@@ -49,6 +59,7 @@ const makeAPICall = async (url: string, options: RequestInit = {}) => {
 };
 
 export default function AdminProjects() {
+  const { t, tLatest } = useLocale();
   const [projects, setProjects] = useState<ProjectWithAssignments[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [choices, setChoices] = useState<ProjectChoices>({ 
@@ -123,9 +134,9 @@ export default function AdminProjects() {
       
       setProjects(projectsWithAssignments);
     } catch {
-      setError('Failed to load projects');
+      setError(tLatest('admin.projects.loadFailed'));
     }
-  }, []);
+  }, [tLatest]);
 
   // Fetch choices
   const fetchChoices = useCallback(async () => {
@@ -186,18 +197,17 @@ export default function AdminProjects() {
       });
 
       if (response.ok) {
-        const data = await response.json();
-        setSuccess(data.message || 'User assignments updated successfully');
+        setSuccess(t('admin.projects.assignmentsSaved'));
         await fetchProjects(); // Refresh projects
         setShowAssignmentModal(false);
         setSelectedProjectForAssignment(null);
         setSelectedUserIds([]);
       } else {
         const errorData = await response.json();
-        setError(errorData.error || 'Failed to update assignments');
+        setError(errorData.error || t('admin.projects.assignmentsFailed'));
       }
     } catch {
-      setError('Failed to update assignments');
+      setError(t('admin.projects.assignmentsFailed'));
     } finally {
       setAssignmentLoading(false);
     }
@@ -243,15 +253,14 @@ export default function AdminProjects() {
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to save project');
+        throw new Error(errorData.error || t('admin.projects.saveFailed'));
       }
 
-      const data = await response.json();
-      setSuccess(data.message || `Project ${editingProject ? 'updated' : 'created'} successfully`);
+      setSuccess(t(editingProject ? 'admin.projects.updated' : 'admin.projects.created'));
       await fetchProjects();
       resetForm();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unexpected error');
+      setError(err instanceof Error ? err.message : t('admin.projects.unexpectedError'));
     }
   };
 
@@ -279,20 +288,23 @@ export default function AdminProjects() {
   };
 
   const handleDelete = async (project: ProjectWithAssignments) => {
-    if (!confirm(`Delete ${project.name}? This will also remove all user assignments.`)) return;
+    if (!confirm(t('admin.projects.deleteConfirm', { name: project.name }))) return;
 
     try {
       const response = await makeAPICall(`${API_BASE}/projects/${project.id}/`, {
         method: 'DELETE'
       });
-      if (!response.ok) throw new Error('Failed to delete project');
-      setSuccess('Project deleted successfully');
+      if (!response.ok) throw new Error(t('admin.projects.deleteFailed'));
+      setSuccess(t('admin.projects.deleted'));
       await fetchProjects();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete');
+      setError(err instanceof Error ? err.message : t('admin.projects.deleteFailed'));
     }
   };
 
+  const getStatusLabel = (status: string) =>
+    PROJECT_STATUS_LABELS[status] ? t(PROJECT_STATUS_LABELS[status]) : choices.statuses[status] || status.toUpperCase();
+
   const addActivityType = () =>
     setFormData({ ...formData, activity_types_list: [...formData.activity_types_list, ''] });
 
@@ -305,12 +317,12 @@ export default function AdminProjects() {
     setFormData({ ...formData, activity_types_list: newList });
   };
 
-  if (loading) return <div className="loading">Loading projects...</div>;
+  if (loading) return <div className="loading">{t('admin.projects.loading')}</div>;
 
   return (
     <div>
       <div className="admin-header">
-        <h1>Project Management</h1>
+        <h1>{t('admin.projects.title')}</h1>
       </div>
 
       {error && <div className="alert alert-error">{error}</div>}
@@ -319,25 +331,25 @@ export default function AdminProjects() {
       <div className="actions">
         <input
           type="text"
-          placeholder="Search projects..."
+          placeholder={t('admin.projects.search')}
           className="search-box"
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
         />
         <button className="btn btn-primary" onClick={() => setShowForm(true)}>
-          Add Project
+          {t('admin.projects.add')}
         </button>
       </div>
 
       <table className="admin-table">
         <thead>
           <tr>
-            <th>Name</th>
-            <th>Billable</th>
-            <th>Status</th>
-            <th>Activity Types</th>
-            <th>Assigned Users</th>
-            <th>Actions</th>
+            <th>{t('admin.projects.name')}</th>
+            <th>{t('admin.projects.billable')}</th>
+            <th>{t('admin.projects.status')}</th>
+            <th>{t('admin.projects.activityTypes')}</th>
+            <th>{t('admin.projects.assignedUsers')}</th>
+            <th>{t('admin.projects.actions')}</th>
           </tr>
         </thead>
         <tbody>
@@ -346,68 +358,68 @@ export default function AdminProjects() {
               <td>{project.name}</td>
               <td>
                 <span className={`status-badge ${project.billable ? 'status-active' : 'status-inactive'}`}>
-                  {project.billable ? 'YES' : 'NO'}
+                  {t(project.billable ? 'admin.projects.yes' : 'admin.projects.no')}
                 </span>
               </td>
               <td>
                 <span className={`status-badge status-${project.status}`}>
-                  {project.status_display || choices.statuses[project.status] || project.status.toUpperCase()}
+                  {getStatusLabel(project.status)}
                 </span>
               </td>
-              <td>{project.activity_types_display?.length ? project.activity_types_display.join(', ') : 'No activities defined'}</td>
+              <td>{project.activity_types_display?.length ? project.activity_types_display.join(', ') : t('admin.projects.noActivities')}</td>
               <td>
                 <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                   <span className="status-badge status-active">
-                    {project.assigned_users_count || 0} users
+                    {t('admin.projects.userCount', { count: project.assigned_users_count || 0 })}
                   </span>
                   <button 
                     className="btn btn-primary btn-small" 
                     onClick={() => handleAssignUsers(project)}
-                    title="Manage user assignments"
+                    title={t('admin.projects.manageTitle')}
                   >
-                    Manage
+                    {t('admin.projects.manage')}
                   </button>
                 </div>
               </td>
               <td>
-                <button className="btn btn-warning" onClick={() => handleEdit(project)}>Edit</button>
-                <button className="btn btn-danger" onClick={() => handleDelete(project)}>Delete</button>
+                <button className="btn btn-warning" onClick={() => handleEdit(project)}>{t('admin.projects.edit')}</button>
+                <button className="btn btn-danger" onClick={() => handleDelete(project)}>{t('admin.projects.delete')}</button>
               </td>
             </tr>
           ))}
         </tbody>
       </table>
 
-      {!filteredProjects.length && !loading && <div className="empty-state">No projects found.</div>}
+      {!filteredProjects.length && !loading && <div className="empty-state">{t('admin.projects.empty')}</div>}
 
       {showForm && (
         <div className="modal">
           <div className="modal-content">
             <div className="modal-header">
-              <h2>{editingProject ? 'Edit Project' : 'Add Project'}</h2>
+              <h2>{t(editingProject ? 'admin.projects.editTitle' : 'admin.projects.add')}</h2>
               <button className="close-btn" onClick={resetForm}>×</button>
             </div>
             
             <form onSubmit={handleSubmit}>
               <div className="form-row">
                 <div className="form-group">
-                  <label>Project Name *</label>
+                  <label>{t('admin.projects.projectName')}</label>
                   <input
                     type="text"
                     required
                     value={formData.name}
                     onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    placeholder="e.g., Client A - Website Redesign"
+                    placeholder={t('admin.projects.projectNamePlaceholder')}
                   />
                 </div>
                 <div className="form-group">
-                  <label>Status *</label>
+                  <label>{t('admin.projects.statusRequired')}</label>
                   <select
                     value={formData.status}
                     onChange={(e) => setFormData({ ...formData, status: e.target.value })}
                   >
-                    {Object.entries(choices.statuses).map(([key, value]) => (
-                      <option key={key} value={key}>{value}</option>
+                    {Object.keys(choices.statuses).map(key => (
+                      <option key={key} value={key}>{getStatusLabel(key)}</option>
                     ))}
                   </select>
                 </div>
@@ -420,14 +432,14 @@ export default function AdminProjects() {
                     checked={formData.billable}
                     onChange={(e) => setFormData({ ...formData, billable: e.target.checked })}
                   />
-                  Billable Project
+                  {t('admin.projects.billableProject')}
                 </label>
               </div>
 
               <div className="form-group">
-                <label>Activity Types</label>
+                <label>{t('admin.projects.activityTypes')}</label>
                 <small className="help-text">
-                  Define the types of activities that can be tracked for this project
+                  {t('admin.projects.activityHelp')}
                 </small>
 
                 {formData.activity_types_list.map((activity, index) => (
@@ -436,7 +448,7 @@ export default function AdminProjects() {
                       type="text"
                       value={activity}
                       onChange={(e) => updateActivityType(index, e.target.value)}
-                      placeholder="e.g., Development, Testing, Design"
+                      placeholder={t('admin.projects.activityPlaceholder')}
                       className="activity-input"
                     />
                     <button
@@ -444,13 +456,13 @@ export default function AdminProjects() {
                       onClick={() => removeActivityType(index)}
                       className="btn btn-danger btn-small"
                     >
-                      Remove
+                      {t('admin.projects.removeActivity')}
                     </button>
                   </div>
                 ))}
                 
                 <button type="button" onClick={addActivityType} className="btn btn-secondary">
-                  Add Activity Type
+                  {t('admin.projects.addActivity')}
                 </button>
 
                 {!formData.activity_types_list.length && (
@@ -462,15 +474,15 @@ export default function AdminProjects() {
                     })}
                     className="btn btn-success"
                   >
-                    Add Default Activities
+                    {t('admin.projects.addDefaultActivities')}
                   </button>
                 )}
               </div>
 
               <div className="form-actions">
-                <button type="button" className="btn" onClick={resetForm}>Cancel</button>
+                <button type="button" className="btn" onClick={resetForm}>{t('admin.projects.cancel')}</button>
                 <button type="submit" className="btn btn-primary">
-                  {editingProject ? 'Update' : 'Add'} Project
+                  {t(editingProject ? 'admin.projects.update' : 'admin.projects.add')}
                 </button>
               </div>
             </form>
@@ -483,21 +495,21 @@ export default function AdminProjects() {
         <div className="modal">
           <div className="modal-content">
             <div className="modal-header">
-              <h2>Manage User Assignments - {selectedProjectForAssignment.name}</h2>
+              <h2>{t('admin.projects.assignmentsTitle', { name: selectedProjectForAssignment.name })}</h2>
               <button className="close-btn" onClick={() => setShowAssignmentModal(false)}>×</button>
             </div>
             
             <div style={{ marginBottom: '16px' }}>
               <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
                 <p style={{ color: 'rgba(255, 255, 255, 0.8)', margin: 0 }}>
-                  Select users who can log time for this project:
+                  {t('admin.projects.assignmentsPrompt')}
                 </p>
                 <button
                   type="button"
                   className="btn btn-secondary btn-small"
                   onClick={handleSelectAll}
                 >
-                  {selectedUserIds.length === users.filter(u => u.is_active).length ? 'Deselect All' : 'Select All'}
+                  {selectedUserIds.length === users.filter(u => u.is_active).length ? t('admin.projects.deselectAll') : t('admin.projects.selectAll')}
                 </button>
               </div>
               
@@ -522,7 +534,7 @@ export default function AdminProjects() {
                 
                 {users.filter(user => user.is_active).length === 0 && (
                   <p style={{ textAlign: 'center', color: 'rgba(255, 255, 255, 0.6)', margin: '16px 0' }}>
-                    No active users found
+                    {t('admin.projects.noActiveUsers')}
                   </p>
                 )}
               </div>
@@ -533,7 +545,10 @@ export default function AdminProjects() {
                 color: 'rgba(255, 255, 255, 0.6)',
                 margin: '8px 0 0 0'
               }}>
-                Selected: {selectedUserIds.length} of {users.filter(u => u.is_active).length} active users
+                {t('admin.projects.selectedCount', {
+                  count: selectedUserIds.length,
+                  total: users.filter(u => u.is_active).length
+                })}
               </p>
             </div>
 
@@ -544,7 +559,7 @@ export default function AdminProjects() {
                 onClick={() => setShowAssignmentModal(false)}
                 disabled={assignmentLoading}
               >
-                Cancel
+                {t('admin.projects.cancel')}
               </button>
               <button 
                 type="button" 
@@ -552,7 +567,7 @@ export default function AdminProjects() {
                 onClick={handleSaveAssignments}
                 disabled={assignmentLoading}
               >
-                {assignmentLoading ? 'Saving...' : 'Save Assignments'}
+                {assignmentLoading ? t('admin.projects.saving') : t('admin.projects.saveAssignments')}
               </button>
             </div>
           </div>
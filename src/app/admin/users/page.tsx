@@ -1,6 +1,8 @@
 "use client";
 
 import { useState, useEffect, useCallback } from 'react';
+import { useLocale } from '../../context/LocaleContext';
+import { MessageKey } from '../../utils/i18n';
 
 interface User {
   id: number;
@@ -14,6 +16,7 @@ interface User {
   is_admin: boolean;
   full_name: string;
   role: string;
+  contracted_hours?: number;
   last_login?: string;
 }
 
@@ -23,6 +26,8 @@ interface UserFormData {
   last_name: string;
   designation: string;
   company?: string;
+  // Weekly hours before holidays and leave are deducted
+  contracted_hours: number;
   password?: string;
   new_password?: string;
   confirm_password?: string;
@@ -49,6 +54,7 @@ const makeAPICall = async (url: string, options: RequestInit = {}) => {
 };
 
 export default function AdminUsers() {
+  const { t, tLatest } = useLocale();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -65,6 +71,7 @@ export default function AdminUsers() {
     last_name: '',
     designation: 'employee',
     company: 'Mobiux',
+    contracted_hours: 40,
     password: '',
     new_password: '',
     confirm_password: '',
@@ -74,15 +81,20 @@ export default function AdminUsers() {
   });
 
   // Designation choices
-  const designationChoices = [
-    { value: 'employee', label: 'Employee' },
-    { value: 'senior_employee', label: 'Senior Employee' },
-    { value: 'team_lead', label: 'Team Lead' },
-    { value: 'manager', label: 'Manager' },
-    { value: 'senior_manager', label: 'Senior Manager' },
-    { value: 'director', label: 'Director' },
+  const designationChoices: { value: string; label: MessageKey }[] = [
+    { value: 'employee', label: 'admin.users.designation.employee' },
+    { value: 'senior_employee', label: 'admin.users.designation.senior_employee' },
+    { value: 'team_lead', label: 'admin.users.designation.team_lead' },
+    { value: 'manager', label: 'admin.users.designation.manager' },
+    { value: 'senior_manager', label: 'admin.users.designation.senior_manager' },
+    { value: 'director', label: 'admin.users.designation.director' },
   ];
 
+  const getDesignationLabel = (designation: string) => {
+    const choice = designationChoices.find(d => d.value === designation);
+    return choice ? t(choice.label) : designation;
+  };
+
   // Load current user
   useEffect(() => {
     const loadCurrentUser = async () => {
@@ -110,21 +122,22 @@ export default function AdminUsers() {
         const data = await response.json();
         setUsers(data.users || []);
       } else if (response.status === 403) {
-        setError('Admin privileges required to view users');
+        setError(tLatest('admin.users.adminRequired'));
       } else {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch users');
+        throw new Error(errorData.error || tLatest('admin.users.fetchFailed'));
       }
     } catch (err) {
       console.error('Failed to fetch users:', err);
       setError(
-        'Failed to load users: ' +
-          (err instanceof Error ? err.message : 'Unknown error')
+        tLatest('admin.users.loadFailed', {
+          error: err instanceof Error ? err.message : tLatest('admin.users.unknownError')
+        })
       );
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [tLatest]);
 
   // Load users
   useEffect(() => {
@@ -159,11 +172,11 @@ export default function AdminUsers() {
     // Password validation for editing users
     if (editingUser && showPasswordFields) {
       if (formData.new_password !== formData.confirm_password) {
-        setError('Passwords do not match');
+        setError(t('admin.users.passwordMismatch'));
         return;
       }
       if (formData.new_password && formData.new_password.length < 8) {
-        setError('Password must be at least 8 characters long');
+        setError(t('admin.users.passwordTooShort'));
         return;
       }
     }
@@ -182,6 +195,7 @@ export default function AdminUsers() {
                 last_name: formData.last_name,
                 designation: formData.designation,
                 company: formData.company,
+                contracted_hours: formData.contracted_hours,
                 is_active: formData.is_active,
                 is_staff: formData.is_staff,
                 is_admin: formData.is_admin,
@@ -202,13 +216,13 @@ export default function AdminUsers() {
             );
 
             if (passwordResponse.ok) {
-              setSuccess('User and password updated successfully');
+              setSuccess(t('admin.users.updatedWithPassword'));
             } else {
-              setSuccess('User updated successfully, but password update failed');
+              setSuccess(t('admin.users.passwordUpdateFailed'));
             }
           } else {
             const errorData = await response.json();
-            throw new Error(errorData.error || 'Failed to update user');
+            throw new Error(errorData.error || t('admin.users.updateFailed'));
           }
         } else {
           // Update user without password change
@@ -221,6 +235,7 @@ export default function AdminUsers() {
                 last_name: formData.last_name,
                 designation: formData.designation,
                 company: formData.company,
+                contracted_hours: formData.contracted_hours,
                 is_active: formData.is_active,
                 is_staff: formData.is_staff,
                 is_admin: formData.is_admin,
@@ -229,10 +244,10 @@ export default function AdminUsers() {
           );
 
           if (response.ok) {
-            setSuccess('User updated successfully');
+            setSuccess(t('admin.users.updated'));
           } else {
             const errorData = await response.json();
-            throw new Error(errorData.error || 'Failed to update user');
+            throw new Error(errorData.error || t('admin.users.updateFailed'));
           }
         }
         
@@ -246,19 +261,19 @@ export default function AdminUsers() {
         });
 
         if (response.ok) {
-          setSuccess('User created successfully');
+          setSuccess(t('admin.users.created'));
           fetchUsers();
           resetForm();
         } else {
           const errorData = await response.json();
-          throw new Error(errorData.error || 'Failed to create user');
+          throw new Error(errorData.error || t('admin.users.createFailed'));
         }
       }
     } catch (err) {
       if (err instanceof Error) {
         setError(err.message);
       } else {
-        setError('An unexpected error occurred');
+        setError(t('admin.users.unexpectedError'));
       }
     }
   };
@@ -271,6 +286,7 @@ export default function AdminUsers() {
       last_name: '',
       designation: 'employee',
       company: 'Mobiux',
+      contracted_hours: 40,
       password: '',
       new_password: '',
       confirm_password: '',
@@ -292,6 +308,7 @@ export default function AdminUsers() {
       last_name: user.last_name,
       designation: user.designation,
       company: user.company,
+      contracted_hours: user.contracted_hours ?? 40,
       password: '', // Don't populate password for edit
       new_password: '',
       confirm_password: '',
@@ -308,11 +325,11 @@ export default function AdminUsers() {
   // Delete user
   const handleDelete = async (user: User) => {
     if (user.id === currentUser?.id) {
-      setError('Cannot delete your own account');
+      setError(t('admin.users.cannotDeleteSelf'));
       return;
     }
 
-    if (!confirm(`Are you sure you want to delete ${user.full_name}? This action cannot be undone.`)) {
+    if (!confirm(t('admin.users.deleteConfirm', { name: user.full_name }))) {
       return;
     }
 
@@ -323,16 +340,17 @@ export default function AdminUsers() {
       );
 
       if (response.ok) {
-        setSuccess('User deleted successfully');
+        setSuccess(t('admin.users.deleted'));
         fetchUsers();
       } else {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to delete user');
+        throw new Error(errorData.error || t('admin.users.unknownError'));
       }
     } catch (err) {
       setError(
-        'Failed to delete user: ' +
-          (err instanceof Error ? err.message : 'Unknown error')
+        t('admin.users.deleteFailed', {
+          error: err instanceof Error ? err.message : t('admin.users.unknownError')
+        })
       );
     }
   };
@@ -341,7 +359,7 @@ export default function AdminUsers() {
   const handleToggleStatus = async (user: User) => {
     const action = user.is_active ? 'deactivate' : 'activate';
     
-    if (!confirm(`Are you sure you want to ${action} ${user.full_name}?`)) {
+    if (!confirm(t(`admin.users.${action}Confirm`, { name: user.full_name }))) {
       return;
     }
 
@@ -355,28 +373,29 @@ export default function AdminUsers() {
       );
 
       if (response.ok) {
-        setSuccess(`User ${action}d successfully`);
+        setSuccess(t(`admin.users.${action}d`));
         fetchUsers();
       } else {
         const errorData = await response.json();
-        throw new Error(errorData.error || `Failed to ${action} user`);
+        throw new Error(errorData.error || t('admin.users.unknownError'));
       }
     } catch (err) {
       setError(
-        `Failed to ${action} user: ` +
-          (err instanceof Error ? err.message : 'Unknown error')
+        t(`admin.users.${action}Failed`, {
+          error: err instanceof Error ? err.message : t('admin.users.unknownError')
+        })
       );
     }
   };
 
   if (loading) {
-    return <div className="loading">Loading users...</div>;
+    return <div className="loading">{t('admin.users.loading')}</div>;
   }
 
   return (
     <div>
       <div className="admin-header">
-        <h1>User Management</h1>
+        <h1>{t('admin.users.title')}</h1>
       </div>
 
       {error && <div className="alert alert-error">{error}</div>}
@@ -385,13 +404,13 @@ export default function AdminUsers() {
       <div className="actions">
         <input
           type="text"
-          placeholder="Search users..."
+          placeholder={t('admin.users.search')}
           className="search-box"
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
         />
         <button className="btn btn-primary" onClick={() => setShowForm(true)}>
-          Add User
+          {t('admin.users.add')}
         </button>
       </div>
 
@@ -399,13 +418,13 @@ export default function AdminUsers() {
         <table className="admin-table">
           <thead>
             <tr>
-              <th>Name</th>
-              <th>Email</th>
-              <th>Designation</th>
-              <th>Company</th>
+              <th>{t('admin.users.name')}</th>
+              <th>{t('admin.users.email')}</th>
+              <th>{t('admin.users.designation')}</th>
+              <th>{t('admin.users.company')}</th>
               {/* <th>Status</th> */}
               {/* <th>Admin</th> */}
-              <th>Actions</th>
+              <th>{t('admin.users.actions')}</th>
             </tr>
           </thead>
           <tbody>
@@ -415,7 +434,7 @@ export default function AdminUsers() {
                 <td>{user.email}</td>
                 <td>
                   <span className={`status-badge status-${user.designation}`}>
-                    {designationChoices.find(d => d.value === user.designation)?.label || user.designation}
+                    {getDesignationLabel(user.designation)}
                   </span>
                 </td>
                 <td>{user.company}</td>
@@ -447,7 +466,7 @@ export default function AdminUsers() {
                     className="btn btn-warning mr-2"
                     onClick={() => handleEdit(user)}
                   >
-                    Edit
+                    {t('admin.users.edit')}
                   </button>
                   <button
                     className={`btn ${
@@ -456,7 +475,7 @@ export default function AdminUsers() {
                     onClick={() => handleToggleStatus(user)}
                     disabled={user.id === currentUser?.id}
                   >
-                    {user.is_active ? 'Deactivate' : 'Activate'}
+                    {t(user.is_active ? 'admin.users.deactivate' : 'admin.users.activate')}
                   </button>
                   <button
                     className="btn btn-danger"
@@ -464,11 +483,11 @@ export default function AdminUsers() {
                     disabled={user.id === currentUser?.id}
                     title={
                       user.id === currentUser?.id
-                        ? 'Cannot delete yourself'
-                        : 'Delete user'
+                        ? t('admin.users.deleteSelfTitle')
+                        : t('admin.users.deleteTitle')
                     }
                   >
-                    Delete
+                    {t('admin.users.delete')}
                   </button>
                 </td>
               </tr>
@@ -479,7 +498,7 @@ export default function AdminUsers() {
 
       {filteredUsers.length === 0 && !loading && (
         <div className="empty-state">
-          {searchTerm ? 'No users found matching your search.' : 'No users found.'}
+          {searchTerm ? t('admin.users.noMatches') : t('admin.users.empty')}
         </div>
       )}
 
@@ -488,7 +507,7 @@ export default function AdminUsers() {
         <div className="modal">
           <div className="modal-content">
             <div className="modal-header">
-              <h2>{editingUser ? 'Edit User' : 'Add User'}</h2>
+              <h2>{t(editingUser ? 'admin.users.editTitle' : 'admin.users.add')}</h2>
               <button className="close-btn" onClick={resetForm}>
                 ×
               </button>
@@ -497,7 +516,7 @@ export default function AdminUsers() {
             <form onSubmit={handleSubmit}>
               <div className="form-row">
                 <div className="form-group">
-                  <label>First Name *</label>
+                  <label>{t('admin.users.firstName')}</label>
                   <input
                     type="text"
                     required
@@ -505,11 +524,11 @@ export default function AdminUsers() {
                     onChange={(e) =>
                       setFormData({ ...formData, first_name: e.target.value })
                     }
-                    placeholder="Enter first name"
+                    placeholder={t('admin.users.firstNamePlaceholder')}
                   />
                 </div>
                 <div className="form-group">
-                  <label>Last Name *</label>
+                  <label>{t('admin.users.lastName')}</label>
                   <input
                     type="text"
                     required
@@ -517,13 +536,13 @@ export default function AdminUsers() {
                     onChange={(e) =>
                       setFormData({ ...formData, last_name: e.target.value })
                     }
-                    placeholder="Enter last name"
+                    placeholder={t('admin.users.lastNamePlaceholder')}
                   />
                 </div>
               </div>
 
               <div className="form-group">
-                <label>Email Address *</label>
+                <label>{t('admin.users.emailAddress')}</label>
                 <input
                   type="email"
                   required
@@ -531,17 +550,17 @@ export default function AdminUsers() {
                   onChange={(e) =>
                     setFormData({ ...formData, email: e.target.value })
                   }
-                  placeholder="Enter email address"
+                  placeholder={t('admin.users.emailPlaceholder')}
                   disabled={!!editingUser}
                 />
                 {editingUser && (
-                  <small>Email cannot be changed after user creation</small>
+                  <small>{t('admin.users.emailLocked')}</small>
                 )}
               </div>
 
               {!editingUser && (
                 <div className="form-group">
-                  <label>Password *</label>
+                  <label>{t('admin.users.password')}</label>
                   <input
                     type="password"
                     required={!editingUser}
@@ -549,7 +568,7 @@ export default function AdminUsers() {
                     onChange={(e) =>
                       setFormData({ ...formData, password: e.target.value })
                     }
-                    placeholder="Enter password (min 8 characters)"
+                    placeholder={t('admin.users.passwordPlaceholder')}
                     minLength={8}
                   />
                 </div>
@@ -557,7 +576,7 @@ export default function AdminUsers() {
 
               <div className="form-row">
                 <div className="form-group">
-                  <label>Designation *</label>
+                  <label>{t('admin.users.designationRequired')}</label>
                   <select
                     required
                     value={formData.designation}
@@ -567,26 +586,44 @@ export default function AdminUsers() {
                   >
                     {designationChoices.map((choice) => (
                       <option key={choice.value} value={choice.value}>
-                        {choice.label}
+                        {t(choice.label)}
                       </option>
                     ))}
                   </select>
                 </div>
                 <div className="form-group">
-                  <label>Company</label>
+                  <label>{t('admin.users.company')}</label>
                   <input
                     type="text"
                     value={formData.company}
                     onChange={(e) =>
                       setFormData({ ...formData, company: e.target.value })
                     }
-                    placeholder="Company name"
+                    placeholder={t('admin.users.companyPlaceholder')}
                   />
                 </div>
               </div>
 
               <div className="form-group">
-                <label>Permissions</label>
+                <label>{t('admin.users.contractedHours')}</label>
+                <input
+                  type="number"
+                  required
+                  min="0"
+                  max="80"
+                  step="0.5"
+                  value={formData.contracted_hours}
+                  onChange={(e) =>
+                    setFormData({ ...formData, contracted_hours: parseFloat(e.target.value) })
+                  }
+                />
+                <small className="help-text">
+                  {t('admin.users.contractedHoursHelp')}
+                </small>
+              </div>
+
+              <div className="form-group">
+                <label>{t('admin.users.permissions')}</label>
                 <div className="permissions-group">
                   <label className="checkbox-label">
                     <input
@@ -596,7 +633,7 @@ export default function AdminUsers() {
                         setFormData({ ...formData, is_active: e.target.checked })
                       }
                     />
-                    Active User
+                    {t('admin.users.activeUser')}
                   </label>
                   <label className="checkbox-label">
                     <input
@@ -606,7 +643,7 @@ export default function AdminUsers() {
                         setFormData({ ...formData, is_staff: e.target.checked })
                       }
                     />
-                    Staff Access
+                    {t('admin.users.staffAccess')}
                   </label>
                   <label className="checkbox-label">
                     <input
@@ -616,7 +653,7 @@ export default function AdminUsers() {
                         setFormData({ ...formData, is_admin: e.target.checked })
                       }
                     />
-                    Admin Access
+                    {t('admin.users.adminAccess')}
                   </label>
                 </div>
               </div>
@@ -639,7 +676,7 @@ export default function AdminUsers() {
                         }
                       }}
                     />
-                    Change Password
+                    {t('admin.users.changePassword')}
                   </label>
                 </div>
               )}
@@ -648,7 +685,7 @@ export default function AdminUsers() {
               {editingUser && showPasswordFields && (
                 <>
                   <div className="form-group">
-                    <label>New Password *</label>
+                    <label>{t('admin.users.newPassword')}</label>
                     <input
                       type="password"
                       required={showPasswordFields}
@@ -656,13 +693,13 @@ export default function AdminUsers() {
                       onChange={(e) =>
                         setFormData({ ...formData, new_password: e.target.value })
                       }
-                      placeholder="Enter new password (min 8 characters)"
+                      placeholder={t('admin.users.newPasswordPlaceholder')}
                       minLength={8}
                     />
                   </div>
 
                   <div className="form-group">
-                    <label>Confirm New Password *</label>
+                    <label>{t('admin.users.confirmPassword')}</label>
                     <input
                       type="password"
                       required={showPasswordFields}
@@ -670,7 +707,7 @@ export default function AdminUsers() {
                       onChange={(e) =>
                         setFormData({ ...formData, confirm_password: e.target.value })
                       }
-                      placeholder="Confirm new password"
+                      placeholder={t('admin.users.confirmPasswordPlaceholder')}
                       minLength={8}
                     />
                   </div>
@@ -678,7 +715,7 @@ export default function AdminUsers() {
                   {formData.new_password !== formData.confirm_password && 
                    formData.confirm_password && formData.confirm_password.length > 0 && (
                     <div className="alert alert-error">
-                      Passwords do not match
+                      {t('admin.users.passwordMismatch')}
                     </div>
                   )}
                 </>
@@ -686,7 +723,7 @@ export default function AdminUsers() {
 
               <div className="form-actions">
                 <button type="button" className="btn" onClick={resetForm}>
-                  Cancel
+                  {t('admin.users.cancel')}
                 </button>
                 <button 
                   type="submit" 
@@ -699,7 +736,7 @@ export default function AdminUsers() {
                     )
                   }
                 >
-                  {editingUser ? 'Update' : 'Create'} User
+                  {t(editingUser ? 'admin.users.update' : 'admin.users.create')}
                 </button>
               </div>
             </form>
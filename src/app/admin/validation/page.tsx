@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { ValidationRules, DEFAULT_VALIDATION_RULES } from '../../utils/api';
+import { useLocale } from '../../context/LocaleContext';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8000/api';
+
+// JWT API helper
+const makeAPICall = async (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem('access_token');
+  
+  return fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+      ...options.headers,
+    },
+  });
+};
+
+export default function AdminValidationRules() {
+  const { t, tLatest } = useLocale();
+  const [formData, setFormData] = useState<ValidationRules>(DEFAULT_VALIDATION_RULES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await makeAPICall(`${API_BASE}/timesheets/validation-rules/`);
+      if (!response.ok) throw new Error('Failed to fetch validation rules');
+      const data = await response.json();
+      setFormData({ ...DEFAULT_VALIDATION_RULES, ...data.rules });
+    } catch {
+      setError(tLatest('admin.validation.loadFailed'));
+    }
+  }, [tLatest]);
+
+  // Load data
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      await fetchRules();
+      setLoading(false);
+    };
+    loadData();
+  }, [fetchRules]);
+
+  // Clear messages after 5 seconds
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError('');
+        setSuccess('');
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [error, success]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (formData.max_hours_per_cell > formData.max_hours_per_day) {
+      setError(t('admin.validation.cellAboveDay'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await makeAPICall(`${API_BASE}/timesheets/validation-rules/`, {
+        method: 'PUT',
+        body: JSON.stringify(formData)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t('admin.validation.saveFailed'));
+      }
+
+      setSuccess(t('admin.validation.saved'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('admin.validation.unexpectedError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <div className="loading">{t('admin.validation.loading')}</div>;
+
+  return (
+    <div>
+      <div className="admin-header">
+        <h1>{t('admin.validation.title')}</h1>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+      {success && <div className="alert alert-success">{success}</div>}
+
+      <form onSubmit={handleSubmit} className="admin-panel">
+        <div className="form-row">
+          <div className="form-group">
+            <label>{t('admin.validation.cellMax')}</label>
+            <input
+              type="number"
+              required
+              min="0.25"
+              max="24"
+              step="0.25"
+              value={formData.max_hours_per_cell}
+              onChange={(e) => setFormData({ ...formData, max_hours_per_cell: parseFloat(e.target.value) })}
+            />
+            <small className="help-text">
+              {t('admin.validation.cellMaxHelp')}
+            </small>
+          </div>
+          <div className="form-group">
+            <label>{t('admin.validation.dayMax')}</label>
+            <input
+              type="number"
+              required
+              min="0.25"
+              max="24"
+              step="0.25"
+              value={formData.max_hours_per_day}
+              onChange={(e) => setFormData({ ...formData, max_hours_per_day: parseFloat(e.target.value) })}
+            />
+            <small className="help-text">
+              {t('admin.validation.dayMaxHelp')}
+            </small>
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label className="inline-checkbox">
+            <input
+              type="checkbox"
+              checked={formData.warn_on_weekends}
+              onChange={(e) => setFormData({ ...formData, warn_on_weekends: e.target.checked })}
+            />
+            {t('admin.validation.warnWeekends')}
+          </label>
+          <small className="help-text">
+            {t('admin.validation.warnWeekendsHelp')}
+          </small>
+        </div>
+
+        <div className="form-actions">
+          <button type="button" className="btn" onClick={() => setFormData(DEFAULT_VALIDATION_RULES)} disabled={saving}>
+            {t('admin.validation.reset')}
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {saving ? t('admin.validation.saving') : t('admin.validation.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
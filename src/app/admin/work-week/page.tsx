@@ -0,0 +1,165 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { WorkWeekSettings, DEFAULT_WORK_WEEK } from '../../utils/api';
+import { formatDayName } from '../../utils/format';
+import { useLocale } from '../../context/LocaleContext';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8000/api';
+
+// JWT API helper
+const makeAPICall = async (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem('access_token');
+  
+  return fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+      ...options.headers,
+    },
+  });
+};
+
+const WEEK_START_OPTIONS: WorkWeekSettings['week_start_day'][] = [1, 0, 6];
+
+export default function AdminWorkWeek() {
+  const { locale, t, tLatest } = useLocale();
+  const [formData, setFormData] = useState<WorkWeekSettings>(DEFAULT_WORK_WEEK);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchWorkWeek = useCallback(async () => {
+    try {
+      const response = await makeAPICall(`${API_BASE}/timesheets/work-week/`);
+      if (!response.ok) throw new Error('Failed to fetch work week');
+      const data = await response.json();
+      setFormData({ ...DEFAULT_WORK_WEEK, ...data.work_week });
+    } catch {
+      setError(tLatest('admin.workWeek.loadFailed'));
+    }
+  }, [tLatest]);
+
+  // Load data
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      await fetchWorkWeek();
+      setLoading(false);
+    };
+    loadData();
+  }, [fetchWorkWeek]);
+
+  // Clear messages after 5 seconds
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError('');
+        setSuccess('');
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [error, success]);
+
+  const toggleWorkingDay = (day: number) => {
+    const workingDays = formData.working_days.includes(day)
+      ? formData.working_days.filter(d => d !== day)
+      : [...formData.working_days, day].sort();
+    setFormData({ ...formData, working_days: workingDays });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!formData.working_days.length) {
+      setError(t('admin.workWeek.noWorkingDays'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await makeAPICall(`${API_BASE}/timesheets/work-week/`, {
+        method: 'PUT',
+        body: JSON.stringify(formData)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t('admin.workWeek.saveFailed'));
+      }
+
+      setSuccess(t('admin.workWeek.saved'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('admin.workWeek.unexpectedError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Show the days in the order the week will use
+  const orderedDays = [0, 1, 2, 3, 4, 5, 6].map(i => (formData.week_start_day + i) % 7);
+
+  if (loading) return <div className="loading">{t('admin.workWeek.loading')}</div>;
+
+  return (
+    <div>
+      <div className="admin-header">
+        <h1>{t('admin.workWeek.title')}</h1>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+      {success && <div className="alert alert-success">{success}</div>}
+
+      <form onSubmit={handleSubmit} className="admin-panel">
+        <div className="form-group">
+          <label>{t('admin.workWeek.weekStart')}</label>
+          <select
+            value={formData.week_start_day}
+            onChange={(e) => setFormData({
+              ...formData,
+              week_start_day: Number(e.target.value) as WorkWeekSettings['week_start_day']
+            })}
+          >
+            {WEEK_START_OPTIONS.map(day => (
+              <option key={day} value={day}>{formatDayName(day, locale, 'long')}</option>
+            ))}
+          </select>
+          <small className="help-text">
+            {t('admin.workWeek.weekStartHelp')}
+          </small>
+        </div>
+
+        <div className="form-group">
+          <label>{t('admin.workWeek.workingDays')}</label>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '16px' }}>
+            {orderedDays.map(day => (
+              <label key={day} className="inline-checkbox">
+                <input
+                  type="checkbox"
+                  checked={formData.working_days.includes(day)}
+                  onChange={() => toggleWorkingDay(day)}
+                />
+                {formatDayName(day, locale)}
+              </label>
+            ))}
+          </div>
+          <small className="help-text">
+            {t('admin.workWeek.workingDaysHelp')}
+          </small>
+        </div>
+
+        <div className="form-actions">
+          <button type="button" className="btn" onClick={() => setFormData(DEFAULT_WORK_WEEK)} disabled={saving}>
+            {t('admin.workWeek.reset')}
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {saving ? t('admin.workWeek.saving') : t('admin.workWeek.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState } from 'react';
+import { useLocale } from '../context/LocaleContext';
 
 interface Project {
   id: number;
@@ -20,19 +21,20 @@ export default function AddProjectRow({
   onAddRow,
   existingRows
 }: AddProjectRowProps) {
+  const { t } = useLocale();
   const [showAddRow, setShowAddRow] = useState(false);
   const [selectedProject, setSelectedProject] = useState('');
   const [selectedActivity, setSelectedActivity] = useState('');
 
   const handleAddRow = () => {
     if (!selectedProject || !selectedActivity) {
-      alert('Please select both project and activity');
+      alert(t('addRow.selectBoth'));
       return;
     }
 
     const key = `${selectedProject}-${selectedActivity}`;
     if (existingRows.includes(key)) {
-      alert('This project-activity combination already exists');
+      alert(t('addRow.exists'));
       return;
     }
 
@@ -82,7 +84,7 @@ export default function AddProjectRow({
             onFocus={(e) => e.currentTarget.style.boxShadow = '0 0 0 3px rgba(255, 255, 255, 0.1)'}
             onBlur={(e) => e.currentTarget.style.boxShadow = 'none'}
           >
-          Add Project Activity
+          {t('addRow.button')}
           </button>
       </div>
     );
@@ -107,7 +109,7 @@ export default function AddProjectRow({
             height: '40px'
           }}
         >
-          <option value="">Select Project</option>
+          <option value="">{t('addRow.selectProject')}</option>
           {projects.map(project => (
             <option key={project.id} value={project.name}>
               {project.name}
@@ -133,7 +135,7 @@ export default function AddProjectRow({
             cursor: selectedProject ? 'pointer' : 'not-allowed'
           }}
         >
-          <option value="">Select Activity</option>
+          <option value="">{t('addRow.selectActivity')}</option>
           {selectedProject && 
             projectActivities.get(selectedProject)?.map(activity => (
               <option key={activity} value={activity}>
@@ -164,7 +166,7 @@ export default function AddProjectRow({
             height: '40px'
           }}
         >
-          Add Row
+          {t('addRow.add')}
         </button>
 
         <button
@@ -183,7 +185,7 @@ export default function AddProjectRow({
             height: '40px'
           }}
         >
-          Cancel
+          {t('addRow.cancel')}
         </button>
       </div>
     </div>
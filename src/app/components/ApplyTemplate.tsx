@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Project, RowTemplate, getUnavailableTemplateRows } from '../utils/api';
+import { useLocale } from '../context/LocaleContext';
+
+interface ApplyTemplateProps {
+  templates: RowTemplate[];
+  projects: Project[];
+  onApply: (template: RowTemplate) => Promise<void>;
+}
+
+export default function ApplyTemplate({ templates, projects, onApply }: ApplyTemplateProps) {
+  const { t } = useLocale();
+  const [showOptions, setShowOptions] = useState(false);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  const selectedTemplate = templates.find(template => template.id.toString() === selectedTemplateId);
+  const unavailableRows = selectedTemplate
+    ? getUnavailableTemplateRows(selectedTemplate, projects)
+    : [];
+
+  const handleApply = async () => {
+    if (!selectedTemplate) return;
+
+    setApplying(true);
+    try {
+      await onApply(selectedTemplate);
+      setShowOptions(false);
+      setSelectedTemplateId('');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setShowOptions(false);
+    setSelectedTemplateId('');
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: 'rgba(255, 255, 255, 0.08)',
+    backdropFilter: 'blur(10px)',
+    WebkitBackdropFilter: 'blur(10px)',
+    border: '1px solid rgba(255, 255, 255, 0.2)',
+    borderRadius: '8px',
+    padding: '10px 16px',
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: '14px',
+    fontWeight: '500',
+    cursor: 'pointer',
+    transition: 'all 0.2s ease',
+    height: '40px'
+  };
+
+  if (!showOptions) {
+    return (
+      <div className="add-row-section">
+        <button onClick={() => setShowOptions(true)} style={buttonStyle}>
+          {t('applyTemplate.button')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="add-row-section">
+      <div className="add-row-form">
+        <select
+          value={selectedTemplateId}
+          onChange={(e) => setSelectedTemplateId(e.target.value)}
+          disabled={applying}
+          className="add-row-select"
+          style={{
+            background: 'rgba(255, 255, 255, 0.08)',
+            backdropFilter: 'blur(10px)',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '8px',
+            padding: '10px 12px',
+            color: 'rgba(255, 255, 255, 0.9)',
+            fontSize: '14px',
+            minWidth: '180px',
+            height: '40px'
+          }}
+        >
+          <option value="">{t('applyTemplate.select')}</option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name} ({template.rows.length} rows)
+            </option>
+          ))}
+        </select>
+
+        <button
+          onClick={handleApply}
+          disabled={!selectedTemplate || applying}
+          style={{
+            ...buttonStyle,
+            cursor: (!selectedTemplate || applying) ? 'not-allowed' : 'pointer',
+            color: (!selectedTemplate || applying) ? 'rgba(255, 255, 255, 0.5)' : 'rgba(255, 255, 255, 0.9)'
+          }}
+        >
+          {applying ? t('applyTemplate.applying') : t('applyTemplate.apply')}
+        </button>
+
+        <button onClick={handleCancel} disabled={applying} style={buttonStyle}>
+          {t('applyTemplate.cancel')}
+        </button>
+
+        {!templates.length && (
+          <Link href="/settings" style={{ fontSize: '12px', color: 'rgba(0, 122, 255, 0.9)' }}>
+            {t('applyTemplate.create')}
+          </Link>
+        )}
+      </div>
+
+      {unavailableRows.length > 0 && (
+        <div style={{
+          fontSize: '12px',
+          color: 'rgba(255, 193, 7, 0.9)'
+        }}>
+          {t('applyTemplate.unavailable', {
+            count: unavailableRows.length,
+            projects: Array.from(new Set(unavailableRows.map(row => row.project_name))).join(', ')
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useLocale } from '../context/LocaleContext';
+
+interface CellNotePopoverProps {
+  description: string;
+  readOnly: boolean;
+  onSave: (description: string) => void;
+  onClose: () => void;
+}
+
+export default function CellNotePopover({
+  description,
+  readOnly,
+  onSave,
+  onClose
+}: CellNotePopoverProps) {
+  const { t } = useLocale();
+  const [value, setValue] = useState(description);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      onKeyDown={handleKeyDown}
+      style={{
+        position: 'absolute',
+        top: '100%',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        marginTop: '4px',
+        width: '240px',
+        padding: '10px',
+        background: 'rgba(20, 20, 30, 0.95)',
+        backdropFilter: 'blur(20px)',
+        WebkitBackdropFilter: 'blur(20px)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.4)',
+        zIndex: 50,
+        textAlign: 'left'
+      }}
+    >
+      <textarea
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        readOnly={readOnly}
+        autoFocus
+        rows={4}
+        placeholder={t('note.placeholder')}
+        style={{
+          width: '100%',
+          padding: '6px 8px',
+          background: 'rgba(255, 255, 255, 0.05)',
+          border: '1px solid rgba(255, 255, 255, 0.15)',
+          borderRadius: '6px',
+          color: 'rgba(255, 255, 255, 0.9)',
+          fontSize: '12px',
+          fontFamily: 'inherit',
+          resize: 'vertical'
+        }}
+      />
+
+      <div style={{
+        display: 'flex',
+        justifyContent: 'flex-end',
+        gap: '6px',
+        marginTop: '8px'
+      }}>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'rgba(255, 255, 255, 0.1)',
+            border: 'none',
+            borderRadius: '6px',
+            padding: '4px 10px',
+            color: 'rgba(255, 255, 255, 0.9)',
+            fontSize: '12px',
+            cursor: 'pointer'
+          }}
+        >
+          {readOnly ? t('note.close') : t('note.cancel')}
+        </button>
+        {!readOnly && (
+          <button
+            onClick={() => onSave(value.trim())}
+            disabled={value.trim() === description}
+            style={{
+              background: value.trim() === description ? 'rgba(59, 130, 246, 0.5)' : '#3b82f6',
+              border: 'none',
+              borderRadius: '6px',
+              padding: '4px 10px',
+              color: 'white',
+              fontSize: '12px',
+              cursor: value.trim() === description ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {t('note.save')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
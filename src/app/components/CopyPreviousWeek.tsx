@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useLocale } from '../context/LocaleContext';
+
+export type CopyWeekMode = 'rows' | 'hours';
+
+interface CopyPreviousWeekProps {
+  onCopy: (mode: CopyWeekMode) => Promise<void>;
+}
+
+export default function CopyPreviousWeek({ onCopy }: CopyPreviousWeekProps) {
+  const { t } = useLocale();
+  const [showOptions, setShowOptions] = useState(false);
+  const [mode, setMode] = useState<CopyWeekMode>('rows');
+  const [copying, setCopying] = useState(false);
+
+  const handleCopy = async () => {
+    setCopying(true);
+    try {
+      await onCopy(mode);
+      setShowOptions(false);
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: 'rgba(255, 255, 255, 0.08)',
+    backdropFilter: 'blur(10px)',
+    WebkitBackdropFilter: 'blur(10px)',
+    border: '1px solid rgba(255, 255, 255, 0.2)',
+    borderRadius: '8px',
+    padding: '10px 16px',
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: '14px',
+    fontWeight: '500',
+    cursor: 'pointer',
+    transition: 'all 0.2s ease',
+    height: '40px'
+  };
+
+  if (!showOptions) {
+    return (
+      <div className="add-row-section">
+        <button onClick={() => setShowOptions(true)} style={buttonStyle}>
+          {t('copyWeek.button')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="add-row-section">
+      <div className="add-row-form">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as CopyWeekMode)}
+          disabled={copying}
+          className="add-row-select"
+          style={{
+            background: 'rgba(255, 255, 255, 0.08)',
+            backdropFilter: 'blur(10px)',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '8px',
+            padding: '10px 12px',
+            color: 'rgba(255, 255, 255, 0.9)',
+            fontSize: '14px',
+            minWidth: '180px',
+            height: '40px'
+          }}
+        >
+          <option value="rows">{t('copyWeek.rowsOnly')}</option>
+          <option value="hours">{t('copyWeek.rowsWithHours')}</option>
+        </select>
+
+        <button
+          onClick={handleCopy}
+          disabled={copying}
+          style={{
+            ...buttonStyle,
+            cursor: copying ? 'not-allowed' : 'pointer',
+            color: copying ? 'rgba(255, 255, 255, 0.5)' : 'rgba(255, 255, 255, 0.9)'
+          }}
+        >
+          {copying ? t('copyWeek.copying') : t('copyWeek.copy')}
+        </button>
+
+        <button
+          onClick={() => setShowOptions(false)}
+          disabled={copying}
+          style={buttonStyle}
+        >
+          {t('copyWeek.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
 "use client";
 
 import { useAuth } from '../context/AuthContext';
+import { useLocale } from '../context/LocaleContext';
 
 export default function LogoutButton() {
   const { logout } = useAuth();
+  const { t } = useLocale();
 
 
   const handleLogout = () => {
-    if (confirm('Are you sure you want to logout?')) {
+    if (confirm(t('nav.logoutConfirm'))) {
       logout();
     }
   };
@@ -41,7 +43,7 @@ export default function LogoutButton() {
           fontFamily: '-apple-system, BlinkMacSystemFont, "SF Pro Display", "Helvetica Neue", sans-serif'
         }}
       >
-        Logout
+        {t('nav.logout')}
       </button>
     </div>
   );
@@ -0,0 +1,276 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Timesheet,
+  WeekStatus,
+  WorkWeekSettings,
+  loadTimesheets,
+  formatDate,
+  parseDate,
+  addDaysToDate,
+  getWeekDateRange,
+  getWeekDates,
+  getMonthDateRange,
+  getWeekStatus,
+  isWorkingDay
+} from '../utils/api';
+import { formatHours, formatHoursCompact, formatMonthYear, formatPercent, formatWeekday } from '../utils/format';
+import { MessageKey } from '../utils/i18n';
+import { useLocale } from '../context/LocaleContext';
+
+interface MonthViewProps {
+  // Any date in the month to show first
+  initialDate: Date;
+  workWeek: WorkWeekSettings;
+  onOpenWeek: (date: string) => void;
+  onShowWeek: () => void;
+}
+
+export const WEEK_STATUS_STYLES: Record<WeekStatus, { label: MessageKey; color: string; bg: string }> = {
+  missing: { label: 'month.status.missing', color: 'rgba(255, 255, 255, 0.6)', bg: 'rgba(255, 255, 255, 0.08)' },
+  draft: { label: 'month.status.draft', color: 'rgba(239, 68, 68, 0.9)', bg: 'rgba(239, 68, 68, 0.15)' },
+  submitted: { label: 'month.status.submitted', color: 'rgba(52, 199, 89, 0.9)', bg: 'rgba(52, 199, 89, 0.15)' },
+  approved: { label: 'month.status.approved', color: 'rgba(255, 255, 255, 0.95)', bg: 'rgba(52, 199, 89, 0.5)' },
+  rejected: { label: 'month.status.rejected', color: 'rgba(255, 45, 85, 0.9)', bg: 'rgba(255, 45, 85, 0.15)' }
+};
+
+const getHours = (entry: Timesheet): number => parseFloat(entry.hours_worked) || 0;
+
+export default function MonthView({ initialDate, workWeek, onOpenWeek, onShowWeek }: MonthViewProps) {
+  const { locale, t, tLatest } = useLocale();
+  const [month, setMonth] = useState(() => new Date(initialDate.getFullYear(), initialDate.getMonth(), 1));
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const monthRange = useMemo(() => getMonthDateRange(month), [month]);
+
+  // The calendar shows whole weeks, so it starts and ends outside the month
+  const weekStarts = useMemo(() => {
+    const gridFrom = getWeekDateRange(parseDate(monthRange.dateFrom), workWeek.week_start_day).dateFrom;
+    const gridTo = getWeekDateRange(parseDate(monthRange.dateTo), workWeek.week_start_day).dateTo;
+    const starts: string[] = [];
+    for (let weekStart = gridFrom; weekStart <= gridTo; weekStart = addDaysToDate(weekStart, 7)) {
+      starts.push(weekStart);
+    }
+    return starts;
+  }, [monthRange, workWeek.week_start_day]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const gridFrom = weekStarts[0];
+    const gridTo = addDaysToDate(weekStarts[weekStarts.length - 1], 6);
+
+    setLoading(true);
+    setError('');
+    loadTimesheets(gridFrom, gridTo)
+      .then(entries => {
+        if (!cancelled) setTimesheets(entries);
+      })
+      .catch(() => {
+        if (!cancelled) setError(tLatest('month.loadFailed'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [weekStarts, tLatest]);
+
+  const today = formatDate(new Date());
+
+  const getDayTotal = (date: string): number => {
+    return timesheets
+      .filter(entry => entry.date === date)
+      .reduce((sum, entry) => sum + getHours(entry), 0);
+  };
+
+  const getWeekEntries = (weekStart: string): Timesheet[] => {
+    const weekEnd = addDaysToDate(weekStart, 6);
+    return timesheets.filter(entry => entry.date >= weekStart && entry.date <= weekEnd);
+  };
+
+  // Only entries inside the month count towards its totals
+  const monthEntries = timesheets.filter(entry =>
+    entry.date >= monthRange.dateFrom && entry.date <= monthRange.dateTo
+  );
+  const monthTotal = monthEntries.reduce((sum, entry) => sum + getHours(entry), 0);
+  const projectTotals = Object.entries(
+    monthEntries.reduce<{[projectName: string]: number}>((totals, entry) => {
+      totals[entry.project_name] = (totals[entry.project_name] || 0) + getHours(entry);
+      return totals;
+    }, {})
+  ).sort(([, a], [, b]) => b - a);
+
+  const changeMonth = (direction: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + direction, 1));
+  };
+
+  const monthTitle = formatMonthYear(month, locale);
+
+  const cellStyle: React.CSSProperties = {
+    padding: '8px',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    verticalAlign: 'top'
+  };
+
+  const headerStyle: React.CSSProperties = {
+    padding: '12px 8px',
+    background: 'rgba(255, 255, 255, 0.05)',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    fontWeight: '600',
+    fontSize: '14px',
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center'
+  };
+
+  return (
+    <div>
+      <div className="header-section">
+        <h2>{t('week.title', { week: monthTitle })}</h2>
+        <div className="nav-buttons">
+          <button onClick={() => changeMonth(-1)} className="nav-btn">
+            {t('month.previous')}
+          </button>
+          <button onClick={() => changeMonth(1)} className="nav-btn">
+            {t('month.next')}
+          </button>
+          <button onClick={onShowWeek} className="nav-btn">
+            {t('month.weekView')}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="notification error">{error}</div>}
+
+      <div style={{ overflowX: 'auto', marginBottom: '20px', opacity: loading ? 0.5 : 1 }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+          <thead>
+            <tr>
+              {getWeekDates(weekStarts[0]).map(date => (
+                <th key={date} style={headerStyle}>{formatWeekday(date, locale)}</th>
+              ))}
+              <th style={headerStyle}>{t('month.week')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {weekStarts.map(weekStart => {
+              const weekEntries = getWeekEntries(weekStart);
+              const weekTotal = weekEntries.reduce((sum, entry) => sum + getHours(entry), 0);
+              // Weeks that have not started yet have nothing to be missing
+              const status = weekStart > today ? null : WEEK_STATUS_STYLES[getWeekStatus(weekEntries)];
+
+              return (
+                <tr key={weekStart}>
+                  {getWeekDates(weekStart).map(date => {
+                    const inMonth = date >= monthRange.dateFrom && date <= monthRange.dateTo;
+                    const total = getDayTotal(date);
+                    return (
+                      <td
+                        key={date}
+                        onClick={() => onOpenWeek(date)}
+                        title={t('month.openWeek')}
+                        style={{
+                          ...cellStyle,
+                          height: '64px',
+                          cursor: 'pointer',
+                          opacity: inMonth ? 1 : 0.4,
+                          background: date === today
+                            ? 'rgba(59, 130, 246, 0.12)'
+                            : isWorkingDay(date, workWeek) ? undefined : 'rgba(0, 0, 0, 0.15)'
+                        }}
+                      >
+                        <div style={{ fontSize: '12px', color: 'rgba(255, 255, 255, 0.6)' }}>
+                          {parseDate(date).getDate()}
+                        </div>
+                        <div style={{
+                          marginTop: '6px',
+                          textAlign: 'center',
+                          fontWeight: '500',
+                          color: total ? 'rgba(255, 255, 255, 0.9)' : 'rgba(255, 255, 255, 0.3)'
+                        }}>
+                          {total ? formatHoursCompact(total, locale) : '-'}
+                        </div>
+                      </td>
+                    );
+                  })}
+                  <td
+                    onClick={() => onOpenWeek(weekStart)}
+                    title={t('month.openWeek')}
+                    style={{ ...cellStyle, textAlign: 'center', cursor: 'pointer', whiteSpace: 'nowrap' }}
+                  >
+                    <div style={{ fontWeight: '600', color: 'rgba(255, 255, 255, 0.9)' }}>
+                      {formatHours(weekTotal, locale)}
+                    </div>
+                    {status && (
+                      <span style={{
+                        display: 'inline-block',
+                        marginTop: '4px',
+                        padding: '1px 6px',
+                        borderRadius: '4px',
+                        fontSize: '11px',
+                        color: status.color,
+                        background: status.bg
+                      }}>
+                        {t(status.label)}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+          <thead>
+            <tr>
+              <th style={{ ...headerStyle, textAlign: 'left' }}>{t('month.project')}</th>
+              <th style={headerStyle}>{t('month.hours')}</th>
+              <th style={headerStyle}>{t('month.share')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {projectTotals.length ? projectTotals.map(([projectName, hours]) => (
+              <tr key={projectName}>
+                <td style={{ ...cellStyle, color: 'rgba(255, 255, 255, 0.9)' }}>{projectName}</td>
+                <td style={{ ...cellStyle, textAlign: 'center', color: 'rgba(255, 255, 255, 0.9)' }}>
+                  {formatHours(hours, locale)}
+                </td>
+                <td style={{ ...cellStyle, textAlign: 'center', color: 'rgba(255, 255, 255, 0.7)' }}>
+                  {formatPercent(monthTotal ? hours / monthTotal : 0, locale)}
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={3} style={{
+                  ...cellStyle,
+                  padding: '20px',
+                  textAlign: 'center',
+                  color: 'rgba(255, 255, 255, 0.6)',
+                  fontStyle: 'italic'
+                }}>
+                  {t('month.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+          {projectTotals.length > 0 && (
+            <tfoot>
+              <tr>
+                <td style={{ ...headerStyle, textAlign: 'left' }}>{t('month.total')}</td>
+                <td style={{ ...headerStyle, color: 'rgba(52, 199, 89, 0.9)' }}>{formatHours(monthTotal, locale)}</td>
+                <td style={headerStyle}></td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Timesheet,
+  WeekRequirement,
+  WorkWeekSettings,
+  loadTimesheets,
+  loadWeekRequirement,
+  addDaysToDate,
+  getWeekDateRange,
+  getWeekStatus,
+  isLockedStatus
+} from '../utils/api';
+import { formatDateRange, formatHours } from '../utils/format';
+import { useLocale } from '../context/LocaleContext';
+import { WEEK_STATUS_STYLES } from './MonthView';
+
+interface OutstandingWeeksProps {
+  workWeek: WorkWeekSettings;
+  onOpenWeek: (date: string) => void;
+  onShowWeek: () => void;
+}
+
+const WEEK_COUNT_OPTIONS = [4, 8, 12, 26];
+
+const getHours = (entry: Timesheet): number => parseFloat(entry.hours_worked) || 0;
+
+export default function OutstandingWeeks({ workWeek, onOpenWeek, onShowWeek }: OutstandingWeeksProps) {
+  const { locale, t, tLatest } = useLocale();
+  const [weekCount, setWeekCount] = useState(8);
+  const [onlyOutstanding, setOnlyOutstanding] = useState(true);
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [requirements, setRequirements] = useState<{[weekStart: string]: WeekRequirement | null}>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Newest first, ending with the current week
+  const weekStarts = useMemo(() => {
+    const currentWeekStart = getWeekDateRange(new Date(), workWeek.week_start_day).dateFrom;
+    return Array.from({ length: weekCount }, (_, index) => addDaysToDate(currentWeekStart, -7 * index));
+  }, [weekCount, workWeek.week_start_day]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const rangeFrom = weekStarts[weekStarts.length - 1];
+    const rangeTo = addDaysToDate(weekStarts[0], 6);
+
+    setLoading(true);
+    setError('');
+    // A missing requirement only hides the shortfall, so it does not fail the whole list
+    Promise.all([
+      loadTimesheets(rangeFrom, rangeTo),
+      Promise.all(weekStarts.map(weekStart => loadWeekRequirement(weekStart)))
+    ])
+      .then(([entries, weekRequirements]) => {
+        if (cancelled) return;
+        setTimesheets(entries);
+        setRequirements(Object.fromEntries(weekStarts.map((weekStart, index) => [weekStart, weekRequirements[index]])));
+      })
+      .catch(() => {
+        if (!cancelled) setError(tLatest('outstanding.loadFailed'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [weekStarts, tLatest]);
+
+  const weeks = weekStarts.map(weekStart => {
+    const weekEnd = addDaysToDate(weekStart, 6);
+    const weekEntries = timesheets.filter(entry => entry.date >= weekStart && entry.date <= weekEnd);
+    const loggedHours = weekEntries.reduce((sum, entry) => sum + getHours(entry), 0);
+    const requirement = requirements[weekStart];
+    return {
+      weekStart,
+      weekEnd,
+      status: getWeekStatus(weekEntries),
+      loggedHours,
+      shortfall: requirement ? Math.max(0, requirement.required_hours - loggedHours) : null
+    };
+  });
+
+  // Submitted and approved weeks need nothing more from the employee
+  const outstandingWeeks = weeks.filter(week => week.status === 'missing' || !isLockedStatus(week.status));
+  const visibleWeeks = onlyOutstanding ? outstandingWeeks : weeks;
+
+  const cellStyle: React.CSSProperties = {
+    padding: '10px 8px',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center'
+  };
+
+  const headerStyle: React.CSSProperties = {
+    padding: '12px 8px',
+    background: 'rgba(255, 255, 255, 0.05)',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    fontWeight: '600',
+    fontSize: '14px',
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center'
+  };
+
+  return (
+    <div>
+      <div className="header-section">
+        <div className="week-title">
+          <h2>{t('outstanding.title')}</h2>
+          {!loading && !error && (
+            <span style={{ fontSize: '13px', color: 'rgba(255, 255, 255, 0.7)' }}>
+              {t('outstanding.summary', { count: outstandingWeeks.length, weeks: weekCount })}
+            </span>
+          )}
+        </div>
+        <div className="nav-buttons">
+          <select
+            value={weekCount}
+            onChange={(e) => setWeekCount(parseInt(e.target.value))}
+            className="week-picker"
+            title={t('outstanding.range')}
+          >
+            {WEEK_COUNT_OPTIONS.map(count => (
+              <option key={count} value={count}>{t('outstanding.lastWeeks', { count })}</option>
+            ))}
+          </select>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: 'rgba(255, 255, 255, 0.8)' }}>
+            <input
+              type="checkbox"
+              checked={onlyOutstanding}
+              onChange={(e) => setOnlyOutstanding(e.target.checked)}
+            />
+            {t('outstanding.onlyOutstanding')}
+          </label>
+          <button onClick={onShowWeek} className="nav-btn">
+            {t('month.weekView')}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="notification error">{error}</div>}
+
+      <div style={{ overflowX: 'auto', opacity: loading ? 0.5 : 1 }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+          <thead>
+            <tr>
+              <th style={{ ...headerStyle, textAlign: 'left' }}>{t('month.week')}</th>
+              <th style={headerStyle}>{t('outstanding.status')}</th>
+              <th style={headerStyle}>{t('outstanding.logged')}</th>
+              <th style={headerStyle}>{t('outstanding.shortfall')}</th>
+              <th style={headerStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleWeeks.length ? visibleWeeks.map(week => {
+              const status = WEEK_STATUS_STYLES[week.status];
+              return (
+                <tr key={week.weekStart}>
+                  <td style={{ ...cellStyle, textAlign: 'left' }}>
+                    {formatDateRange(week.weekStart, week.weekEnd, locale)}
+                  </td>
+                  <td style={cellStyle}>
+                    <span style={{
+                      display: 'inline-block',
+                      padding: '1px 6px',
+                      borderRadius: '4px',
+                      fontSize: '12px',
+                      color: status.color,
+                      background: status.bg
+                    }}>
+                      {t(status.label)}
+                    </span>
+                  </td>
+                  <td style={cellStyle}>{formatHours(week.loggedHours, locale)}</td>
+                  <td style={{
+                    ...cellStyle,
+                    color: week.shortfall ? 'rgba(239, 68, 68, 0.9)' : 'rgba(255, 255, 255, 0.6)'
+                  }}>
+                    {week.shortfall === null ? '-' : formatHours(week.shortfall, locale)}
+                  </td>
+                  <td style={cellStyle}>
+                    <button onClick={() => onOpenWeek(week.weekStart)} className="nav-btn">
+                      {t('month.openWeek')}
+                    </button>
+                  </td>
+                </tr>
+              );
+            }) : (
+              <tr>
+                <td colSpan={5} style={{
+                  ...cellStyle,
+                  padding: '20px',
+                  color: 'rgba(255, 255, 255, 0.6)',
+                  fontStyle: 'italic'
+                }}>
+                  {loading ? t('outstanding.loading') : t('outstanding.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useState } from 'react';
+import { RecallRecord, RecallStatus } from '../utils/api';
+import { formatDateTime } from '../utils/format';
+import { MessageKey } from '../utils/i18n';
+import { useLocale } from '../context/LocaleContext';
+
+interface RecallSubmissionProps {
+  // Recall records for the week being shown, newest first
+  recalls: RecallRecord[];
+  // The week has submitted entries and none of them are approved yet
+  canRecall: boolean;
+  // Resolves to true when the recall was accepted by the server
+  onRecall: (reason: string) => Promise<boolean>;
+}
+
+const STATUS_LABELS: Record<RecallStatus, MessageKey> = {
+  completed: 'recall.status.completed',
+  pending: 'recall.status.pending',
+  declined: 'recall.status.declined'
+};
+
+export default function RecallSubmission({ recalls, canRecall, onRecall }: RecallSubmissionProps) {
+  const { locale, t } = useLocale();
+  const [showForm, setShowForm] = useState(false);
+  const [reason, setReason] = useState('');
+  const [recalling, setRecalling] = useState(false);
+
+  const pendingRecall = recalls.find(recall => recall.status === 'pending');
+
+  if (!canRecall && !recalls.length) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRecalling(true);
+    try {
+      if (await onRecall(reason.trim())) {
+        setShowForm(false);
+        setReason('');
+      }
+    } finally {
+      setRecalling(false);
+    }
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: 'rgba(255, 255, 255, 0.08)',
+    border: '1px solid rgba(255, 255, 255, 0.2)',
+    borderRadius: '6px',
+    padding: '4px 10px',
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: '12px',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div style={{
+      background: 'rgba(59, 130, 246, 0.08)',
+      border: '1px solid rgba(59, 130, 246, 0.3)',
+      borderRadius: '8px',
+      padding: '12px',
+      marginBottom: '16px',
+      fontSize: '13px',
+      color: 'rgba(255, 255, 255, 0.85)'
+    }}>
+      {pendingRecall ? (
+        <div>
+          {t('recall.pending', { date: formatDateTime(new Date(pendingRecall.requested_at), locale) })}
+        </div>
+      ) : canRecall && !showForm ? (
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+          <span>{t('recall.prompt')}</span>
+          <button onClick={() => setShowForm(true)} style={buttonStyle}>
+            {t('recall.button')}
+          </button>
+        </div>
+      ) : canRecall && (
+        <form onSubmit={handleSubmit} style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+          <input
+            type="text"
+            required
+            autoFocus
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={t('recall.reasonPlaceholder')}
+            style={{
+              flex: 1,
+              minWidth: '220px',
+              padding: '6px 10px',
+              background: 'rgba(255, 255, 255, 0.05)',
+              border: '1px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '6px',
+              color: 'rgba(255, 255, 255, 0.9)',
+              fontSize: '13px'
+            }}
+          />
+          <button type="submit" disabled={recalling} style={buttonStyle}>
+            {recalling ? t('recall.recalling') : t('recall.confirm')}
+          </button>
+          <button type="button" disabled={recalling} onClick={() => setShowForm(false)} style={buttonStyle}>
+            {t('recall.cancel')}
+          </button>
+        </form>
+      )}
+
+      {recalls.length > 0 && (
+        <details style={{ marginTop: '8px' }}>
+          <summary style={{ cursor: 'pointer', color: 'rgba(255, 255, 255, 0.6)' }}>
+            {t('recall.history', { count: recalls.length })}
+          </summary>
+          <ul style={{ margin: '6px 0 0', paddingLeft: '20px', color: 'rgba(255, 255, 255, 0.7)' }}>
+            {recalls.map(recall => (
+              <li key={recall.id}>
+                {t('recall.historyItem', {
+                  date: formatDateTime(new Date(recall.requested_at), locale),
+                  name: recall.requested_by,
+                  count: recall.entry_count,
+                  status: t(STATUS_LABELS[recall.status])
+                })}
+                {recall.reviewed_by && ` (${recall.reviewed_by})`}
+                {recall.reason && ` - ${recall.reason}`}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import React from 'react';
+import { useLocale } from '../context/LocaleContext';
+
+interface SaveIndicatorProps {
+  // Changes waiting for the debounce plus changes already sent
+  changeCount: number;
+  inFlight: boolean;
+  onSaveNow: () => void;
+}
+
+export default function SaveIndicator({ changeCount, inFlight, onSaveNow }: SaveIndicatorProps) {
+  const { t } = useLocale();
+
+  if (!changeCount) return null;
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '10px',
+      height: '40px',
+      padding: '0 12px',
+      background: 'rgba(59, 130, 246, 0.1)',
+      border: '1px solid rgba(59, 130, 246, 0.3)',
+      borderRadius: '8px',
+      fontSize: '13px',
+      color: 'rgba(255, 255, 255, 0.8)'
+    }}>
+      <span>{t('saveIndicator.saving', { count: changeCount })}</span>
+      {!inFlight && (
+        <button
+          onClick={onSaveNow}
+          style={{
+            background: 'transparent',
+            border: 'none',
+            padding: 0,
+            color: 'rgba(59, 130, 246, 0.9)',
+            fontSize: '13px',
+            cursor: 'pointer',
+            textDecoration: 'underline'
+          }}
+        >
+          {t('saveIndicator.saveNow')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Timesheet } from '../utils/api';
+import { formatHours, formatWeekday, formatDisplayDate } from '../utils/format';
+import { useLocale } from '../context/LocaleContext';
+
+// The server sends warnings as plain text; newer responses may say which day each one is about
+export type WeekWarning = string | { message: string; date?: string };
+
+interface SubmitReviewModalProps {
+  weekDates: string[];
+  // All entries in the week, including ones already submitted
+  timesheets: Timesheet[];
+  draftCount: number;
+  totalHours: number;
+  // Null when the requirement could not be loaded; the server still checks it on submit
+  requiredHours: number | null;
+  // Warnings from an unforced submission; null until the server has been asked
+  warnings: WeekWarning[] | null;
+  error: string;
+  submitting: boolean;
+  onSubmit: (force: boolean) => void;
+  onClose: () => void;
+}
+
+// Falls back to the first YYYY-MM-DD in the text when the server gives no date
+const normaliseWarning = (warning: WeekWarning, weekDates: string[]) => {
+  const { message, date } = typeof warning === 'string' ? { message: warning, date: undefined } : warning;
+  const warningDate = date || message.match(/\d{4}-\d{2}-\d{2}/)?.[0];
+  return { message, date: warningDate && weekDates.includes(warningDate) ? warningDate : undefined };
+};
+
+const getHours = (entry: Timesheet): number => parseFloat(entry.hours_worked) || 0;
+
+export default function SubmitReviewModal({
+  weekDates,
+  timesheets,
+  draftCount,
+  totalHours,
+  requiredHours,
+  warnings,
+  error,
+  submitting,
+  onSubmit,
+  onClose
+}: SubmitReviewModalProps) {
+  const { locale, t } = useLocale();
+  const [highlightedDate, setHighlightedDate] = useState<string | null>(null);
+
+  const weekEntries = timesheets.filter(entry => weekDates.includes(entry.date));
+  const projectNames = Array.from(new Set(weekEntries.map(entry => entry.project_name))).sort();
+  const getProjectDayHours = (projectName: string, date: string): number => {
+    return weekEntries
+      .filter(entry => entry.project_name === projectName && entry.date === date)
+      .reduce((sum, entry) => sum + getHours(entry), 0);
+  };
+  const getDayHours = (date: string): number => {
+    return weekEntries.filter(entry => entry.date === date).reduce((sum, entry) => sum + getHours(entry), 0);
+  };
+
+  const shortfall = requiredHours !== null ? Math.max(0, requiredHours - totalHours) : 0;
+  const normalisedWarnings = (warnings || []).map(warning => normaliseWarning(warning, weekDates));
+
+  const cellStyle = (date?: string): React.CSSProperties => ({
+    padding: '6px 8px',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    textAlign: 'center',
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.85)',
+    background: date && date === highlightedDate ? 'rgba(255, 193, 7, 0.2)' : undefined
+  });
+
+  return (
+    <div className="form-overlay" onClick={onClose}>
+      <div className="create-form" style={{ width: '760px' }} onClick={(e) => e.stopPropagation()}>
+        <h3>{warnings ? t('submit.warningsTitle') : t('submit.reviewTitle')}</h3>
+
+        <div style={{ overflowX: 'auto', marginBottom: '12px' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={{ ...cellStyle(), textAlign: 'left' }}>{t('grid.project')}</th>
+                {weekDates.map(date => (
+                  <th key={date} style={cellStyle(date)}>{formatWeekday(date, locale)}</th>
+                ))}
+                <th style={cellStyle()}>{t('grid.total')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projectNames.map(projectName => (
+                <tr key={projectName}>
+                  <td style={{ ...cellStyle(), textAlign: 'left' }}>{projectName}</td>
+                  {weekDates.map(date => {
+                    const hours = getProjectDayHours(projectName, date);
+                    return <td key={date} style={cellStyle(date)}>{hours ? formatHours(hours, locale) : '-'}</td>;
+                  })}
+                  <td style={{ ...cellStyle(), fontWeight: '600' }}>
+                    {formatHours(weekDates.reduce((sum, date) => sum + getProjectDayHours(projectName, date), 0), locale)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td style={{ ...cellStyle(), textAlign: 'left', fontWeight: '600' }}>{t('grid.dailyTotals')}</td>
+                {weekDates.map(date => (
+                  <td key={date} style={{ ...cellStyle(date), fontWeight: '600' }}>
+                    {formatHours(getDayHours(date), locale)}
+                  </td>
+                ))}
+                <td style={{ ...cellStyle(), fontWeight: '600', color: 'rgba(52, 199, 89, 0.9)' }}>
+                  {formatHours(totalHours, locale)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        <div style={{ fontSize: '13px', color: 'rgba(255, 255, 255, 0.85)', marginBottom: '8px' }}>
+          {requiredHours === null
+            ? t('submit.totalOnly', { total: formatHours(totalHours, locale) })
+            : t('submit.totalAgainstRequirement', {
+                total: formatHours(totalHours, locale),
+                required: formatHours(requiredHours, locale)
+              })}
+        </div>
+
+        {shortfall > 0 && (
+          <div className="notification error">
+            {t('submit.shortfall', { hours: formatHours(shortfall, locale) })}
+          </div>
+        )}
+
+        {normalisedWarnings.length > 0 && (
+          <div style={{
+            background: 'rgba(255, 193, 7, 0.1)',
+            border: '1px solid rgba(255, 193, 7, 0.3)',
+            borderRadius: '8px',
+            padding: '10px 12px',
+            fontSize: '13px',
+            color: 'rgba(255, 255, 255, 0.85)'
+          }}>
+            <ul style={{ margin: 0, paddingLeft: '18px' }}>
+              {normalisedWarnings.map((warning, index) => (
+                <li key={index} style={{ marginBottom: '4px' }}>
+                  {warning.date && (
+                    <button
+                      type="button"
+                      onClick={() => setHighlightedDate(warning.date === highlightedDate ? null : warning.date!)}
+                      title={t('submit.showDay')}
+                      style={{
+                        background: 'transparent',
+                        border: 'none',
+                        padding: 0,
+                        marginRight: '6px',
+                        color: 'rgba(255, 193, 7, 0.9)',
+                        fontSize: '13px',
+                        cursor: 'pointer',
+                        textDecoration: 'underline'
+                      }}
+                    >
+                      {formatWeekday(warning.date, locale)} {formatDisplayDate(warning.date, locale)}
+                    </button>
+                  )}
+                  {warning.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {error && <div className="notification error">{error}</div>}
+
+        <div className="form-buttons">
+          <button type="button" onClick={onClose} disabled={submitting}>
+            {warnings ? t('submit.backToEditing') : t('submit.cancel')}
+          </button>
+          {warnings ? (
+            <button type="submit" onClick={() => onSubmit(true)} disabled={submitting}>
+              {submitting ? t('grid.submitting') : t('submit.submitAnyway', { count: normalisedWarnings.length })}
+            </button>
+          ) : (
+            <button type="submit" onClick={() => onSubmit(false)} disabled={submitting || shortfall > 0}>
+              {submitting ? t('grid.submitting') : t('submit.confirm', { count: draftCount })}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import React from 'react';
+import { PendingEdit } from '../utils/offlineQueue';
+import { formatDisplayDate, formatHoursCompact } from '../utils/format';
+import { useLocale } from '../context/LocaleContext';
+
+export interface SyncConflict {
+  edit: PendingEdit;
+  serverHours: string;
+  // The server entry was submitted, so the offline value can no longer be applied
+  serverLocked: boolean;
+  // Set when the server refused the replayed edit, e.g. because it breaks a validation rule
+  serverError?: string;
+}
+
+interface SyncConflictsProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflict: SyncConflict, keep: 'mine' | 'server') => void;
+}
+
+export default function SyncConflicts({ conflicts, onResolve }: SyncConflictsProps) {
+  const { locale, t } = useLocale();
+
+  if (!conflicts.length) return null;
+
+  const formatHoursValue = (hours: string): string => {
+    return parseFloat(hours || '0') > 0 ? formatHoursCompact(parseFloat(hours), locale) : t('conflicts.emptyValue');
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: 'rgba(255, 255, 255, 0.08)',
+    border: '1px solid rgba(255, 255, 255, 0.2)',
+    borderRadius: '6px',
+    padding: '4px 10px',
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: '12px',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div style={{
+      background: 'rgba(175, 82, 222, 0.1)',
+      border: '1px solid rgba(175, 82, 222, 0.4)',
+      borderRadius: '8px',
+      padding: '12px',
+      marginBottom: '16px',
+      fontSize: '13px'
+    }}>
+      <div style={{ fontWeight: '600', marginBottom: '8px', color: 'rgba(255, 255, 255, 0.9)' }}>
+        {t('conflicts.title', { count: conflicts.length })}
+      </div>
+
+      {conflicts.map(conflict => {
+        const { edit, serverHours, serverLocked, serverError } = conflict;
+        return (
+          <div key={edit.id} style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '12px',
+            padding: '6px 0',
+            borderTop: '1px solid rgba(255, 255, 255, 0.08)'
+          }}>
+            <span style={{ color: 'rgba(255, 255, 255, 0.8)' }}>
+              <strong>{edit.projectName} - {edit.activityType}</strong>{' '}
+              {t('conflicts.detail', {
+                date: formatDisplayDate(edit.date, locale),
+                mine: formatHoursValue(edit.hours),
+                server: formatHoursValue(serverHours)
+              })}{' '}
+              <span style={{ color: 'rgba(255, 255, 255, 0.5)' }}>
+                {serverError
+                  ? t('conflicts.rejected', { error: serverError })
+                  : t(serverLocked ? 'conflicts.submitted' : 'conflicts.changed')}
+              </span>
+            </span>
+            <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+              {!serverLocked && (
+                <button onClick={() => onResolve(conflict, 'mine')} style={buttonStyle}>
+                  {t(serverError ? 'conflicts.retryMine' : 'conflicts.keepMine')}
+                </button>
+              )}
+              <button onClick={() => onResolve(conflict, 'server')} style={buttonStyle}>
+                {t(serverLocked || serverError ? 'conflicts.discardMine' : 'conflicts.keepServer')}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { formatDate } from '../utils/api';
+import { formatDateTime, formatDisplayDate } from '../utils/format';
+import { normaliseDuration } from '../utils/duration';
+import { useLocale } from '../context/LocaleContext';
+
+interface Project {
+  id: number;
+  name: string;
+}
+
+interface RunningTimer {
+  projectName: string;
+  activityType: string;
+  startedAt: number;
+}
+
+interface TimerWidgetProps {
+  projects: Project[];
+  projectActivities: Map<string, string[]>;
+  // Applied to hours typed for a forgotten timer, as in the grid cells
+  roundingIncrement: number;
+  onStop: (projectName: string, activityType: string, date: string, hours: number) => Promise<boolean>;
+}
+
+// Shared by every open tab, so the timer survives reloads and stays in sync across tabs
+const TIMER_STORAGE_KEY = 'timesheet_timer';
+
+// Timers running longer than this, or past midnight, are treated as forgotten
+const MAX_TIMER_HOURS = 10;
+
+const readTimer = (): RunningTimer | null => {
+  try {
+    const stored = localStorage.getItem(TIMER_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(n => String(n).padStart(2, '0')).join(':');
+};
+
+export default function TimerWidget({ projects, projectActivities, roundingIncrement, onStop }: TimerWidgetProps) {
+  const { locale, t } = useLocale();
+  const [timer, setTimer] = useState<RunningTimer | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [selectedProject, setSelectedProject] = useState('');
+  const [selectedActivity, setSelectedActivity] = useState('');
+  const [stopping, setStopping] = useState(false);
+  const [confirmHours, setConfirmHours] = useState('');
+
+  // Load the running timer and follow changes made in other tabs
+  useEffect(() => {
+    setTimer(readTimer());
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === TIMER_STORAGE_KEY || e.key === null) {
+        setTimer(readTimer());
+        setConfirmHours('');
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    if (!timer) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const elapsedMs = timer ? now - timer.startedAt : 0;
+  const startDate = timer ? formatDate(new Date(timer.startedAt)) : '';
+  const isForgotten = !!timer && (
+    elapsedMs / 3600000 > MAX_TIMER_HOURS || startDate !== formatDate(new Date(now))
+  );
+
+  // Accepts the same formats as the grid, e.g. 7.5, 7:30 or 7h30m
+  const normalisedConfirmHours = normaliseDuration(confirmHours, roundingIncrement);
+  const confirmedHours = normalisedConfirmHours ? parseFloat(normalisedConfirmHours) : NaN;
+  const isConfirmValid = confirmedHours > 0 && confirmedHours <= 24;
+
+  const startTimer = () => {
+    if (!selectedProject || !selectedActivity) return;
+
+    const newTimer: RunningTimer = {
+      projectName: selectedProject,
+      activityType: selectedActivity,
+      startedAt: Date.now()
+    };
+
+    localStorage.setItem(TIMER_STORAGE_KEY, JSON.stringify(newTimer));
+    setTimer(newTimer);
+    setSelectedProject('');
+    setSelectedActivity('');
+  };
+
+  const clearTimer = () => {
+    localStorage.removeItem(TIMER_STORAGE_KEY);
+    setTimer(null);
+    setConfirmHours('');
+  };
+
+  const stopTimer = async (hours: number) => {
+    if (!timer) return;
+
+    // Re-read in case another tab already stopped this timer
+    const current = readTimer();
+    if (!current || current.startedAt !== timer.startedAt) {
+      setTimer(current);
+      return;
+    }
+
+    setStopping(true);
+    try {
+      if (await onStop(timer.projectName, timer.activityType, startDate, hours)) {
+        clearTimer();
+      }
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: 'rgba(255, 255, 255, 0.08)',
+    border: '1px solid rgba(255, 255, 255, 0.2)',
+    borderRadius: '8px',
+    padding: '8px 14px',
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: '13px',
+    fontWeight: '500',
+    cursor: 'pointer',
+    height: '36px'
+  };
+
+  const selectStyle: React.CSSProperties = {
+    background: 'rgba(255, 255, 255, 0.08)',
+    border: '1px solid rgba(255, 255, 255, 0.2)',
+    borderRadius: '8px',
+    padding: '8px 12px',
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: '13px',
+    minWidth: '160px',
+    height: '36px'
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '10px',
+      flexWrap: 'wrap',
+      padding: '10px 12px',
+      marginBottom: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      borderRadius: '8px',
+      fontSize: '13px'
+    }}>
+      <span style={{ fontWeight: '600', color: 'rgba(255, 255, 255, 0.8)' }}>{t('timer.title')}</span>
+
+      {!timer ? (
+        <>
+          <select
+            value={selectedProject}
+            onChange={(e) => {
+              setSelectedProject(e.target.value);
+              setSelectedActivity('');
+            }}
+            style={selectStyle}
+          >
+            <option value="">{t('timer.selectProject')}</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.name}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={selectedActivity}
+            onChange={(e) => setSelectedActivity(e.target.value)}
+            disabled={!selectedProject}
+            style={selectStyle}
+          >
+            <option value="">{t('timer.selectActivity')}</option>
+            {selectedProject &&
+              projectActivities.get(selectedProject)?.map(activity => (
+                <option key={activity} value={activity}>
+                  {activity}
+                </option>
+              ))
+            }
+          </select>
+
+          <button
+            onClick={startTimer}
+            disabled={!selectedProject || !selectedActivity}
+            style={{
+              ...buttonStyle,
+              background: (!selectedProject || !selectedActivity) ? 'rgba(52, 199, 89, 0.05)' : 'rgba(52, 199, 89, 0.2)',
+              cursor: (!selectedProject || !selectedActivity) ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {t('timer.start')}
+          </button>
+        </>
+      ) : (
+        <>
+          <span style={{ color: 'rgba(255, 255, 255, 0.9)' }}>
+            {timer.projectName} - {timer.activityType}
+          </span>
+          <span style={{
+            fontFamily: 'monospace',
+            fontSize: '15px',
+            color: isForgotten ? 'rgba(255, 193, 7, 0.9)' : 'rgba(52, 199, 89, 0.9)'
+          }}>
+            {formatElapsed(elapsedMs)}
+          </span>
+
+          {!isForgotten ? (
+            <>
+              <button
+                onClick={() => stopTimer(elapsedMs / 3600000)}
+                disabled={stopping}
+                style={{ ...buttonStyle, background: 'rgba(239, 68, 68, 0.2)' }}
+              >
+                {stopping ? t('timer.saving') : t('timer.stop')}
+              </button>
+              <button onClick={clearTimer} disabled={stopping} style={buttonStyle}>
+                {t('timer.discard')}
+              </button>
+            </>
+          ) : (
+            <div style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              flexWrap: 'wrap',
+              color: 'rgba(255, 193, 7, 0.9)'
+            }}>
+              <span>
+                {t('timer.forgotten', {
+                  started: formatDateTime(new Date(timer.startedAt), locale),
+                  date: formatDisplayDate(startDate, locale)
+                })}
+              </span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={confirmHours}
+                placeholder={t('timer.hoursPlaceholder')}
+                title={confirmHours && !isConfirmValid ? t('timer.invalidHours') : undefined}
+                onChange={(e) => setConfirmHours(e.target.value)}
+                style={{ width: '90px' }}
+              />
+              <button
+                onClick={() => stopTimer(confirmedHours)}
+                disabled={stopping || !isConfirmValid}
+                style={buttonStyle}
+              >
+                {stopping ? t('timer.saving') : t('timer.logHours')}
+              </button>
+              <button onClick={clearTimer} disabled={stopping} style={buttonStyle}>
+                {t('timer.discard')}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
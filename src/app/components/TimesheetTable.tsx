@@ -1,6 +1,27 @@
 "use client";
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
+import CellNotePopover from './CellNotePopover';
+import { normaliseDuration, parseDuration } from '../utils/duration';
+import {
+  ValidationRules,
+  Holiday,
+  LeaveDay,
+  LeaveType,
+  LEAVE_TYPE_LABELS,
+  WorkWeekSettings,
+  TimesheetStatus,
+  isWorkingDay,
+  isLockedStatus
+} from '../utils/api';
+import { formatHours, formatWeekday } from '../utils/format';
+import { useLocale } from '../context/LocaleContext';
+import {
+  ValidationIssue,
+  validateCellHours,
+  validateDayTotal,
+  hasValidationErrors
+} from '../utils/validation';
 
 interface Timesheet {
   id: number;
@@ -8,18 +29,54 @@ interface Timesheet {
   activity_type: string;
   date: string;
   hours_worked: string;
-  status?: 'draft' | 'submitted';
+  status?: TimesheetStatus;
+  rejection_reason?: string;
   can_edit?: boolean;
   description?: string;
 }
 
+interface Project {
+  id: number;
+  name: string;
+  billable?: boolean;
+}
+
+export interface CellChange {
+  projectName: string;
+  activityType: string;
+  date: string;
+  value: string;
+  // Set when the note changes; otherwise the saved note is kept
+  description?: string;
+  // Names the change in undo history, e.g. the template it came from
+  historyLabel?: string;
+}
+
 interface TimesheetTableProps {
   tableData: {[key: string]: {[date: string]: string}};
   weekDates: string[];
   timesheets: Timesheet[];
+  projects: Project[];
   groupedProjectActivities: {[key: string]: {activityType: string, key: string}[]};
   orderedProjectActivities: {projectName: string, activityType: string, key: string}[];
   onCellChange: (projectName: string, activityType: string, date: string, value: string) => void;
+  onDescriptionChange: (projectName: string, activityType: string, date: string, description: string) => void;
+  onBulkChange: (changes: CellChange[], skippedCount: number) => void;
+  onRemoveRow: (projectName: string, activityType: string) => void;
+  roundingIncrement: number;
+  validationRules: ValidationRules;
+  holidays: Holiday[];
+  workWeek: WorkWeekSettings;
+  // Approved leave in this week, shown as read-only rows
+  leaveDays: LeaveDay[];
+  // Cell keys with edits queued offline and not yet synced
+  pendingCells: Set<string>;
+  // Cell keys with edits queued for the next save batch or being saved
+  savingCells: Set<string>;
+  // Cell keys in the batch currently being sent; only these are locked
+  inFlightCells: Set<string>;
+  onUndo: () => void;
+  onRedo: () => void;
   saving: boolean;
   onSubmitWeek: () => void;
 }
@@ -28,18 +85,48 @@ export default function TimesheetTable({
   tableData,
   weekDates,
   timesheets,
+  projects,
   groupedProjectActivities,
   orderedProjectActivities,
   onCellChange,
+  onDescriptionChange,
+  onBulkChange,
+  onRemoveRow,
+  roundingIncrement,
+  validationRules,
+  holidays,
+  workWeek,
+  leaveDays,
+  pendingCells,
+  savingCells,
+  inFlightCells,
+  onUndo,
+  onRedo,
   saving,
   onSubmitWeek
 }: TimesheetTableProps) {
   // Local state to store user input while editing (before saving)
   const [editingValues, setEditingValues] = useState<{[key: string]: string}>({});
-  const [currentlySaving, setCurrentlySaving] = useState<Set<string>>(new Set());
+  const [openNoteCell, setOpenNoteCell] = useState<string | null>(null);
+  // Errors found when a value was committed, shown until the cell is edited again
+  const [cellErrors, setCellErrors] = useState<{[key: string]: ValidationIssue}>({});
+  // Input elements by cell key, used for keyboard navigation between cells
+  const inputRefs = useRef<Map<string, HTMLInputElement>>(new Map());
+  // Cell reverted with Escape, so the blur that follows does not save it
+  const revertedCell = useRef<string | null>(null);
+
+  const { locale, t } = useLocale();
+  // Labels follow the dates, so they match whichever day the organisation starts its week on
+  const weekDays = weekDates.map(date => formatWeekday(date, locale));
+  const holidayShade = 'rgba(90, 200, 250, 0.08)';
+  const nonWorkingShade = 'rgba(0, 0, 0, 0.15)';
+  const leaveTypes = Array.from(new Set(leaveDays.map(day => day.leave_type)));
+  const hasData = orderedProjectActivities.length > 0 || Object.keys(tableData).length > 0 || leaveDays.length > 0;
 
-  const weekDays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-  const hasData = orderedProjectActivities.length > 0 || Object.keys(tableData).length > 0;
+  // Rows in display order, used to navigate the grid from the keyboard
+  const gridRows = Object.entries(groupedProjectActivities).flatMap(([projectName, activities]) =>
+    activities.map(({ activityType }) => ({ projectName, activityType }))
+  );
 
   // To get timesheet for a specific cell
   const getTimesheet = useCallback((projectName: string, activityType: string, date: string): Timesheet | null => {
@@ -86,7 +173,7 @@ export default function TimesheetTable({
     const cellKey = `${projectName}-${activityType}-${date}`;
     
     // If currently saving
-    if (currentlySaving.has(cellKey)) {
+    if (savingCells.has(cellKey)) {
       return 'saving';
     }
     
@@ -94,15 +181,20 @@ export default function TimesheetTable({
     if (isModified(projectName, activityType, date)) {
       return 'modified';
     }
+
+    // If the change is queued offline and waiting to sync
+    if (pendingCells.has(cellKey)) {
+      return 'pending';
+    }
     
     // If no value, it's blank
     if (!currentValue || currentValue === '' || parseFloat(currentValue) === 0) {
       return 'blank';
     }
     
-    // If timesheet exists and is submitted, it's locked
-    if (timesheet?.status === 'submitted') {
-      return 'submitted';
+    // Submitted and approved entries are locked; rejected ones are editable again
+    if (timesheet?.status === 'submitted' || timesheet?.status === 'approved' || timesheet?.status === 'rejected') {
+      return timesheet.status;
     }
     
     // If timesheet exists and is draft, it's saved
@@ -112,13 +204,17 @@ export default function TimesheetTable({
     
     // If value exists but no timesheet, it might be unsaved from previous session
     return 'unsaved';
-  }, [getTimesheet, getCurrentValue, currentlySaving, isModified]);
+  }, [getTimesheet, getCurrentValue, savingCells, isModified, pendingCells]);
 
   // Helper function to get CSS class for cell status
   const getCellStatusClass = (status: string) => {
     switch (status) {
       case 'submitted':
         return { bg: 'rgba(52, 199, 89, 0.15)', border: 'rgba(52, 199, 89, 0.4)' };
+      case 'approved':
+        return { bg: 'rgba(52, 199, 89, 0.3)', border: 'rgba(52, 199, 89, 0.8)' };
+      case 'rejected':
+        return { bg: 'rgba(255, 45, 85, 0.15)', border: 'rgba(255, 45, 85, 0.7)' };
       case 'draft':
         return { bg: 'rgba(239, 68, 68, 0.15)', border: 'rgba(239, 68, 68, 0.4)' };
       case 'modified':
@@ -127,16 +223,19 @@ export default function TimesheetTable({
         return { bg: 'rgba(59, 130, 246, 0.15)', border: 'rgba(59, 130, 246, 0.4)' };
       case 'unsaved':
         return { bg: 'rgba(255, 152, 0, 0.15)', border: 'rgba(255, 152, 0, 0.4)' };
+      case 'pending':
+        return { bg: 'rgba(175, 82, 222, 0.15)', border: 'rgba(175, 82, 222, 0.5)' };
       default:
         return { bg: 'rgba(255, 255, 255, 0.05)', border: 'rgba(255, 255, 255, 0.2)' };
     }
   };
 
   // Check if cell is editable
+  // Queued cells stay editable and their new value replaces the queued one
   const isCellEditable = useCallback((projectName: string, activityType: string, date: string): boolean => {
     const status = getCellStatus(projectName, activityType, date);
-    return status !== 'submitted' && status !== 'saving';
-  }, [getCellStatus]);
+    return status !== 'submitted' && status !== 'approved' && !inFlightCells.has(`${projectName}-${activityType}-${date}`);
+  }, [getCellStatus, inFlightCells]);
 
   // Handle input change (only updates local editing state, NO SAVING)
   const handleInputChange = (projectName: string, activityType: string, date: string, value: string) => {
@@ -146,6 +245,16 @@ export default function TimesheetTable({
       ...prev,
       [cellKey]: value
     }));
+    clearCellError(cellKey);
+  };
+
+  const clearCellError = (cellKey: string) => {
+    setCellErrors(prev => {
+      if (!prev.hasOwnProperty(cellKey)) return prev;
+      const newErrors = { ...prev };
+      delete newErrors[cellKey];
+      return newErrors;
+    });
   };
 
   // Handle when user starts editing 
@@ -163,66 +272,357 @@ export default function TimesheetTable({
   };
 
   // Handle when user stops editing - THIS IS WHERE WE SAVE
-  const handleInputBlur = useCallback(async (projectName: string, activityType: string, date: string) => {
+  const handleInputBlur = (projectName: string, activityType: string, date: string) => {
     const cellKey = `${projectName}-${activityType}-${date}`;
     const editingValue = editingValues[cellKey];
     const savedValue = getSavedValue(projectName, activityType, date);
+
+    if (revertedCell.current === cellKey) {
+      revertedCell.current = null;
+      return;
+    }
+
+    // Parse formats like "1:45" or "90m" and apply the rounding policy before saving
+    const normalisedValue = editingValue !== undefined
+      ? normaliseDuration(editingValue, roundingIncrement)
+      : savedValue;
+
+    if (normalisedValue === null) {
+      setCellErrors(prev => ({
+        ...prev,
+        [cellKey]: {
+          severity: 'error',
+          message: t('validation.invalid'),
+          detail: t('validation.invalidDetail')
+        }
+      }));
+      return;
+    }
+
+    // Hard errors keep the value in the cell without saving it
+    const blockingIssue = getBlockingIssue(projectName, activityType, date, parseFloat(normalisedValue || '0'));
+    if (blockingIssue) {
+      setCellErrors(prev => ({ ...prev, [cellKey]: blockingIssue }));
+      return;
+    }
     
-    // Only save if value actually changed
-    if (editingValue !== undefined && editingValue !== savedValue) {
-      try {
-        // Mark as saving
-        setCurrentlySaving(prev => new Set(prev).add(cellKey));
-        
-        // Save to backend
-        await onCellChange(projectName, activityType, date, editingValue);
-        
-        // Remove from editing state after successful save
+    // Only queue a save if value actually changed
+    if (parseFloat(normalisedValue || '0') !== parseFloat(savedValue || '0')) {
+      onCellChange(projectName, activityType, date, normalisedValue);
+    }
+
+    setEditingValues(prev => {
+      const newValues = { ...prev };
+      delete newValues[cellKey];
+      return newValues;
+    });
+  };
+
+  const isGridCellEditable = (rowIndex: number, dayIndex: number): boolean => {
+    const row = gridRows[rowIndex];
+    return isCellEditable(row.projectName, row.activityType, weekDates[dayIndex]);
+  };
+
+  const focusCell = (rowIndex: number, dayIndex: number) => {
+    const row = gridRows[rowIndex];
+    const input = inputRefs.current.get(`${row.projectName}-${row.activityType}-${weekDates[dayIndex]}`);
+    if (input) {
+      input.focus();
+      input.select();
+    }
+  };
+
+  // Find the next editable cell moving by whole rows in the same column, skipping locked cells
+  const findCellInColumn = (rowIndex: number, dayIndex: number, step: number): number | null => {
+    for (let r = rowIndex + step; r >= 0 && r < gridRows.length; r += step) {
+      if (isGridCellEditable(r, dayIndex)) return r;
+    }
+    return null;
+  };
+
+  // Find the next editable cell in reading order, wrapping onto the next/previous row
+  const findCellInReadingOrder = (rowIndex: number, dayIndex: number, step: number): [number, number] | null => {
+    const columns = weekDates.length;
+    for (let i = rowIndex * columns + dayIndex + step; i >= 0 && i < gridRows.length * columns; i += step) {
+      const r = Math.floor(i / columns);
+      const d = i % columns;
+      if (isGridCellEditable(r, d)) return [r, d];
+    }
+    return null;
+  };
+
+  const findCellInRow = (rowIndex: number, fromEnd: boolean): number | null => {
+    const dayIndexes = weekDates.map((_, d) => d);
+    if (fromEnd) dayIndexes.reverse();
+    return dayIndexes.find(d => isGridCellEditable(rowIndex, d)) ?? null;
+  };
+
+  // Spreadsheet-style navigation: arrows move between cells, Enter commits and moves down,
+  // Escape reverts the cell, Home/End jump to the first/last day of the row
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, rowIndex: number, dayIndex: number) => {
+    const { projectName, activityType } = gridRows[rowIndex];
+    const date = weekDates[dayIndex];
+    const cellKey = `${projectName}-${activityType}-${date}`;
+
+    // Undo/redo committed changes, unless the cell has uncommitted text of its own
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z' && !isModified(projectName, activityType, date)) {
+      e.preventDefault();
+      // Drop the value copied in on focus so the cell shows the undone value and blur does not save it back
+      setEditingValues(prev => {
+        const newValues = { ...prev };
+        delete newValues[cellKey];
+        return newValues;
+      });
+      if (e.shiftKey) {
+        onRedo();
+      } else {
+        onUndo();
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        e.preventDefault();
+        const target = findCellInColumn(rowIndex, dayIndex, e.key === 'ArrowDown' ? 1 : -1);
+        if (target !== null) focusCell(target, dayIndex);
+        break;
+      }
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        e.preventDefault();
+        const target = findCellInReadingOrder(rowIndex, dayIndex, e.key === 'ArrowRight' ? 1 : -1);
+        if (target) focusCell(target[0], target[1]);
+        break;
+      }
+      case 'Home':
+      case 'End': {
+        e.preventDefault();
+        const target = findCellInRow(rowIndex, e.key === 'End');
+        if (target !== null) focusCell(rowIndex, target);
+        break;
+      }
+      case 'Enter': {
+        e.preventDefault();
+        const target = findCellInColumn(rowIndex, dayIndex, 1);
+        if (target !== null) {
+          focusCell(target, dayIndex);
+        } else {
+          e.currentTarget.blur();
+        }
+        break;
+      }
+      case 'Escape': {
+        e.preventDefault();
+        revertedCell.current = cellKey;
         setEditingValues(prev => {
           const newValues = { ...prev };
           delete newValues[cellKey];
           return newValues;
         });
-      } catch (error) {
-        console.error('Error saving timesheet:', error);
-      } finally {
-        // Remove from saving state
-        setCurrentlySaving(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(cellKey);
-          return newSet;
-        });
+        clearCellError(cellKey);
+        e.currentTarget.blur();
+        break;
       }
-    } else {
-      // No changes, just remove from editing state
-      setEditingValues(prev => {
-        const newValues = { ...prev };
-        delete newValues[cellKey];
-        return newValues;
-      });
     }
-  }, [editingValues, onCellChange, getSavedValue]);
+  };
+
+  // Paste a tab-separated block (e.g. copied from Excel/Sheets) starting at this cell
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>, rowIndex: number, dayIndex: number) => {
+    const text = e.clipboardData.getData('text/plain');
+
+    // A single value pastes into the cell as normal
+    if (!/[\t\n]/.test(text.trim())) return;
+
+    e.preventDefault();
+
+    const pastedRows = text.replace(/\r/g, '').replace(/\n$/, '').split('\n').map(line => line.split('\t'));
+    const changes: CellChange[] = [];
+    let skippedCount = 0;
+    // Running day totals, so a block cannot push a day over the limit
+    const dayTotals = weekDates.map(date => getDayTotal(date));
+
+    pastedRows.forEach((values, rowOffset) => {
+      values.forEach((rawValue, dayOffset) => {
+        const r = rowIndex + rowOffset;
+        const d = dayIndex + dayOffset;
+        if (r >= gridRows.length || d >= weekDates.length || !isGridCellEditable(r, d)) {
+          skippedCount++;
+          return;
+        }
+
+        const value = normaliseDuration(rawValue, roundingIncrement);
+        if (value === null) {
+          skippedCount++;
+          return;
+        }
+
+        const { projectName, activityType } = gridRows[r];
+        const date = weekDates[d];
+        const hours = parseFloat(value || '0');
+        const dayTotal = dayTotals[d] - getCellHours(projectName, activityType, date) + hours;
+        if (hasValidationErrors([
+          ...getCellRuleIssues(hours, date),
+          ...validateDayTotal(dayTotal, validationRules, locale)
+        ])) {
+          skippedCount++;
+          return;
+        }
 
-  // Handle Enter key to move to next cell 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' || e.key === 'Tab') {
-      (e.target as HTMLInputElement).blur();
+        dayTotals[d] = dayTotal;
+        if (hours !== parseFloat(getSavedValue(projectName, activityType, date) || '0')) {
+          changes.push({ projectName, activityType, date, value });
+        }
+      });
+    });
+
+    if (!changes.length) {
+      onBulkChange([], skippedCount);
+      return;
     }
+
+    const changedKeys = changes.map(({ projectName, activityType, date }) => `${projectName}-${activityType}-${date}`);
+    setEditingValues(prev => {
+      const newValues = { ...prev };
+      changedKeys.forEach(cellKey => delete newValues[cellKey]);
+      return newValues;
+    });
+
+    onBulkChange(changes, skippedCount);
+  };
+
+  // Open the note popover for a cell, or close it if it is already open
+  const toggleNote = (cellKey: string) => {
+    setOpenNoteCell(prev => prev === cellKey ? null : cellKey);
+  };
+
+  const handleNoteSave = (projectName: string, activityType: string, date: string, description: string) => {
+    setOpenNoteCell(null);
+    onDescriptionChange(projectName, activityType, date, description);
+  };
+
+  const rejectionReasons = Array.from(new Set(
+    timesheets
+      .filter(ts => ts.status === 'rejected' && weekDates.includes(ts.date))
+      .map(ts => ts.rejection_reason || '')
+      .filter(Boolean)
+  ));
+
+  const rowHasSubmittedEntries = (projectName: string, activityType: string): boolean => {
+    return weekDates.some(date => isLockedStatus(getTimesheet(projectName, activityType, date)?.status));
+  };
+
+  // Removing a row while its saves are queued would let the pending batch re-create its entries
+  const rowHasSavingCells = (projectName: string, activityType: string): boolean => {
+    return weekDates.some(date => savingCells.has(`${projectName}-${activityType}-${date}`));
+  };
+
+  const canRemoveRow = (projectName: string, activityType: string): boolean => {
+    return !rowHasSubmittedEntries(projectName, activityType) && !rowHasSavingCells(projectName, activityType);
+  };
+
+  const getCellHours = (projectName: string, activityType: string, date: string): number => {
+    const value = getCurrentValue(projectName, activityType, date);
+    return value && value !== '' ? parseDuration(value) || 0 : 0;
+  };
+
+  const getRowTotal = (projectName: string, activityType: string): number => {
+    return weekDates.reduce((total, date) => total + getCellHours(projectName, activityType, date), 0);
+  };
+
+  const getProjectDayTotal = (projectName: string, date: string): number => {
+    return groupedProjectActivities[projectName].reduce((projectSum, { activityType }) => {
+      return projectSum + getCellHours(projectName, activityType, date);
+    }, 0);
+  };
+
+  const getProjectTotal = (projectName: string): number => {
+    return weekDates.reduce((total, date) => total + getProjectDayTotal(projectName, date), 0);
+  };
+
+  // Projects not found in the assigned list are treated as non-billable
+  const isProjectBillable = (projectName: string): boolean => {
+    return projects.find(p => p.name === projectName)?.billable === true;
   };
 
   const getDayTotal = (date: string): number => {
     return Object.keys(groupedProjectActivities).reduce((sum, projectName) => {
-      return sum + groupedProjectActivities[projectName].reduce((projectSum, { activityType }) => {
-        const value = getCurrentValue(projectName, activityType, date);
-        return projectSum + (value && value !== '' ? parseFloat(value) : 0);
-      }, 0);
+      return sum + getProjectDayTotal(projectName, date);
     }, 0);
   };
 
+  const getBillableDayTotal = (date: string, billable: boolean): number => {
+    return Object.keys(groupedProjectActivities)
+      .filter(projectName => isProjectBillable(projectName) === billable)
+      .reduce((sum, projectName) => sum + getProjectDayTotal(projectName, date), 0);
+  };
+
+  const getBillableTotal = (billable: boolean): number => {
+    return weekDates.reduce((total, date) => total + getBillableDayTotal(date, billable), 0);
+  };
+
+  const getLeaveHours = (date: string, leaveType?: LeaveType): number => {
+    return leaveDays
+      .filter(day => day.date === date && (!leaveType || day.leave_type === leaveType))
+      .reduce((sum, day) => sum + day.hours, 0);
+  };
+
+  const getLeaveTotal = (leaveType: LeaveType): number => {
+    return weekDates.reduce((total, date) => total + getLeaveHours(date, leaveType), 0);
+  };
+
+  // Worked hours only. Leave is already deducted from the week's requirement, so counting it here
+  // as well would disagree with the progress bar and the submit review.
   const getGrandTotal = (): number => {
     return weekDates.reduce((total, date) => total + getDayTotal(date), 0);
   };
 
+  const getHoliday = (date: string): Holiday | undefined => {
+    return holidays.find(holiday => holiday.date === date);
+  };
+
+  const getCellRuleIssues = (hours: number, date: string): ValidationIssue[] => {
+    return validateCellHours(hours, date, validationRules, getHoliday(date)?.name, workWeek, locale);
+  };
+
+  // Holidays take precedence, as they are the more specific reason for a day off
+  const getDayShade = (date: string): string | undefined => {
+    if (getHoliday(date)) return holidayShade;
+    return isWorkingDay(date, workWeek) ? undefined : nonWorkingShade;
+  };
+
+  // First hard error that committing this value would cause, for the cell or its day total
+  const getBlockingIssue = (
+    projectName: string,
+    activityType: string,
+    date: string,
+    hours: number
+  ): ValidationIssue | undefined => {
+    const otherHours = getDayTotal(date) - getCellHours(projectName, activityType, date);
+    return [
+      ...getCellRuleIssues(hours, date),
+      ...validateDayTotal(otherHours + hours, validationRules, locale)
+    ].find(issue => issue.severity === 'error');
+  };
+
+  // Issue to show on a cell: a commit-time error first, then rule violations of its current value
+  const getCellIssue = (projectName: string, activityType: string, date: string): ValidationIssue | undefined => {
+    const cellKey = `${projectName}-${activityType}-${date}`;
+    if (cellErrors[cellKey]) return cellErrors[cellKey];
+
+    const issues = getCellRuleIssues(getCellHours(projectName, activityType, date), date);
+    return issues.find(issue => issue.severity === 'error') || issues[0];
+  };
+
+  const hasGridErrors = (): boolean => {
+    return Object.keys(cellErrors).length > 0 ||
+      weekDates.some(date => hasValidationErrors(validateDayTotal(getDayTotal(date), validationRules, locale))) ||
+      gridRows.some(({ projectName, activityType }) => weekDates.some(date =>
+        hasValidationErrors(getCellRuleIssues(getCellHours(projectName, activityType, date), date))
+      ));
+  };
+
   // Check if there are any unsaved modifications
   const hasUnsavedChanges = (): boolean => {
     return Object.keys(editingValues).some(cellKey => {
@@ -249,7 +649,7 @@ export default function TimesheetTable({
             background: 'rgba(255, 255, 255, 0.1)',
             borderRadius: '2px'
           }}></div>
-          <span>Empty</span>
+          <span>{t('grid.legend.empty')}</span>
         </div>
         
         <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
@@ -259,7 +659,7 @@ export default function TimesheetTable({
             background: 'rgba(239, 68, 68, 0.6)',
             borderRadius: '2px'
           }}></div>
-          <span>Draft</span>
+          <span>{t('grid.legend.draft')}</span>
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
           <div style={{
@@ -268,7 +668,71 @@ export default function TimesheetTable({
             background: 'rgba(52, 199, 89, 0.6)',
             borderRadius: '2px'
           }}></div>
-          <span>Submitted (Locked)</span>
+          <span>{t('grid.legend.submitted')}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <div style={{
+            width: '12px',
+            height: '12px',
+            background: 'rgba(52, 199, 89, 0.9)',
+            borderRadius: '2px'
+          }}></div>
+          <span>{t('grid.legend.approved')}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <div style={{
+            width: '12px',
+            height: '12px',
+            background: 'rgba(255, 45, 85, 0.6)',
+            borderRadius: '2px'
+          }}></div>
+          <span>{t('grid.legend.rejected')}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <div style={{
+            width: '12px',
+            height: '12px',
+            background: 'rgba(175, 82, 222, 0.6)',
+            borderRadius: '2px'
+          }}></div>
+          <span>{t('grid.legend.pendingSync')}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <div style={{
+            width: '12px',
+            height: '12px',
+            background: 'rgba(90, 200, 250, 0.25)',
+            borderRadius: '2px'
+          }}></div>
+          <span>{t('grid.legend.holiday')}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <div style={{
+            width: '12px',
+            height: '12px',
+            background: 'rgba(0, 0, 0, 0.4)',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: '2px'
+          }}></div>
+          <span>{t('grid.legend.nonWorking')}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <div style={{
+            width: '12px',
+            height: '12px',
+            background: 'rgba(255, 149, 0, 0.6)',
+            borderRadius: '2px'
+          }}></div>
+          <span>{t('grid.legend.leave')}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <div style={{
+            width: '12px',
+            height: '12px',
+            background: 'rgba(255, 193, 7, 0.8)',
+            borderRadius: '50%'
+          }}></div>
+          <span>{t('grid.legend.note')}</span>
         </div>
       </div>
 
@@ -285,6 +749,23 @@ export default function TimesheetTable({
         </div>
       )}
 
+      {rejectionReasons.length > 0 && (
+        <div style={{
+          background: 'rgba(255, 45, 85, 0.1)',
+          border: '1px solid rgba(255, 45, 85, 0.3)',
+          borderRadius: '8px',
+          padding: '12px',
+          marginBottom: '16px',
+          color: 'rgba(255, 255, 255, 0.9)',
+          fontSize: '14px'
+        }}>
+          <strong style={{ color: 'rgba(255, 45, 85, 0.9)' }}>{t('grid.rejectedNotice')}</strong>
+          <ul style={{ margin: '6px 0 0', paddingLeft: '20px' }}>
+            {rejectionReasons.map(reason => <li key={reason}>{reason}</li>)}
+          </ul>
+        </div>
+      )}
+
       {/* Timesheet Table */}
       <div style={{
         overflow: 'auto',
@@ -306,7 +787,7 @@ export default function TimesheetTable({
                 fontWeight: '600',
                 fontSize: '14px',
                 color: 'rgba(255, 255, 255, 0.9)'
-              }}>Project</th>
+              }}>{t('grid.project')}</th>
               <th style={{
                 padding: '12px 8px',
                 background: 'rgba(255, 255, 255, 0.05)',
@@ -314,112 +795,345 @@ export default function TimesheetTable({
                 fontWeight: '600',
                 fontSize: '14px',
                 color: 'rgba(255, 255, 255, 0.9)'
-              }}>Activity</th>
-              {weekDays.map(day => (
-                <th key={day} style={{
-                  padding: '12px 8px',
-                  background: 'rgba(255, 255, 255, 0.05)',
-                  border: '1px solid rgba(255, 255, 255, 0.1)',
-                  fontWeight: '600',
-                  fontSize: '14px',
-                  color: 'rgba(255, 255, 255, 0.9)',
-                  textAlign: 'center'
-                }}>{day}</th>
-              ))}
+              }}>{t('grid.activity')}</th>
+              {weekDays.map((day, dayIndex) => {
+                const holiday = getHoliday(weekDates[dayIndex]);
+                return (
+                  <th key={weekDates[dayIndex]} title={holiday?.name} style={{
+                    padding: '12px 8px',
+                    background: holiday
+                      ? 'rgba(90, 200, 250, 0.15)'
+                      : isWorkingDay(weekDates[dayIndex], workWeek) ? 'rgba(255, 255, 255, 0.05)' : 'rgba(0, 0, 0, 0.25)',
+                    border: '1px solid rgba(255, 255, 255, 0.1)',
+                    fontWeight: '600',
+                    fontSize: '14px',
+                    color: 'rgba(255, 255, 255, 0.9)',
+                    textAlign: 'center'
+                  }}>
+                    {day}
+                    {holiday && (
+                      <div style={{
+                        fontSize: '10px',
+                        fontWeight: '500',
+                        color: 'rgba(90, 200, 250, 0.9)',
+                        maxWidth: '96px',
+                        margin: '0 auto',
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap'
+                      }}>
+                        {holiday.name}
+                      </div>
+                    )}
+                  </th>
+                );
+              })}
+              <th style={{
+                padding: '12px 8px',
+                background: 'rgba(255, 255, 255, 0.05)',
+                border: '1px solid rgba(255, 255, 255, 0.1)',
+                fontWeight: '600',
+                fontSize: '14px',
+                color: 'rgba(255, 255, 255, 0.9)',
+                textAlign: 'center'
+              }}>{t('grid.total')}</th>
             </tr>
           </thead>
           
           <tbody>
             {!hasData ? (
               <tr>
-                <td colSpan={weekDays.length + 2} style={{
+                <td colSpan={weekDays.length + 3} style={{
                   padding: '20px',
                   textAlign: 'center',
                   color: 'rgba(255, 255, 255, 0.6)',
                   fontStyle: 'italic'
                 }}>
-                  No timesheets for this week. Click &quot;Add Project Activity&quot; to get started.
+                  {t('grid.empty')}
                 </td>
               </tr>
             ) : (
-              Object.entries(groupedProjectActivities).map(([projectName, activities]) => (
+              <>
+              {Object.entries(groupedProjectActivities).map(([projectName, activities]) => (
                 <React.Fragment key={projectName}>
-                  {activities.map(({ activityType, key }, index) => (
-                    <tr key={key} style={{
-                      transition: 'background-color 0.2s ease'
-                    }}
-                    onMouseEnter={(e) => e.currentTarget.style.background = 'rgba(255, 255, 255, 0.03)'}
-                    onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}>
-                      {index === 0 && (
-                        <td 
-                          rowSpan={activities.length}
-                          style={{
-                            padding: '8px',
-                            border: '1px solid rgba(255, 255, 255, 0.1)',
-                            verticalAlign: 'middle',
-                            fontWeight: '500',
-                            color: 'rgba(255, 255, 255, 0.9)'
-                          }}
-                        >
-                          {projectName}
-                        </td>
-                      )}
+                  {activities.map(({ activityType, key }, index) => {
+                    const rowIndex = gridRows.findIndex(row =>
+                      row.projectName === projectName && row.activityType === activityType
+                    );
+                    return (
+                      <tr key={key} style={{
+                        transition: 'background-color 0.2s ease'
+                      }}
+                      onMouseEnter={(e) => e.currentTarget.style.background = 'rgba(255, 255, 255, 0.03)'}
+                      onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}>
+                        {index === 0 && (
+                          <td 
+                            rowSpan={activities.length}
+                            style={{
+                              padding: '8px',
+                              border: '1px solid rgba(255, 255, 255, 0.1)',
+                              verticalAlign: 'middle',
+                              fontWeight: '500',
+                              color: 'rgba(255, 255, 255, 0.9)'
+                            }}
+                          >
+                            {projectName}
+                          </td>
+                        )}
                       
-                      <td style={{
-                        padding: '8px',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        color: 'rgba(255, 255, 255, 0.8)'
-                      }}>
-                        {activityType}
-                      </td>
+                        <td style={{
+                          padding: '8px',
+                          border: '1px solid rgba(255, 255, 255, 0.1)',
+                          color: 'rgba(255, 255, 255, 0.8)'
+                        }}>
+                          <div style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'space-between',
+                            gap: '6px'
+                          }}>
+                            <span>{activityType}</span>
+                            <button
+                              onClick={() => onRemoveRow(projectName, activityType)}
+                              disabled={!canRemoveRow(projectName, activityType)}
+                              title={rowHasSubmittedEntries(projectName, activityType)
+                                ? t('grid.removeRowLocked')
+                                : rowHasSavingCells(projectName, activityType)
+                                  ? t('grid.removeRowSaving')
+                                  : t('grid.removeRow')}
+                              style={{
+                                background: 'transparent',
+                                border: 'none',
+                                color: !canRemoveRow(projectName, activityType)
+                                  ? 'rgba(255, 255, 255, 0.2)'
+                                  : 'rgba(239, 68, 68, 0.8)',
+                                fontSize: '14px',
+                                lineHeight: 1,
+                                cursor: canRemoveRow(projectName, activityType) ? 'pointer' : 'not-allowed'
+                              }}
+                            >
+                              ×
+                            </button>
+                          </div>
+                        </td>
 
-                      {weekDates.map(date => {
-                        const cellValue = getCurrentValue(projectName, activityType, date);
-                        const status = getCellStatus(projectName, activityType, date);
-                        const isEditable = isCellEditable(projectName, activityType, date);
-                        const styling = getCellStatusClass(status);
+                        {weekDates.map((date, dayIndex) => {
+                          const cellValue = getCurrentValue(projectName, activityType, date);
+                          const status = getCellStatus(projectName, activityType, date);
+                          const isEditable = isCellEditable(projectName, activityType, date);
+                          const styling = getCellStatusClass(status);
+                          const timesheet = getTimesheet(projectName, activityType, date);
+                          const description = timesheet?.description || '';
+                          const cellKey = `${projectName}-${activityType}-${date}`;
+                          const cellIssue = getCellIssue(projectName, activityType, date);
+                          const issueColor = cellIssue?.severity === 'error'
+                            ? 'rgba(239, 68, 68, 0.9)'
+                            : 'rgba(255, 193, 7, 0.9)';
+                          const isNoteReadOnly = isLockedStatus(timesheet?.status);
+                          // Notes are stored on the entry, so a cell needs saved hours before it can have one
+                          const canShowNote = !!timesheet && (!isNoteReadOnly || description !== '');
                         
-                        const cellStyle: React.CSSProperties = {
-                          width: '80px',
-                          padding: '6px',
-                          borderRadius: '4px',
-                          fontSize: '14px',
+                          const cellStyle: React.CSSProperties = {
+                            width: '80px',
+                            padding: '6px',
+                            borderRadius: '4px',
+                            fontSize: '14px',
+                            textAlign: 'center',
+                            color: 'rgba(255, 255, 255, 0.9)',
+                            transition: 'all 0.2s ease',
+                            cursor: isEditable ? 'pointer' : 'not-allowed',
+                            borderWidth: '1px',
+                            borderStyle: 'solid',
+                            background: styling.bg,
+                            borderColor: cellIssue ? issueColor : styling.border
+                          };
+
+                          return (
+                            <td key={date} style={{
+                              padding: '8px',
+                              border: '1px solid rgba(255, 255, 255, 0.1)',
+                              textAlign: 'center',
+                              position: 'relative',
+                              background: getDayShade(date)
+                            }}>
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                value={cellValue}
+                                aria-invalid={cellIssue?.severity === 'error'}
+                                title={cellIssue?.detail || (status === 'rejected'
+                                  ? t('grid.rejectedReason', { reason: timesheet?.rejection_reason || '-' })
+                                  : undefined)}
+                                onChange={(e) => handleInputChange(projectName, activityType, date, e.target.value)}
+                                onFocus={() => handleInputFocus(projectName, activityType, date)}
+                                onBlur={() => handleInputBlur(projectName, activityType, date)}
+                                onKeyDown={(e) => handleKeyDown(e, rowIndex, dayIndex)}
+                                onPaste={(e) => handlePaste(e, rowIndex, dayIndex)}
+                                ref={(el) => {
+                                  if (el) {
+                                    inputRefs.current.set(cellKey, el);
+                                  } else {
+                                    inputRefs.current.delete(cellKey);
+                                  }
+                                }}
+                                disabled={!isEditable}
+                                style={cellStyle}
+                              />
+                              {cellIssue && (
+                                <div style={{
+                                  marginTop: '2px',
+                                  fontSize: '10px',
+                                  color: issueColor
+                                }}>
+                                  {cellIssue.message}
+                                </div>
+                              )}
+                              {canShowNote && (
+                                <button
+                                  onClick={() => toggleNote(cellKey)}
+                                  title={description || t('grid.addNote')}
+                                  style={{
+                                    position: 'absolute',
+                                    top: '2px',
+                                    right: '2px',
+                                    width: '14px',
+                                    height: '14px',
+                                    padding: 0,
+                                    border: 'none',
+                                    borderRadius: '50%',
+                                    background: description ? 'rgba(255, 193, 7, 0.8)' : 'rgba(255, 255, 255, 0.1)',
+                                    color: description ? 'rgba(0, 0, 0, 0.8)' : 'rgba(255, 255, 255, 0.5)',
+                                    fontSize: '9px',
+                                    lineHeight: '14px',
+                                    cursor: 'pointer'
+                                  }}
+                                >
+                                  ✎
+                                </button>
+                              )}
+                              {openNoteCell === cellKey && (
+                                <CellNotePopover
+                                  description={description}
+                                  readOnly={isNoteReadOnly}
+                                  onSave={(value) => handleNoteSave(projectName, activityType, date, value)}
+                                  onClose={() => setOpenNoteCell(null)}
+                                />
+                              )}
+                            </td>
+                          );
+                        })}
+
+                        <td style={{
+                          padding: '8px',
+                          border: '1px solid rgba(255, 255, 255, 0.1)',
                           textAlign: 'center',
-                          color: 'rgba(255, 255, 255, 0.9)',
-                          transition: 'all 0.2s ease',
-                          cursor: isEditable ? 'pointer' : 'not-allowed',
-                          borderWidth: '1px',
-                          borderStyle: 'solid',
-                          background: styling.bg,
-                          borderColor: styling.border
-                        };
-
-                        return (
-                          <td key={date} style={{
-                            padding: '8px',
-                            border: '1px solid rgba(255, 255, 255, 0.1)',
-                            textAlign: 'center'
-                          }}>
-                            <input
-                              type="number"
-                              value={cellValue}
-                              min="0"
-                              max="24"
-                              step="0.5"
-                              onChange={(e) => handleInputChange(projectName, activityType, date, e.target.value)}
-                              onFocus={() => handleInputFocus(projectName, activityType, date)}
-                              onBlur={() => handleInputBlur(projectName, activityType, date)}
-                              onKeyDown={handleKeyPress}
-                              disabled={!isEditable}
-                              style={cellStyle}
-                            />
-                          </td>
-                        );
-                      })}
-                    </tr>
-                  ))}
+                          fontWeight: '500',
+                          color: 'rgba(255, 255, 255, 0.9)'
+                        }}>
+                          {formatHours(getRowTotal(projectName, activityType), locale)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+
+                  <tr>
+                    <td colSpan={2} style={{
+                      padding: '6px 8px',
+                      border: '1px solid rgba(255, 255, 255, 0.1)',
+                      fontSize: '12px',
+                      color: 'rgba(255, 255, 255, 0.7)',
+                      background: 'rgba(255, 255, 255, 0.02)',
+                      textAlign: 'right'
+                    }}>
+                      {t('grid.subtotal', { project: projectName })}
+                      <span style={{
+                        marginLeft: '8px',
+                        padding: '1px 6px',
+                        borderRadius: '4px',
+                        fontSize: '11px',
+                        background: isProjectBillable(projectName) ? 'rgba(52, 199, 89, 0.15)' : 'rgba(255, 255, 255, 0.08)',
+                        color: isProjectBillable(projectName) ? 'rgba(52, 199, 89, 0.9)' : 'rgba(255, 255, 255, 0.6)'
+                      }}>
+                        {isProjectBillable(projectName) ? t('grid.billable') : t('grid.nonBillable')}
+                      </span>
+                    </td>
+                    {weekDates.map(date => (
+                      <td key={date} style={{
+                        padding: '6px 8px',
+                        border: '1px solid rgba(255, 255, 255, 0.1)',
+                        textAlign: 'center',
+                        fontSize: '12px',
+                        color: 'rgba(255, 255, 255, 0.7)',
+                        background: 'rgba(255, 255, 255, 0.02)'
+                      }}>
+                        {formatHours(getProjectDayTotal(projectName, date), locale)}
+                      </td>
+                    ))}
+                    <td style={{
+                      padding: '6px 8px',
+                      border: '1px solid rgba(255, 255, 255, 0.1)',
+                      textAlign: 'center',
+                      fontSize: '12px',
+                      fontWeight: '600',
+                      color: 'rgba(255, 255, 255, 0.8)',
+                      background: 'rgba(255, 255, 255, 0.02)'
+                    }}>
+                      {formatHours(getProjectTotal(projectName), locale)}
+                    </td>
+                  </tr>
                 </React.Fragment>
-              ))
+              ))}
+
+              {leaveTypes.map((leaveType, index) => (
+                <tr key={`leave-${leaveType}`} style={{ background: 'rgba(255, 149, 0, 0.05)' }}>
+                  {index === 0 && (
+                    <td
+                      rowSpan={leaveTypes.length}
+                      style={{
+                        padding: '8px',
+                        border: '1px solid rgba(255, 255, 255, 0.1)',
+                        verticalAlign: 'middle',
+                        fontWeight: '500',
+                        color: 'rgba(255, 255, 255, 0.9)'
+                      }}
+                    >
+                      {t('grid.leave')}
+                    </td>
+                  )}
+                  <td style={{
+                    padding: '8px',
+                    border: '1px solid rgba(255, 255, 255, 0.1)',
+                    color: 'rgba(255, 255, 255, 0.8)'
+                  }}>
+                    {t(LEAVE_TYPE_LABELS[leaveType])}
+                  </td>
+                  {weekDates.map(date => {
+                    const hours = getLeaveHours(date, leaveType);
+                    return (
+                      <td key={date} title={t('grid.leaveCell')} style={{
+                        padding: '8px',
+                        border: '1px solid rgba(255, 255, 255, 0.1)',
+                        textAlign: 'center',
+                        fontSize: '14px',
+                        color: hours ? 'rgba(255, 149, 0, 0.9)' : 'rgba(255, 255, 255, 0.3)',
+                        background: getDayShade(date)
+                      }}>
+                        {hours ? formatHours(hours, locale) : '-'}
+                      </td>
+                    );
+                  })}
+                  <td style={{
+                    padding: '8px',
+                    border: '1px solid rgba(255, 255, 255, 0.1)',
+                    textAlign: 'center',
+                    fontWeight: '500',
+                    color: 'rgba(255, 255, 255, 0.9)'
+                  }}>
+                    {formatHours(getLeaveTotal(leaveType), locale)}
+                  </td>
+                </tr>
+              ))}
+              </>
             )}
           </tbody>
 
@@ -433,21 +1147,75 @@ export default function TimesheetTable({
                   color: 'rgba(255, 255, 255, 0.9)',
                   background: 'rgba(255, 255, 255, 0.05)'
                 }}>
-                  Daily Totals
+                  {t('grid.dailyTotals')}
                 </td>
-                {weekDates.map(date => (
-                  <td key={date} style={{
-                    padding: '12px 8px',
+                {weekDates.map(date => {
+                  const [dayIssue] = validateDayTotal(getDayTotal(date), validationRules, locale);
+                  return (
+                    <td key={date} title={dayIssue?.detail} style={{
+                      padding: '12px 8px',
+                      border: '1px solid rgba(255, 255, 255, 0.1)',
+                      textAlign: 'center',
+                      fontWeight: '600',
+                      color: dayIssue ? 'rgba(239, 68, 68, 0.9)' : 'rgba(255, 255, 255, 0.9)',
+                      background: dayIssue ? 'rgba(239, 68, 68, 0.1)' : 'rgba(255, 255, 255, 0.05)'
+                    }}>
+                      {formatHours(getDayTotal(date), locale)}
+                      {dayIssue && (
+                        <div style={{ fontSize: '10px', fontWeight: '500' }}>
+                          {dayIssue.message}
+                        </div>
+                      )}
+                    </td>
+                  );
+                })}
+                <td style={{
+                  padding: '12px 8px',
+                  border: '1px solid rgba(255, 255, 255, 0.1)',
+                  textAlign: 'center',
+                  fontWeight: '600',
+                  color: 'rgba(52, 199, 89, 0.9)',
+                  background: 'rgba(255, 255, 255, 0.05)'
+                }}>
+                  {formatHours(getGrandTotal(), locale)}
+                </td>
+              </tr>
+              {[true, false].map(billable => (
+                <tr key={billable ? 'billable' : 'non-billable'}>
+                  <td colSpan={2} style={{
+                    padding: '8px',
+                    border: '1px solid rgba(255, 255, 255, 0.1)',
+                    fontSize: '12px',
+                    color: 'rgba(255, 255, 255, 0.7)',
+                    background: 'rgba(255, 255, 255, 0.05)'
+                  }}>
+                    {billable ? t('grid.billable') : t('grid.nonBillable')}
+                  </td>
+                  {weekDates.map(date => (
+                    <td key={date} style={{
+                      padding: '8px',
+                      border: '1px solid rgba(255, 255, 255, 0.1)',
+                      textAlign: 'center',
+                      fontSize: '12px',
+                      color: 'rgba(255, 255, 255, 0.7)',
+                      background: 'rgba(255, 255, 255, 0.05)'
+                    }}>
+                      {formatHours(getBillableDayTotal(date, billable), locale)}
+                    </td>
+                  ))}
+                  <td style={{
+                    padding: '8px',
                     border: '1px solid rgba(255, 255, 255, 0.1)',
                     textAlign: 'center',
+                    fontSize: '12px',
                     fontWeight: '600',
-                    color: 'rgba(255, 255, 255, 0.9)',
+                    color: 'rgba(255, 255, 255, 0.8)',
                     background: 'rgba(255, 255, 255, 0.05)'
                   }}>
-                    {getDayTotal(date).toFixed(1)}h
+                    {formatHours(getBillableTotal(billable), locale)}
                   </td>
-                ))}
-              </tr>
+                </tr>
+              ))}
             </tfoot>
           )}
         </table>
@@ -467,28 +1235,29 @@ export default function TimesheetTable({
           fontWeight: '600',
           color: 'rgba(255, 255, 255, 0.9)'
         }}>
-          Total Hours: <span style={{ color: 'rgba(52, 199, 89, 0.9)' }}>{getGrandTotal().toFixed(1)}h</span>
+          {t('grid.totalHours')} <span style={{ color: 'rgba(52, 199, 89, 0.9)' }}>{formatHours(getGrandTotal(), locale)}</span>
         </div>
         
         <button
           onClick={onSubmitWeek}
-          disabled={saving || currentlySaving.size > 0 || hasUnsavedChanges()}
+          disabled={saving || savingCells.size > 0 || hasUnsavedChanges() || hasGridErrors()}
           style={{
-            background: (saving || currentlySaving.size > 0 || hasUnsavedChanges()) ? 'rgba(59, 130, 246, 0.5)' : '#3b82f6',
+            background: (saving || savingCells.size > 0 || hasUnsavedChanges() || hasGridErrors()) ? 'rgba(59, 130, 246, 0.5)' : '#3b82f6',
             color: 'white',
             padding: '10px 20px',
             border: 'none',
             borderRadius: '6px',
-            cursor: (saving || currentlySaving.size > 0 || hasUnsavedChanges()) ? 'not-allowed' : 'pointer',
+            cursor: (saving || savingCells.size > 0 || hasUnsavedChanges() || hasGridErrors()) ? 'not-allowed' : 'pointer',
             fontWeight: '500',
             fontSize: '14px',
             transition: 'all 0.2s ease'
           }}
         >
-          {saving ? 'Submitting...' : 
-           currentlySaving.size > 0 ? `Saving... (${currentlySaving.size})` :
-           hasUnsavedChanges() ? 'Save changes first' :
-           'Submit Week'}
+          {saving ? t('grid.submitting') : 
+           savingCells.size > 0 ? t('grid.saving', { count: savingCells.size }) :
+           hasUnsavedChanges() ? t('grid.saveFirst') :
+           hasGridErrors() ? t('grid.fixErrors') :
+           t('grid.submitWeek')}
         </button>
       </div>
     </div>
@@ -0,0 +1,57 @@
+"use client";
+
+import React from 'react';
+import { useLocale } from '../context/LocaleContext';
+
+interface UndoRedoControlsProps {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  busy: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export default function UndoRedoControls({ undoLabel, redoLabel, busy, onUndo, onRedo }: UndoRedoControlsProps) {
+  const { t } = useLocale();
+
+  const buttonStyle = (enabled: boolean): React.CSSProperties => ({
+    background: 'rgba(255, 255, 255, 0.08)',
+    backdropFilter: 'blur(10px)',
+    WebkitBackdropFilter: 'blur(10px)',
+    border: '1px solid rgba(255, 255, 255, 0.2)',
+    borderRadius: '8px',
+    padding: '10px 16px',
+    color: enabled ? 'rgba(255, 255, 255, 0.9)' : 'rgba(255, 255, 255, 0.4)',
+    fontSize: '14px',
+    fontWeight: '500',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    transition: 'all 0.2s ease',
+    height: '40px'
+  });
+
+  const canUndo = !!undoLabel && !busy;
+  const canRedo = !!redoLabel && !busy;
+
+  return (
+    <div className="add-row-section">
+      <div className="add-row-form">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          title={undoLabel ? t('history.undoTitle', { label: undoLabel }) : t('history.nothingToUndo')}
+          style={buttonStyle(canUndo)}
+        >
+          {t('history.undo')}
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          title={redoLabel ? t('history.redoTitle', { label: redoLabel }) : t('history.nothingToRedo')}
+          style={buttonStyle(canRedo)}
+        >
+          {t('history.redo')}
+        </button>
+      </div>
+    </div>
+  );
+}
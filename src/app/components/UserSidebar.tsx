@@ -1,6 +1,7 @@
 import React from 'react';
 import { useAuth } from '../context/AuthContext';
 import LogoutButton from './LogoutButton';
+import { useLocale } from '../context/LocaleContext';
 
 interface LegacyUser {
   employee_id: string;
@@ -16,6 +17,7 @@ interface UserSidebarProps {
 
 export default function UserSidebar({ user: propUser, isAdmin }: UserSidebarProps) {
   const { user: authUser } = useAuth();
+  const { t } = useLocale();
   
   const user = authUser || propUser;
   
@@ -63,18 +65,42 @@ export default function UserSidebar({ user: propUser, isAdmin }: UserSidebarProp
         <h2>Mobiux - Timesheet</h2>
 
         <div className="user-info">
-          <p className="user-name">Welcome, {userData.name}</p>
-          <p className="user-email">logged in as : {userData.email}</p>
+          <p className="user-name">{t('nav.welcome', { name: userData.name })}</p>
+          <p className="user-email">{t('nav.loggedInAs', { email: userData.email || '' })}</p>
         </div>
 
         <div>     
+          <button 
+            className="sidebar-nav-btn" 
+            onClick={() => window.location.href = '/settings'}
+            title={t('nav.settingsTitle')}
+          >
+            {t('nav.settings')}
+          </button>
+
+          <button 
+            className="sidebar-nav-btn" 
+            onClick={() => window.location.href = '/leave'}
+            title={t('nav.leaveTitle')}
+          >
+            {t('nav.leave')}
+          </button>
+
+          <button 
+            className="sidebar-nav-btn" 
+            onClick={() => window.location.href = '/reports'}
+            title={t('nav.reportsTitle')}
+          >
+            {t('nav.reports')}
+          </button>
+
           {hasAdminAccess() && (
             <button 
               className="admin-btn" 
               onClick={() => window.location.href = '/admin'}
-              title="Access admin dashboard"
+              title={t('nav.adminPanelTitle')}
             >
-              Admin Panel
+              {t('nav.adminPanel')}
             </button>
           )}
         </div>
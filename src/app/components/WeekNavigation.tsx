@@ -1,30 +1,108 @@
 "use client";
 
 import React from 'react';
+import { formatDate } from '../utils/api';
+import { formatHoursCompact, formatNumberCompact } from '../utils/format';
+import { useLocale } from '../context/LocaleContext';
+
+export interface WeekProgress {
+  loggedHours: number;
+  requiredHours: number;
+  // Explains how the requirement was reached, e.g. deductions for holidays
+  detail?: string;
+}
 
 interface WeekNavigationProps {
   currentWeek: string;
+  weekStart: string;
+  isCurrentWeek: boolean;
   onNavigateWeek: (direction: number) => void;
+  onJumpToDate: (date: string) => void;
+  onShowMonth: () => void;
+  onShowOutstanding: () => void;
+  progress?: WeekProgress | null;
 }
 
-export default function WeekNavigation({ currentWeek, onNavigateWeek }: WeekNavigationProps) {
+export default function WeekNavigation({
+  currentWeek,
+  weekStart,
+  isCurrentWeek,
+  onNavigateWeek,
+  onJumpToDate,
+  onShowMonth,
+  onShowOutstanding,
+  progress
+}: WeekNavigationProps) {
+  const { locale, t } = useLocale();
+  const remainingHours = progress ? Math.max(0, progress.requiredHours - progress.loggedHours) : 0;
+  const percentComplete = progress && progress.requiredHours > 0
+    ? Math.min(100, (progress.loggedHours / progress.requiredHours) * 100)
+    : 100;
+
   return (
     <div className="header-section">
-      <h2>Timesheet - {currentWeek}</h2>
+      <div className="week-title">
+        <h2>{t('week.title', { week: currentWeek })}</h2>
+        {progress && (
+          <div className="week-progress" title={progress.detail}>
+            <div className="week-progress-bar">
+              <div
+                className={`week-progress-fill ${remainingHours === 0 ? 'complete' : ''}`}
+                style={{ width: `${percentComplete}%` }}
+              />
+            </div>
+            <span>
+              {t('week.progress', {
+                logged: formatNumberCompact(progress.loggedHours, locale),
+                required: formatHoursCompact(progress.requiredHours, locale)
+              })}
+              {remainingHours > 0
+                ? t('week.remaining', { hours: formatHoursCompact(remainingHours, locale) })
+                : t('week.requirementMet')}
+            </span>
+          </div>
+        )}
+      </div>
       <div className="nav-buttons">
+        <input
+          type="date"
+          value={weekStart}
+          onChange={(e) => e.target.value && onJumpToDate(e.target.value)}
+          className="week-picker"
+          title={t('week.jumpToDate')}
+        />
         <button 
           onClick={() => onNavigateWeek(-1)} 
           className="nav-btn"
         >
-          ‹ Previous Week
+          {t('week.previous')}
+        </button>
+        <button 
+          onClick={() => onJumpToDate(formatDate(new Date()))} 
+          disabled={isCurrentWeek}
+          className="nav-btn"
+        >
+          {t('week.thisWeek')}
         </button>
         <button 
           onClick={() => onNavigateWeek(1)} 
           className="nav-btn"
         >
-          Next Week ›
+          {t('week.next')}
+        </button>
+        <button 
+          onClick={onShowMonth} 
+          className="nav-btn"
+        >
+          {t('week.monthView')}
+        </button>
+        <button 
+          onClick={onShowOutstanding} 
+          className="nav-btn"
+        >
+          {t('week.outstanding')}
         </button>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
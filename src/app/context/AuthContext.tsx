@@ -18,7 +18,8 @@ export interface User {
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  // error is the server's message; the login page supplies its own translated fallback
+  login: (email: string, password: string) => Promise<{ success: boolean; error?: string; networkError?: boolean }>;
   logout: () => void;
   loading: boolean;
 }
@@ -102,11 +103,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         
         return { success: true };
       } else {
-        return { success: false, error: data.error || 'Login failed' };
+        return { success: false, error: data.error };
       }
     } catch (error) {
       console.error('❌ AuthContext: Login error:', error);
-      return { success: false, error: 'Network error. Please try again.' };
+      return { success: false, networkError: true };
     }
   };
 
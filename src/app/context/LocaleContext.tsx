@@ -0,0 +1,66 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { DEFAULT_LOCALE, MessageKey, translate } from '../utils/i18n';
+
+// The locale is saved with the user's settings; this copy lets pages render in it before those load
+const LOCALE_STORAGE_KEY = 'locale';
+
+type Translate = (key: MessageKey, params?: { [name: string]: string | number }) => string;
+
+interface LocaleContextType {
+  locale: string;
+  setLocale: (locale: string) => void;
+  t: Translate;
+  // Same as t but never changes identity, so data loading can build messages without re-running on a locale switch
+  tLatest: Translate;
+}
+
+const LocaleContext = createContext<LocaleContextType | null>(null);
+
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState(DEFAULT_LOCALE);
+  const localeRef = useRef(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    const storedLocale = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (storedLocale) {
+      localeRef.current = storedLocale;
+      setLocaleState(storedLocale);
+    }
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((newLocale: string) => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, newLocale);
+    localeRef.current = newLocale;
+    setLocaleState(newLocale);
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, params?: { [name: string]: string | number }) => translate(locale, key, params),
+    [locale]
+  );
+
+  const tLatest = useCallback(
+    (key: MessageKey, params?: { [name: string]: string | number }) => translate(localeRef.current, key, params),
+    []
+  );
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale, t, tLatest }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export function useLocale() {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+}
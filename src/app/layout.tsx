@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { AuthProvider } from './context/AuthContext';
+import { LocaleProvider } from './context/LocaleContext';
 import './globals.css'; 
 
 export const metadata: Metadata = {
@@ -16,7 +17,9 @@ export default function RootLayout({
     <html lang="en">
       <body>
         <AuthProvider>
-          {children}
+          <LocaleProvider>
+            {children}
+          </LocaleProvider>
         </AuthProvider>
       </body>
     </html>
@@ -0,0 +1,338 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import '../page.css';
+import UserSidebar from '../components/UserSidebar';
+import {
+  User,
+  LeaveRequest,
+  LeaveType,
+  LeaveDuration,
+  LEAVE_TYPE_LABELS,
+  loadUserData,
+  loadLeaveRequests,
+  createLeaveRequest,
+  cancelLeaveRequest,
+  formatDate
+} from '../utils/api';
+import { formatDisplayDate } from '../utils/format';
+import { useLocale } from '../context/LocaleContext';
+
+interface LeaveFormData {
+  start_date: string;
+  end_date: string;
+  duration: LeaveDuration;
+  leave_type: LeaveType;
+  reason: string;
+}
+
+const emptyForm = (): LeaveFormData => ({
+  start_date: formatDate(new Date()),
+  end_date: formatDate(new Date()),
+  duration: 'full_day',
+  leave_type: 'annual',
+  reason: ''
+});
+
+const STATUS_COLOURS: Record<LeaveRequest['status'], string> = {
+  pending: 'rgba(255, 193, 7, 0.9)',
+  approved: 'rgba(52, 199, 89, 0.9)',
+  rejected: 'rgba(239, 68, 68, 0.9)',
+  cancelled: 'rgba(255, 255, 255, 0.5)'
+};
+
+export default function LeavePage() {
+  const { locale, t, tLatest } = useLocale();
+  const [user, setUser] = useState<User | null>(null);
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<LeaveFormData>(emptyForm);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      setRequests(await loadLeaveRequests());
+    } catch (err) {
+      console.error('Failed to load leave requests:', err);
+      setError(tLatest('leave.requestsLoadFailed'));
+    }
+  }, [tLatest]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const token = localStorage.getItem('access_token');
+      if (!token) {
+        window.location.href = '/login';
+        return;
+      }
+
+      try {
+        setUser(await loadUserData());
+        await fetchRequests();
+      } catch (err) {
+        console.error('Leave load error:', err);
+        setError(tLatest('leave.loadFailed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [fetchRequests, tLatest]);
+
+  // Clear messages after 5 seconds
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError('');
+        setSuccess('');
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [error, success]);
+
+  const isSingleDay = formData.start_date === formData.end_date;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.start_date || !formData.end_date || formData.end_date < formData.start_date) {
+      setError(t('leave.endBeforeStart'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await createLeaveRequest({
+        ...formData,
+        // Half days only make sense for a single day
+        duration: isSingleDay ? formData.duration : 'full_day',
+        reason: formData.reason.trim()
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t('leave.requestFailed'));
+      }
+
+      setSuccess(t('leave.requested'));
+      setFormData(emptyForm());
+      await fetchRequests();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('leave.requestFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (request: LeaveRequest) => {
+    if (!confirm(t('leave.cancelConfirm', {
+      type: t(LEAVE_TYPE_LABELS[request.leave_type]),
+      date: formatDisplayDate(request.start_date, locale)
+    }))) return;
+
+    try {
+      const response = await cancelLeaveRequest(request.id);
+      if (!response.ok) throw new Error(t('leave.cancelFailed'));
+      setSuccess(t('leave.cancelled'));
+      await fetchRequests();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('leave.cancelFailed'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-content">
+          <div className="spinner"></div>
+          <p>{t('leave.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="container">
+        <div className="login-prompt">
+          <h2>{t('leave.loginTitle')}</h2>
+          <p>{t('leave.loginPrompt')}</p>
+          <button
+            onClick={() => window.location.href = '/login'}
+            className="login-btn"
+          >
+            {t('leave.goToLogin')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isAdmin = user.role === 'admin' || user.role === 'manager';
+
+  return (
+    <div className="app">
+      <UserSidebar
+        user={{
+          employee_id: user.id.toString(),
+          employee_name: user.full_name,
+          department: user.company,
+          role: user.designation
+        }}
+        isAdmin={isAdmin}
+      />
+
+      <div className="main">
+        <div className="container">
+          <div className="header-section">
+            <h2>{t('leave.title')}</h2>
+            <div className="nav-buttons">
+              <button onClick={() => window.location.href = '/'} className="nav-btn">
+                {t('leave.back')}
+              </button>
+            </div>
+          </div>
+
+          {error && <div className="notification error">{error}</div>}
+          {success && <div className="notification success">{success}</div>}
+
+          <div className="settings-section">
+            <div className="settings-section-header">
+              <h3>{t('leave.requestTitle')}</h3>
+            </div>
+            <p className="settings-help">
+              {t('leave.requestHelp')}
+            </p>
+
+            <form onSubmit={handleSubmit}>
+              <label className="settings-label">
+                {t('leave.type')}
+                <select
+                  value={formData.leave_type}
+                  onChange={(e) => setFormData({ ...formData, leave_type: e.target.value as LeaveType })}
+                  className="settings-input"
+                >
+                  {Object.entries(LEAVE_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{t(label)}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="settings-label">
+                {t('leave.from')}
+                <input
+                  type="date"
+                  required
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    start_date: e.target.value,
+                    end_date: formData.end_date < e.target.value ? e.target.value : formData.end_date
+                  })}
+                  className="settings-input"
+                />
+              </label>
+
+              <label className="settings-label">
+                {t('leave.to')}
+                <input
+                  type="date"
+                  required
+                  min={formData.start_date}
+                  value={formData.end_date}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  className="settings-input"
+                />
+              </label>
+
+              {isSingleDay && (
+                <label className="settings-label">
+                  {t('leave.duration')}
+                  <select
+                    value={formData.duration}
+                    onChange={(e) => setFormData({ ...formData, duration: e.target.value as LeaveDuration })}
+                    className="settings-input"
+                  >
+                    <option value="full_day">{t('leaveDuration.full_day')}</option>
+                    <option value="half_day">{t('leaveDuration.half_day')}</option>
+                  </select>
+                </label>
+              )}
+
+              <label className="settings-label">
+                {t('leave.reason')}
+                <input
+                  type="text"
+                  value={formData.reason}
+                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                  placeholder={t('leave.reasonPlaceholder')}
+                  className="settings-input"
+                />
+              </label>
+
+              <div className="form-buttons">
+                <button type="submit" disabled={saving}>
+                  {saving ? t('leave.submitting') : t('leave.submit')}
+                </button>
+              </div>
+            </form>
+          </div>
+
+          <div className="settings-section">
+            <div className="settings-section-header">
+              <h3>{t('leave.myRequests')}</h3>
+            </div>
+
+            {requests.length ? (
+              <table>
+                <thead>
+                  <tr>
+                    <th>{t('leave.type')}</th>
+                    <th>{t('leave.dates')}</th>
+                    <th>{t('leave.duration')}</th>
+                    <th>{t('leave.status')}</th>
+                    <th>{t('leave.actions')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {requests.map(request => (
+                    <tr key={request.id}>
+                      <td>{t(LEAVE_TYPE_LABELS[request.leave_type])}</td>
+                      <td>
+                        {request.start_date === request.end_date
+                          ? formatDisplayDate(request.start_date, locale)
+                          : t('leave.dateRange', {
+                            from: formatDisplayDate(request.start_date, locale),
+                            to: formatDisplayDate(request.end_date, locale)
+                          })}
+                      </td>
+                      <td>{t(`leaveDuration.${request.duration}`)}</td>
+                      <td>
+                        <span style={{ color: STATUS_COLOURS[request.status], fontWeight: 500 }}>
+                          {t(`leaveStatus.${request.status}`)}
+                        </span>
+                        {request.review_note && (
+                          <div className="settings-help" style={{ margin: 0 }}>{request.review_note}</div>
+                        )}
+                      </td>
+                      <td>
+                        {request.status === 'pending' && (
+                          <button className="delete-btn" onClick={() => handleCancel(request)}>{t('leave.cancel')}</button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="settings-help">{t('leave.empty')}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
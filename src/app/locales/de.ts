@@ -0,0 +1,730 @@
+// German UI strings. Must define every key in the English catalogue.
+
+import type { MessageKey } from './en';
+
+const de: Record<MessageKey, string> = {
+  'nav.settings': 'Einstellungen',
+  'nav.settingsTitle': 'Zeilenvorlagen und Einstellungen verwalten',
+  'nav.leave': 'Urlaub',
+  'nav.leaveTitle': 'Urlaub beantragen und Status ansehen',
+  'nav.reports': 'Meine Auswertungen',
+  'nav.reportsTitle': 'Stunden nach Projekt und im Zeitverlauf ansehen',
+  'nav.adminPanel': 'Verwaltung',
+  'nav.adminPanelTitle': 'Zum Verwaltungsbereich',
+  'nav.welcome': 'Willkommen, {name}',
+  'nav.loggedInAs': 'angemeldet als: {email}',
+  'nav.logout': 'Abmelden',
+  'nav.logoutConfirm': 'Möchten Sie sich wirklich abmelden?',
+
+  'auth.signInTitle': 'Melden Sie sich bei Ihrem Konto an',
+  'auth.registerTitle': 'Konto erstellen',
+  'auth.email': 'E-Mail-Adresse',
+  'auth.emailPlaceholder': 'E-Mail-Adresse eingeben',
+  'auth.password': 'Passwort',
+  'auth.passwordPlaceholder': 'Passwort eingeben',
+  'auth.newPasswordPlaceholder': 'Passwort eingeben (mind. 8 Zeichen)',
+  'auth.confirmPassword': 'Passwort bestätigen',
+  'auth.confirmPasswordPlaceholder': 'Passwort wiederholen',
+  'auth.firstName': 'Vorname',
+  'auth.firstNamePlaceholder': 'Vornamen eingeben',
+  'auth.lastName': 'Nachname',
+  'auth.lastNamePlaceholder': 'Nachnamen eingeben',
+  'auth.signIn': 'Anmelden',
+  'auth.signingIn': 'Anmeldung läuft...',
+  'auth.createAccount': 'Konto erstellen',
+  'auth.creatingAccount': 'Konto wird erstellt...',
+  'auth.noAccount': 'Noch kein Konto?',
+  'auth.createOne': 'Hier registrieren',
+  'auth.haveAccount': 'Sie haben bereits ein Konto?',
+  'auth.signInHere': 'Hier anmelden',
+  'auth.loginFailed': 'Anmeldung fehlgeschlagen',
+  'auth.unexpectedError': 'Ein unerwarteter Fehler ist aufgetreten',
+  'auth.passwordMismatch': 'Die Passwörter stimmen nicht überein',
+  'auth.passwordTooShort': 'Das Passwort muss mindestens 8 Zeichen lang sein',
+  'auth.registered': 'Konto erfolgreich erstellt! Sie können sich jetzt anmelden.',
+  'auth.emailError': 'E-Mail: {error}',
+  'auth.passwordError': 'Passwort: {error}',
+  'auth.registerFailed': 'Registrierung fehlgeschlagen. Bitte versuchen Sie es erneut.',
+  'auth.networkError': 'Netzwerkfehler. Bitte prüfen Sie, ob der Backend-Server läuft.',
+
+  'week.title': 'Zeiterfassung - {week}',
+  'week.previous': '‹ Vorherige Woche',
+  'week.next': 'Nächste Woche ›',
+  'week.thisWeek': 'Diese Woche',
+  'week.monthView': 'Monatsansicht',
+  'week.outstanding': 'Offene Wochen',
+  'week.jumpToDate': 'Zur Woche eines Datums springen',
+  'week.progress': '{logged} / {required}',
+  'week.remaining': ', noch {hours}',
+  'week.requirementMet': ', Soll erreicht',
+
+  'month.previous': '‹ Vorheriger Monat',
+  'month.next': 'Nächster Monat ›',
+  'month.weekView': 'Wochenansicht',
+  'month.week': 'Woche',
+  'month.openWeek': 'Diese Woche öffnen',
+  'month.loadFailed': 'Zeiteinträge für diesen Monat konnten nicht geladen werden',
+  'month.project': 'Projekt',
+  'month.hours': 'Stunden',
+  'month.share': 'Anteil',
+  'month.total': 'Monatssumme',
+  'month.empty': 'In diesem Monat wurden keine Stunden erfasst.',
+  'month.status.missing': 'Fehlt',
+  'month.status.draft': 'Entwurf',
+  'month.status.submitted': 'Eingereicht',
+  'month.status.approved': 'Genehmigt',
+  'month.status.rejected': 'Abgelehnt',
+
+  'grid.legend.empty': 'Leer',
+  'grid.legend.draft': 'Entwurf',
+  'grid.legend.submitted': 'Eingereicht (gesperrt)',
+  'grid.legend.approved': 'Genehmigt',
+  'grid.legend.rejected': 'Abgelehnt',
+  'grid.legend.pendingSync': 'Synchronisierung ausstehend',
+  'grid.legend.holiday': 'Feiertag',
+  'grid.legend.nonWorking': 'Arbeitsfreier Tag',
+  'grid.legend.leave': 'Genehmigter Urlaub',
+  'grid.legend.note': 'Mit Notiz',
+  'grid.project': 'Projekt',
+  'grid.activity': 'Tätigkeit',
+  'grid.total': 'Summe',
+  'grid.empty': 'Keine Zeiteinträge in dieser Woche. Klicken Sie auf "Add Project Activity", um zu beginnen.',
+  'grid.removeRow': 'Zeile aus dieser Woche entfernen',
+  'grid.removeRowSaving': 'Warten Sie, bis diese Zeile gespeichert ist, bevor Sie sie entfernen',
+  'grid.removeRowLocked': 'Zeilen mit eingereichten Einträgen können nicht entfernt werden',
+  'grid.addNote': 'Notiz hinzufügen',
+  'grid.rejectedNotice': 'Ihre Führungskraft hat Einträge dieser Woche abgelehnt. Bitte korrigieren Sie sie und reichen Sie die Woche erneut ein.',
+  'grid.rejectedReason': 'Abgelehnt: {reason}',
+  'grid.subtotal': 'Zwischensumme {project}',
+  'grid.billable': 'Abrechenbar',
+  'grid.nonBillable': 'Nicht abrechenbar',
+  'grid.leave': 'Urlaub',
+  'grid.leaveCell': 'Genehmigter Urlaub - wird auf der Urlaubsseite verwaltet. Er senkt die Sollstunden dieser Woche und zählt nicht als erfasste Zeit.',
+  'grid.dailyTotals': 'Tagessummen',
+  'grid.totalHours': 'Gesamtstunden:',
+  'grid.submitting': 'Wird eingereicht...',
+  'grid.saving': 'Wird gespeichert... ({count})',
+  'grid.saveFirst': 'Zuerst Änderungen speichern',
+  'grid.fixErrors': 'Zuerst Fehler beheben',
+  'grid.submitWeek': 'Woche einreichen',
+
+  'timer.title': 'Timer',
+  'timer.selectProject': 'Projekt wählen',
+  'timer.selectActivity': 'Tätigkeit wählen',
+  'timer.start': 'Starten',
+  'timer.stop': 'Stoppen',
+  'timer.discard': 'Verwerfen',
+  'timer.saving': 'Wird gespeichert...',
+  'timer.forgotten': 'Gestartet {started} - dieser Timer wurde wohl vergessen. Geben Sie die Stunden für {date} ein:',
+  'timer.hoursPlaceholder': 'z. B. 7:30',
+  'timer.invalidHours': 'Geben Sie 0 bis 24 Stunden ein, z. B. 7,5, 7:30 oder 7h30m',
+  'timer.logHours': 'Stunden erfassen',
+
+  'recall.prompt': 'Diese Woche wurde eingereicht, aber noch nicht genehmigt. Rufen Sie sie zurück, um Änderungen vorzunehmen.',
+  'recall.button': 'Einreichung zurückrufen',
+  'recall.reasonPlaceholder': 'Was muss geändert werden? z. B. Tippfehler bei den Stunden am Dienstag',
+  'recall.confirm': 'Zurückrufen',
+  'recall.recalling': 'Wird zurückgerufen...',
+  'recall.cancel': 'Abbrechen',
+  'recall.pending': 'Rückruf am {date} angefragt. Ihre Führungskraft muss ihn genehmigen, bevor die Woche bearbeitet werden kann.',
+  'recall.history': 'Rückrufverlauf ({count})',
+  'recall.historyItem': '{date}: {name} hat {count} Einträge zurückgerufen - {status}',
+  'recall.status.completed': 'auf Entwurf zurückgesetzt',
+  'recall.status.pending': 'wartet auf Führungskraft',
+  'recall.status.declined': 'abgelehnt',
+
+  'timesheet.loading': 'Ihre Zeiterfassung wird geladen...',
+  'timesheet.loginTitle': 'Bitte melden Sie sich an',
+  'timesheet.loginPrompt': 'Sie müssen angemeldet sein, um Ihre Zeiterfassung zu sehen.',
+  'timesheet.goToLogin': 'Zur Anmeldung',
+  'timesheet.unknownError': 'Unbekannter Fehler',
+  'timesheet.loadUserFailed': 'Benutzerdaten konnten nicht geladen werden',
+  'timesheet.loadFailed': 'Daten konnten nicht geladen werden. Bitte laden Sie die Seite neu.',
+  'timesheet.contracted': 'Vertraglich {hours}',
+  'timesheet.contractedMinus': 'Vertraglich {hours} abzüglich {deductions}',
+  'timesheet.holidayDeduction': '{hours} Feiertage',
+  'timesheet.leaveDeduction': '{hours} Abwesenheit',
+  'timesheet.deductionSeparator': ' und ',
+  'timesheet.synced': '{count} Offline-Änderung(en) synchronisiert',
+  'timesheet.offlineStoreFailed': 'Speichern fehlgeschlagen: Sie sind offline und einige Änderungen konnten nicht gespeichert werden',
+  'timesheet.offlineQueued': 'Offline - {count} Änderung(en) lokal gespeichert, sie werden nach dem Verbinden synchronisiert',
+  'timesheet.saveFailedWithError': 'Speichern fehlgeschlagen: {error}',
+  'timesheet.saveFailed': 'Speichern fehlgeschlagen: {error}',
+  'timesheet.saved': '{count} Änderung(en) gespeichert',
+  'timesheet.savedPartial': '{count} Änderung(en) gespeichert, {failed} fehlgeschlagen',
+  'timesheet.savedPartialWithError': '{count} Änderung(en) gespeichert, {failed} fehlgeschlagen: {error}',
+  'timesheet.keptMine': 'Ihr Offline-Wert wurde übernommen',
+  'timesheet.keptServer': 'Der Server-Wert wurde übernommen',
+  'timesheet.conflictFailed': 'Konflikt konnte nicht gelöst werden: {error}',
+  'timesheet.undid': 'Rückgängig gemacht: {label}',
+  'timesheet.redid': 'Wiederhergestellt: {label}',
+  'timesheet.undidPartial': 'Rückgängig gemacht: {label}; {count} Zelle(n) konnten nicht wiederhergestellt werden',
+  'timesheet.redidPartial': 'Wiederhergestellt: {label}; {count} Zelle(n) konnten nicht wiederhergestellt werden',
+  'timesheet.undoFailed': 'Rückgängig machen fehlgeschlagen: {error}',
+  'timesheet.redoFailed': 'Wiederherstellen fehlgeschlagen: {error}',
+  'timesheet.pasteNothing': 'Nichts eingefügt ({count} Zelle(n) übersprungen)',
+  'timesheet.pastePartial': '{count} Zelle(n) eingefügt, {skipped} übersprungen',
+  'timesheet.noteNeedsHours': 'Tragen Sie zuerst Stunden ein, bevor Sie eine Notiz hinzufügen',
+  'timesheet.locked': 'Eingereichte Zeiteinträge können nicht bearbeitet werden',
+  'timesheet.rowAdded': 'Zeile {project} - {activity} hinzugefügt',
+  'timesheet.rowSaving': 'Warten Sie, bis diese Zeile gespeichert ist, bevor Sie sie entfernen',
+  'timesheet.rowLocked': 'Zeilen mit eingereichten Einträgen können nicht entfernt werden',
+  'timesheet.removeRowConfirm': '{project} - {activity} entfernen und die {count} Entwurfseinträge dieser Woche löschen?',
+  'timesheet.removeRowFailed': 'Zeile konnte nicht entfernt werden: {error}',
+  'timesheet.removeFailed': 'Entfernen fehlgeschlagen: {error}',
+  'timesheet.rowRemoved': 'Zeile {project} - {activity} entfernt',
+  'timesheet.timerTooShort': 'Zu wenig Zeit erfasst, um sie einzutragen',
+  'timesheet.projectNotFound': 'Projekt "{name}" nicht gefunden',
+  'timesheet.timerOverLimit': 'Timer kann nicht eingetragen werden: {detail}',
+  'timesheet.timerLogged': '{hours} für {project} - {activity} am {date} eingetragen',
+  'timesheet.copyLoadFailed': 'Vorwoche konnte nicht geladen werden: {error}',
+  'timesheet.copyEmpty': 'In der Vorwoche wurden keine Zeiteinträge gefunden',
+  'timesheet.copiedRows': '{count} Zeile(n) aus der Vorwoche kopiert',
+  'timesheet.copied': '{count} Einträge aus der Vorwoche kopiert',
+  'timesheet.copiedSkipped': '{count} Einträge aus der Vorwoche kopiert ({skipped} übersprungen)',
+  'timesheet.copiedOverLimit': '{count} Einträge aus der Vorwoche kopiert; {overLimit} hätten die Stundengrenzen überschritten und wurden übersprungen',
+  'timesheet.templateApplied': '"{name}" angewendet: {rows} Zeile(n), {count} Einträge',
+  'timesheet.templateSkipped': '{count} Einträge übersprungen',
+  'timesheet.templateOverLimit': '{count} Einträge über den Stundengrenzen übersprungen',
+  'timesheet.templateUnassigned': 'nicht zugewiesene übersprungen: {projects}',
+  'timesheet.noDrafts': 'Keine Entwürfe zum Einreichen',
+  'timesheet.submitted': 'Woche erfolgreich eingereicht! {count} Zeiteinträge verarbeitet. (Summe: {total})',
+  'timesheet.submittedWithWarnings': 'Woche mit Hinweisen eingereicht! {count} Zeiteinträge verarbeitet. (Summe: {total})',
+  'timesheet.submitFailed': 'Einreichen fehlgeschlagen: {error}',
+  'timesheet.recalled': 'Woche zurückgerufen: {count} Einträge sind wieder Entwürfe',
+  'timesheet.recallRequested': 'Rückruf angefragt - Ihre Führungskraft muss ihn genehmigen',
+  'timesheet.recallFailed': 'Rückruf fehlgeschlagen: {error}',
+  'timesheet.history.edit': 'Bearbeitung von {project} - {activity} am {date}',
+  'timesheet.history.editMany': 'Bearbeitung von {count} Zellen',
+  'timesheet.history.note': 'Notiz zu {project} - {activity} am {date}',
+  'timesheet.history.timer': 'Timer für {project} - {activity}',
+  'timesheet.history.removal': 'Entfernen von {project} - {activity}',
+  'timesheet.history.copyWeek': 'Kopie der Vorwoche',
+  'timesheet.history.template': 'Vorlage "{name}"',
+
+  'copyWeek.button': 'Vorwoche kopieren',
+  'copyWeek.rowsOnly': 'Nur Zeilen',
+  'copyWeek.rowsWithHours': 'Zeilen mit Stunden',
+  'copyWeek.copy': 'Kopieren',
+  'copyWeek.copying': 'Wird kopiert...',
+  'copyWeek.cancel': 'Abbrechen',
+
+  'applyTemplate.button': 'Vorlage anwenden',
+  'applyTemplate.select': 'Vorlage auswählen',
+  'applyTemplate.apply': 'Anwenden',
+  'applyTemplate.applying': 'Wird angewendet...',
+  'applyTemplate.cancel': 'Abbrechen',
+  'applyTemplate.create': 'Vorlage in den Einstellungen anlegen',
+  'applyTemplate.unavailable': '{count} Zeile(n) werden übersprungen, da Sie nicht mehr zugewiesen sind: {projects}',
+
+  'addRow.button': 'Projektaktivität hinzufügen',
+  'addRow.selectProject': 'Projekt auswählen',
+  'addRow.selectActivity': 'Aktivität auswählen',
+  'addRow.add': 'Zeile hinzufügen',
+  'addRow.cancel': 'Abbrechen',
+  'addRow.selectBoth': 'Bitte wählen Sie Projekt und Aktivität aus',
+  'addRow.exists': 'Diese Kombination aus Projekt und Aktivität ist bereits vorhanden',
+
+  'saveIndicator.saving': '{count} Änderung(en) werden gespeichert...',
+  'saveIndicator.saveNow': 'Jetzt speichern',
+
+  'history.undo': '↶ Rückgängig',
+  'history.redo': '↷ Wiederholen',
+  'history.undoTitle': '{label} rückgängig machen (Strg+Z)',
+  'history.redoTitle': '{label} wiederholen (Strg+Umschalt+Z)',
+  'history.nothingToUndo': 'Nichts rückgängig zu machen',
+  'history.nothingToRedo': 'Nichts zu wiederholen',
+
+  'note.placeholder': 'Wofür wurden diese Stunden aufgewendet?',
+  'note.close': 'Schließen',
+  'note.cancel': 'Abbrechen',
+  'note.save': 'Notiz speichern',
+
+  'conflicts.title': '{count} Offline-Änderung(en) stehen im Konflikt mit dem Server',
+  'conflicts.detail': 'am {date}: Ihr Offline-Wert {mine}, auf dem Server {server}',
+  'conflicts.emptyValue': 'leer',
+  'conflicts.rejected': '(vom Server abgelehnt: {error})',
+  'conflicts.submitted': '(Eintrag wurde eingereicht)',
+  'conflicts.changed': '(während Sie offline waren auf dem Server geändert)',
+  'conflicts.keepMine': 'Meinen behalten',
+  'conflicts.retryMine': 'Meinen erneut senden',
+  'conflicts.keepServer': 'Server behalten',
+  'conflicts.discardMine': 'Meinen verwerfen',
+
+  'submit.reviewTitle': 'Woche vor dem Einreichen prüfen',
+  'submit.warningsTitle': 'Hinweise zur Einreichung',
+  'submit.totalOnly': 'Summe dieser Woche: {total}',
+  'submit.totalAgainstRequirement': 'Summe dieser Woche: {total} von {required} erforderlich',
+  'submit.shortfall': 'Es fehlen noch {hours}, um die Wochenvorgabe zu erfüllen.',
+  'submit.showDay': 'Diesen Tag in der Aufstellung hervorheben',
+  'submit.confirm': '{count} Einträge einreichen',
+  'submit.backToEditing': 'Zurück zur Bearbeitung',
+  'submit.submitAnyway': 'Trotzdem einreichen ({count} Hinweise)',
+  'submit.cancel': 'Abbrechen',
+
+  'outstanding.title': 'Meine offenen Wochen',
+  'outstanding.summary': '{count} der letzten {weeks} Wochen sind noch offen',
+  'outstanding.range': 'Wie viele Wochen zurückgeschaut wird',
+  'outstanding.lastWeeks': 'Letzte {count} Wochen',
+  'outstanding.onlyOutstanding': 'Nur offene',
+  'outstanding.status': 'Status',
+  'outstanding.logged': 'Erfasst',
+  'outstanding.shortfall': 'Fehlend',
+  'outstanding.loading': 'Wochen werden geladen...',
+  'outstanding.empty': 'Nichts offen - alle Wochen in diesem Zeitraum sind eingereicht.',
+  'outstanding.loadFailed': 'Ihre letzten Wochen konnten nicht geladen werden',
+
+  'reports.loginTitle': 'Bitte melden Sie sich an',
+  'reports.loginPrompt': 'Sie müssen angemeldet sein, um Ihre Auswertungen zu sehen.',
+  'reports.goToLogin': 'Zur Anmeldung',
+  'reports.title': 'Meine Auswertungen',
+  'reports.back': '‹ Zurück zur Zeiterfassung',
+  'reports.loading': 'Auswertungen werden geladen...',
+  'reports.loadFailed': 'Ihre Zeiten für diesen Zeitraum konnten nicht geladen werden',
+  'reports.from': 'Von',
+  'reports.to': 'Bis',
+  'reports.preset.thisMonth': 'Dieser Monat',
+  'reports.preset.lastThreeMonths': 'Letzte 3 Monate',
+  'reports.preset.thisYear': 'Dieses Jahr',
+  'reports.rangeInvalid': 'Das Startdatum muss vor oder am Enddatum liegen.',
+  'reports.rangeTooLong': 'Wählen Sie einen Zeitraum von höchstens {days} Tagen.',
+  'reports.totalHours': 'Stunden gesamt',
+  'reports.averagePerWorkingDay': 'Durchschnitt pro Arbeitstag',
+  'reports.workingDays': '{count} Arbeitstage im Zeitraum',
+  'reports.averagePerLoggedDay': 'Durchschnitt pro erfasstem Tag',
+  'reports.loggedDays': '{count} Tage mit Stunden',
+  'reports.billableSplit': 'Abrechenbar und nicht abrechenbar',
+  'reports.weeklyTrend': 'Stunden pro Woche',
+  'reports.byProject': 'Stunden nach Projekt und Tätigkeit',
+  'reports.activity': 'Tätigkeit',
+  'reports.allActivities': 'Alle Tätigkeiten',
+  'reports.empty': 'In diesem Zeitraum wurden keine Stunden erfasst.',
+
+  'validation.invalid': 'Ungültig',
+  'validation.invalidDetail': 'Stunden wie 1,5, 1:45, 1h45m oder 90m eingeben',
+  'validation.negative': 'Negativ',
+  'validation.negativeDetail': 'Stunden dürfen nicht negativ sein',
+  'validation.cellMax': 'Max. {hours}',
+  'validation.cellMaxDetail': 'Ein einzelner Eintrag darf {hours} nicht überschreiten',
+  'validation.dayMax': 'Über {hours}',
+  'validation.dayMaxDetail': 'Die Tagessumme darf {hours} nicht überschreiten',
+  'validation.holiday': 'Feiertag',
+  'validation.holidayDetail': 'Dieser Eintrag fällt auf {name}',
+  'validation.weekend': 'Wochenende',
+  'validation.weekendDetail': 'Dieser Eintrag fällt auf ein Wochenende',
+
+  'rounding.none': 'Keine Rundung',
+  'rounding.tenth': 'Auf 0,1 Stunden (6 Min.)',
+  'rounding.quarter': 'Auf 0,25 Stunden (15 Min.)',
+  'rounding.half': 'Auf 0,5 Stunden (30 Min.)',
+
+  'leaveType.annual': 'Erholungsurlaub',
+  'leaveType.sick': 'Krankheit',
+  'leaveType.unpaid': 'Unbezahlter Urlaub',
+  'leaveType.other': 'Sonstige Abwesenheit',
+
+  'leaveDuration.full_day': 'Ganzer Tag',
+  'leaveDuration.half_day': 'Halber Tag',
+
+  'leaveStatus.pending': 'Ausstehend',
+  'leaveStatus.approved': 'Genehmigt',
+  'leaveStatus.rejected': 'Abgelehnt',
+  'leaveStatus.cancelled': 'Storniert',
+
+  'leave.title': 'Abwesenheit',
+  'leave.back': '‹ Zurück zur Zeiterfassung',
+  'leave.loading': 'Abwesenheiten werden geladen...',
+  'leave.loginTitle': 'Bitte melden Sie sich an',
+  'leave.loginPrompt': 'Sie müssen angemeldet sein, um Abwesenheit zu beantragen.',
+  'leave.goToLogin': 'Zur Anmeldung',
+  'leave.loadFailed': 'Abwesenheiten konnten nicht geladen werden. Bitte laden Sie die Seite neu.',
+  'leave.requestsLoadFailed': 'Abwesenheitsanträge konnten nicht geladen werden',
+  'leave.requestTitle': 'Abwesenheit beantragen',
+  'leave.requestHelp': 'Genehmigte Abwesenheit erscheint in Ihrer Zeiterfassung und verringert die Stunden, die Sie in dieser Woche erfassen müssen.',
+  'leave.type': 'Art',
+  'leave.from': 'Von',
+  'leave.to': 'Bis',
+  'leave.duration': 'Dauer',
+  'leave.reason': 'Grund (optional)',
+  'leave.reasonPlaceholder': 'z. B. Familienurlaub',
+  'leave.submit': 'Abwesenheit beantragen',
+  'leave.submitting': 'Wird eingereicht...',
+  'leave.endBeforeStart': 'Das Enddatum muss am oder nach dem Startdatum liegen',
+  'leave.requestFailed': 'Abwesenheit konnte nicht beantragt werden',
+  'leave.requested': 'Abwesenheit beantragt - Ihre Führungskraft wird sie prüfen',
+  'leave.cancelConfirm': 'Ihren Antrag ({type}) ab {date} stornieren?',
+  'leave.cancelFailed': 'Abwesenheitsantrag konnte nicht storniert werden',
+  'leave.cancelled': 'Abwesenheitsantrag storniert',
+  'leave.myRequests': 'Meine Anträge',
+  'leave.dates': 'Zeitraum',
+  'leave.status': 'Status',
+  'leave.actions': 'Aktionen',
+  'leave.dateRange': '{from} bis {to}',
+  'leave.cancel': 'Stornieren',
+  'leave.empty': 'Noch keine Abwesenheitsanträge.',
+
+  'admin.nav.title': 'Verwaltung',
+  'admin.nav.dashboard': 'Übersicht',
+  'admin.nav.users': 'Benutzer',
+  'admin.nav.projects': 'Projekte',
+  'admin.nav.approvals': 'Freigaben',
+  'admin.nav.holidays': 'Feiertage',
+  'admin.nav.leave': 'Abwesenheitsanträge',
+  'admin.nav.validation': 'Prüfregeln',
+  'admin.nav.workWeek': 'Arbeitswoche',
+  'admin.nav.back': '← Zurück zur Mitarbeiteransicht',
+  'admin.nav.checkingAccess': 'Adminzugriff wird geprüft...',
+  'admin.nav.accessDenied': 'Zugriff verweigert. Adminrechte erforderlich. Ihre Rolle: {role}',
+  'admin.nav.currentUser': 'Aktueller Benutzer',
+  'admin.nav.name': 'Name:',
+  'admin.nav.email': 'E-Mail:',
+  'admin.nav.role': 'Rolle:',
+  'admin.nav.admin': 'Admin:',
+  'admin.nav.yes': 'Ja',
+  'admin.nav.no': 'Nein',
+
+  'admin.dashboard.title': 'Zeiterfassungsübersicht',
+  'admin.dashboard.loadingUser': 'Benutzerdaten werden geladen...',
+  'admin.dashboard.projectsLoadFailed': 'Projekte konnten nicht geladen werden',
+  'admin.dashboard.timesheetsLoadFailed': 'Zeiteinträge des Projekts konnten nicht geladen werden',
+  'admin.dashboard.filters': 'Projekt und Zeitraum auswählen',
+  'admin.dashboard.project': 'Projekt:',
+  'admin.dashboard.selectProject': 'Projekt auswählen...',
+  'admin.dashboard.dateFrom': 'Von:',
+  'admin.dashboard.dateTo': 'Bis:',
+  'admin.dashboard.dateRange': 'Zeitraum:',
+  'admin.dashboard.loading': 'Übersicht wird geladen...',
+  'admin.dashboard.submittedOnly': 'Eingereichte Zeiteinträge im gewählten Zeitraum',
+  'admin.dashboard.employee': 'Mitarbeiter',
+  'admin.dashboard.totalHours': 'Stunden gesamt',
+  'admin.dashboard.total': 'Summe',
+  'admin.dashboard.totalEmployees': 'Mitarbeiter gesamt',
+  'admin.dashboard.totalActivities': 'Aktivitäten gesamt',
+  'admin.dashboard.averageHours': 'Durchschnitt Stunden/Mitarbeiter',
+  'admin.dashboard.selectTitle': 'Projekt auswählen',
+  'admin.dashboard.selectHelp': 'Wählen Sie oben ein Projekt aus, um die Zusammenfassung zu sehen.',
+  'admin.dashboard.emptyTitle': 'Keine Daten gefunden',
+  'admin.dashboard.empty': 'Für das gewählte Projekt und den Zeitraum wurden keine eingereichten Zeiteinträge gefunden.',
+  'admin.dashboard.emptyHelp': 'Stellen Sie sicher, dass die Mitarbeiter ihre Zeiteinträge für dieses Projekt und diesen Zeitraum eingereicht haben.',
+
+  'admin.approvals.title': 'Zeiterfassungsfreigaben',
+  'admin.approvals.loading': 'Eingereichte Wochen werden geladen...',
+  'admin.approvals.weeksLoadFailed': 'Eingereichte Wochen konnten nicht geladen werden',
+  'admin.approvals.recallsLoadFailed': 'Rückrufanfragen konnten nicht geladen werden',
+  'admin.approvals.approveFailed': 'Woche konnte nicht freigegeben werden',
+  'admin.approvals.rejectFailed': 'Woche konnte nicht abgelehnt werden',
+  'admin.approvals.approved': 'Woche ab {date} für {name} freigegeben',
+  'admin.approvals.rejected': 'Woche ab {date} für {name} abgelehnt',
+  'admin.approvals.recallApproveFailed': 'Rückrufanfrage konnte nicht genehmigt werden',
+  'admin.approvals.recallDeclineFailed': 'Rückrufanfrage konnte nicht abgelehnt werden',
+  'admin.approvals.recallApproved': 'Rückruf für {name} genehmigt',
+  'admin.approvals.recallDeclined': 'Rückruf für {name} abgelehnt',
+  'admin.approvals.unexpectedError': 'Unerwarteter Fehler',
+  'admin.approvals.recallRequests': 'Rückrufanfragen',
+  'admin.approvals.employee': 'Mitarbeiter',
+  'admin.approvals.week': 'Woche',
+  'admin.approvals.entries': 'Einträge',
+  'admin.approvals.reason': 'Grund',
+  'admin.approvals.requested': 'Angefragt',
+  'admin.approvals.actions': 'Aktionen',
+  'admin.approvals.allow': 'Erlauben',
+  'admin.approvals.decline': 'Ablehnen',
+  'admin.approvals.search': 'Nach Mitarbeiter suchen...',
+  'admin.approvals.filter.submitted': 'Wartet auf Freigabe',
+  'admin.approvals.filter.approved': 'Freigegeben',
+  'admin.approvals.filter.rejected': 'Abgelehnt',
+  'admin.approvals.hours': 'Stunden',
+  'admin.approvals.projects': 'Projekte',
+  'admin.approvals.submitted': 'Eingereicht',
+  'admin.approvals.weekRange': '{from} bis {to}',
+  'admin.approvals.projectHours': '{name} ({hours})',
+  'admin.approvals.reviewedBy': 'Geprüft von {name}',
+  'admin.approvals.approve': 'Freigeben',
+  'admin.approvals.reject': 'Ablehnen',
+  'admin.approvals.empty': 'Keine Wochen gefunden.',
+  'admin.approvals.rejectTitle': 'Woche ablehnen',
+  'admin.approvals.rejectSummary': '{name} - Woche ab {date}, {hours}',
+  'admin.approvals.rejectReason': 'Grund der Ablehnung *',
+  'admin.approvals.rejectPlaceholder': 'z. B. Die Stunden für Kunde X am Dienstag gehören zum Supportprojekt',
+  'admin.approvals.rejectHelp': 'Die Einträge der Woche werden wieder bearbeitbar und der Mitarbeiter sieht diesen Grund in seiner Zeiterfassung',
+  'admin.approvals.cancel': 'Abbrechen',
+
+  'admin.leave.title': 'Abwesenheitsanträge',
+  'admin.leave.loading': 'Abwesenheitsanträge werden geladen...',
+  'admin.leave.loadFailed': 'Abwesenheitsanträge konnten nicht geladen werden',
+  'admin.leave.approveFailed': 'Abwesenheitsantrag konnte nicht genehmigt werden',
+  'admin.leave.rejectFailed': 'Abwesenheitsantrag konnte nicht abgelehnt werden',
+  'admin.leave.approved': 'Abwesenheit für {name} genehmigt',
+  'admin.leave.rejected': 'Abwesenheit für {name} abgelehnt',
+  'admin.leave.unexpectedError': 'Unerwarteter Fehler',
+  'admin.leave.search': 'Nach Mitarbeiter suchen...',
+  'admin.leave.all': 'Alle',
+  'admin.leave.employee': 'Mitarbeiter',
+  'admin.leave.type': 'Art',
+  'admin.leave.dates': 'Zeitraum',
+  'admin.leave.reason': 'Grund',
+  'admin.leave.status': 'Status',
+  'admin.leave.actions': 'Aktionen',
+  'admin.leave.dateRange': '{from} bis {to}',
+  'admin.leave.halfDay': '{dates} (halber Tag)',
+  'admin.leave.reviewedBy': 'von {name}',
+  'admin.leave.approve': 'Genehmigen',
+  'admin.leave.reject': 'Ablehnen',
+  'admin.leave.empty': 'Keine Abwesenheitsanträge gefunden.',
+  'admin.leave.rejectTitle': 'Abwesenheit ablehnen',
+  'admin.leave.rejectReason': 'Grund der Ablehnung *',
+  'admin.leave.rejectPlaceholder': 'z. B. Das Team ist in dieser Woche unterbesetzt',
+  'admin.leave.rejectHelp': 'Der Mitarbeiter sieht diese Notiz neben seinem Antrag',
+  'admin.leave.cancel': 'Abbrechen',
+
+  'admin.holidays.title': 'Feiertagskalender',
+  'admin.holidays.loading': 'Feiertagskalender werden geladen...',
+  'admin.holidays.loadFailed': 'Feiertagskalender konnten nicht geladen werden',
+  'admin.holidays.duplicateDate': 'Jedes Datum darf in einem Kalender nur einmal vorkommen',
+  'admin.holidays.saveFailed': 'Feiertagskalender konnte nicht gespeichert werden',
+  'admin.holidays.created': 'Kalender erfolgreich angelegt',
+  'admin.holidays.updated': 'Kalender erfolgreich aktualisiert',
+  'admin.holidays.unexpectedError': 'Unerwarteter Fehler',
+  'admin.holidays.deleteConfirm': '{name} löschen? Seine Feiertage verringern die Sollstunden dann nicht mehr.',
+  'admin.holidays.deleteFailed': 'Feiertagskalender konnte nicht gelöscht werden',
+  'admin.holidays.deleted': 'Kalender erfolgreich gelöscht',
+  'admin.holidays.search': 'Kalender suchen...',
+  'admin.holidays.add': 'Kalender hinzufügen',
+  'admin.holidays.edit': 'Kalender bearbeiten',
+  'admin.holidays.name': 'Name',
+  'admin.holidays.company': 'Firma',
+  'admin.holidays.location': 'Standort',
+  'admin.holidays.upcoming': 'Kommende Feiertage',
+  'admin.holidays.actions': 'Aktionen',
+  'admin.holidays.allCompanies': 'Alle Firmen',
+  'admin.holidays.allLocations': 'Alle Standorte',
+  'admin.holidays.holidayItem': '{name} ({date})',
+  'admin.holidays.more': '{holidays} und {count} weitere',
+  'admin.holidays.noUpcoming': 'Keine kommenden Feiertage',
+  'admin.holidays.editButton': 'Bearbeiten',
+  'admin.holidays.deleteButton': 'Löschen',
+  'admin.holidays.empty': 'Keine Feiertagskalender gefunden.',
+  'admin.holidays.calendarName': 'Kalendername *',
+  'admin.holidays.calendarNamePlaceholder': 'z. B. Gesetzliche Feiertage Bayern 2026',
+  'admin.holidays.companyPlaceholder': 'Leer lassen für alle Firmen',
+  'admin.holidays.locationPlaceholder': 'Leer lassen für alle Standorte',
+  'admin.holidays.holidays': 'Feiertage',
+  'admin.holidays.holidaysHelp': 'Jeder Feiertag zieht einen Arbeitstag von den Sollstunden der Benutzer dieses Kalenders ab',
+  'admin.holidays.holidayPlaceholder': 'z. B. 1. Weihnachtstag',
+  'admin.holidays.remove': 'Entfernen',
+  'admin.holidays.addHoliday': 'Feiertag hinzufügen',
+  'admin.holidays.cancel': 'Abbrechen',
+  'admin.holidays.update': 'Kalender aktualisieren',
+
+  'admin.validation.title': 'Prüfregeln',
+  'admin.validation.loading': 'Prüfregeln werden geladen...',
+  'admin.validation.loadFailed': 'Prüfregeln konnten nicht geladen werden, Standardwerte werden angezeigt',
+  'admin.validation.cellAboveDay': 'Die Grenze pro Eintrag darf nicht höher als die Tagesgrenze sein',
+  'admin.validation.saveFailed': 'Prüfregeln konnten nicht gespeichert werden',
+  'admin.validation.saved': 'Prüfregeln erfolgreich aktualisiert',
+  'admin.validation.unexpectedError': 'Unerwarteter Fehler',
+  'admin.validation.cellMax': 'Höchststunden pro Eintrag *',
+  'admin.validation.cellMaxHelp': 'Größter erlaubter Wert in einer einzelnen Projekt-/Aktivitätszelle',
+  'admin.validation.dayMax': 'Höchststunden pro Tag *',
+  'admin.validation.dayMaxHelp': 'Grenze für die Summe aller Einträge eines Tages',
+  'admin.validation.warnWeekends': 'Bei Wochenendeinträgen warnen',
+  'admin.validation.warnWeekendsHelp': 'Einträge außerhalb der unter Arbeitswoche festgelegten Arbeitstage bleiben erlaubt, werden dem Mitarbeiter aber hervorgehoben. Negative Stunden werden immer abgelehnt.',
+  'admin.validation.reset': 'Auf Standardwerte zurücksetzen',
+  'admin.validation.saving': 'Wird gespeichert...',
+  'admin.validation.save': 'Regeln speichern',
+
+  'admin.workWeek.title': 'Arbeitswoche',
+  'admin.workWeek.loading': 'Arbeitswoche wird geladen...',
+  'admin.workWeek.loadFailed': 'Arbeitswoche konnte nicht geladen werden, Standardwerte werden angezeigt',
+  'admin.workWeek.noWorkingDays': 'Wählen Sie mindestens einen Arbeitstag aus',
+  'admin.workWeek.saveFailed': 'Arbeitswoche konnte nicht gespeichert werden',
+  'admin.workWeek.saved': 'Arbeitswoche erfolgreich aktualisiert',
+  'admin.workWeek.unexpectedError': 'Unerwarteter Fehler',
+  'admin.workWeek.weekStart': 'Erster Tag der Woche *',
+  'admin.workWeek.weekStartHelp': 'Legt die Spalten des Wochenrasters und das Startdatum beim Einreichen einer Woche fest. Bereits eingereichte Wochen behalten ihre ursprünglichen Daten.',
+  'admin.workWeek.workingDays': 'Arbeitstage *',
+  'admin.workWeek.workingDaysHelp': 'Andere Tage werden im Raster schattiert, und Einträge an diesen Tagen erhalten eine Wochenendwarnung, wenn diese Regel aktiv ist',
+  'admin.workWeek.reset': 'Auf Standardwerte zurücksetzen',
+  'admin.workWeek.saving': 'Wird gespeichert...',
+  'admin.workWeek.save': 'Arbeitswoche speichern',
+
+  'admin.projects.title': 'Projektverwaltung',
+  'admin.projects.loading': 'Projekte werden geladen...',
+  'admin.projects.loadFailed': 'Projekte konnten nicht geladen werden',
+  'admin.projects.assignmentsSaved': 'Benutzerzuordnungen erfolgreich aktualisiert',
+  'admin.projects.assignmentsFailed': 'Zuordnungen konnten nicht aktualisiert werden',
+  'admin.projects.saveFailed': 'Projekt konnte nicht gespeichert werden',
+  'admin.projects.created': 'Projekt erfolgreich angelegt',
+  'admin.projects.updated': 'Projekt erfolgreich aktualisiert',
+  'admin.projects.unexpectedError': 'Unerwarteter Fehler',
+  'admin.projects.deleteConfirm': '{name} löschen? Dadurch werden auch alle Benutzerzuordnungen entfernt.',
+  'admin.projects.deleteFailed': 'Projekt konnte nicht gelöscht werden',
+  'admin.projects.deleted': 'Projekt erfolgreich gelöscht',
+  'admin.projects.search': 'Projekte suchen...',
+  'admin.projects.add': 'Projekt hinzufügen',
+  'admin.projects.name': 'Name',
+  'admin.projects.billable': 'Abrechenbar',
+  'admin.projects.status': 'Status',
+  'admin.projects.activityTypes': 'Tätigkeitsarten',
+  'admin.projects.assignedUsers': 'Zugeordnete Benutzer',
+  'admin.projects.actions': 'Aktionen',
+  'admin.projects.yes': 'JA',
+  'admin.projects.no': 'NEIN',
+  'admin.projects.status.active': 'Aktiv',
+  'admin.projects.status.completed': 'Abgeschlossen',
+  'admin.projects.status.on_hold': 'Pausiert',
+  'admin.projects.status.cancelled': 'Abgebrochen',
+  'admin.projects.noActivities': 'Keine Tätigkeiten definiert',
+  'admin.projects.userCount': '{count} Benutzer',
+  'admin.projects.manageTitle': 'Benutzerzuordnungen verwalten',
+  'admin.projects.manage': 'Verwalten',
+  'admin.projects.edit': 'Bearbeiten',
+  'admin.projects.delete': 'Löschen',
+  'admin.projects.empty': 'Keine Projekte gefunden.',
+  'admin.projects.editTitle': 'Projekt bearbeiten',
+  'admin.projects.projectName': 'Projektname *',
+  'admin.projects.projectNamePlaceholder': 'z. B. Kunde A - Website-Relaunch',
+  'admin.projects.statusRequired': 'Status *',
+  'admin.projects.billableProject': 'Abrechenbares Projekt',
+  'admin.projects.activityHelp': 'Legen Sie fest, welche Tätigkeiten für dieses Projekt erfasst werden können',
+  'admin.projects.activityPlaceholder': 'z. B. Entwicklung, Test, Design',
+  'admin.projects.removeActivity': 'Entfernen',
+  'admin.projects.addActivity': 'Tätigkeitsart hinzufügen',
+  'admin.projects.addDefaultActivities': 'Standardtätigkeiten hinzufügen',
+  'admin.projects.cancel': 'Abbrechen',
+  'admin.projects.update': 'Projekt aktualisieren',
+  'admin.projects.assignmentsTitle': 'Benutzerzuordnungen verwalten - {name}',
+  'admin.projects.assignmentsPrompt': 'Wählen Sie die Benutzer aus, die für dieses Projekt Zeit erfassen dürfen:',
+  'admin.projects.selectAll': 'Alle auswählen',
+  'admin.projects.deselectAll': 'Auswahl aufheben',
+  'admin.projects.noActiveUsers': 'Keine aktiven Benutzer gefunden',
+  'admin.projects.selectedCount': 'Ausgewählt: {count} von {total} aktiven Benutzern',
+  'admin.projects.saving': 'Wird gespeichert...',
+  'admin.projects.saveAssignments': 'Zuordnungen speichern',
+
+  'admin.users.title': 'Benutzerverwaltung',
+  'admin.users.loading': 'Benutzer werden geladen...',
+  'admin.users.adminRequired': 'Zum Anzeigen der Benutzer sind Administratorrechte erforderlich',
+  'admin.users.fetchFailed': 'Benutzer konnten nicht abgerufen werden',
+  'admin.users.loadFailed': 'Benutzer konnten nicht geladen werden: {error}',
+  'admin.users.unknownError': 'Unbekannter Fehler',
+  'admin.users.passwordMismatch': 'Die Passwörter stimmen nicht überein',
+  'admin.users.passwordTooShort': 'Das Passwort muss mindestens 8 Zeichen lang sein',
+  'admin.users.updatedWithPassword': 'Benutzer und Passwort erfolgreich aktualisiert',
+  'admin.users.passwordUpdateFailed': 'Benutzer erfolgreich aktualisiert, aber das Passwort konnte nicht geändert werden',
+  'admin.users.updateFailed': 'Benutzer konnte nicht aktualisiert werden',
+  'admin.users.updated': 'Benutzer erfolgreich aktualisiert',
+  'admin.users.created': 'Benutzer erfolgreich angelegt',
+  'admin.users.createFailed': 'Benutzer konnte nicht angelegt werden',
+  'admin.users.unexpectedError': 'Ein unerwarteter Fehler ist aufgetreten',
+  'admin.users.cannotDeleteSelf': 'Sie können Ihr eigenes Konto nicht löschen',
+  'admin.users.deleteConfirm': 'Möchten Sie {name} wirklich löschen? Dies kann nicht rückgängig gemacht werden.',
+  'admin.users.deleted': 'Benutzer erfolgreich gelöscht',
+  'admin.users.deleteFailed': 'Benutzer konnte nicht gelöscht werden: {error}',
+  'admin.users.deactivateConfirm': 'Möchten Sie {name} wirklich deaktivieren?',
+  'admin.users.activateConfirm': 'Möchten Sie {name} wirklich aktivieren?',
+  'admin.users.deactivated': 'Benutzer erfolgreich deaktiviert',
+  'admin.users.activated': 'Benutzer erfolgreich aktiviert',
+  'admin.users.deactivateFailed': 'Benutzer konnte nicht deaktiviert werden: {error}',
+  'admin.users.activateFailed': 'Benutzer konnte nicht aktiviert werden: {error}',
+  'admin.users.search': 'Benutzer suchen...',
+  'admin.users.add': 'Benutzer hinzufügen',
+  'admin.users.name': 'Name',
+  'admin.users.email': 'E-Mail',
+  'admin.users.designation': 'Position',
+  'admin.users.company': 'Firma',
+  'admin.users.actions': 'Aktionen',
+  'admin.users.designation.employee': 'Mitarbeiter',
+  'admin.users.designation.senior_employee': 'Senior-Mitarbeiter',
+  'admin.users.designation.team_lead': 'Teamleitung',
+  'admin.users.designation.manager': 'Manager',
+  'admin.users.designation.senior_manager': 'Senior Manager',
+  'admin.users.designation.director': 'Direktor',
+  'admin.users.edit': 'Bearbeiten',
+  'admin.users.deactivate': 'Deaktivieren',
+  'admin.users.activate': 'Aktivieren',
+  'admin.users.delete': 'Löschen',
+  'admin.users.deleteSelfTitle': 'Sie können sich nicht selbst löschen',
+  'admin.users.deleteTitle': 'Benutzer löschen',
+  'admin.users.noMatches': 'Keine Benutzer passend zur Suche gefunden.',
+  'admin.users.empty': 'Keine Benutzer gefunden.',
+  'admin.users.editTitle': 'Benutzer bearbeiten',
+  'admin.users.firstName': 'Vorname *',
+  'admin.users.firstNamePlaceholder': 'Vornamen eingeben',
+  'admin.users.lastName': 'Nachname *',
+  'admin.users.lastNamePlaceholder': 'Nachnamen eingeben',
+  'admin.users.emailAddress': 'E-Mail-Adresse *',
+  'admin.users.emailPlaceholder': 'E-Mail-Adresse eingeben',
+  'admin.users.emailLocked': 'Die E-Mail-Adresse kann nach dem Anlegen nicht mehr geändert werden',
+  'admin.users.password': 'Passwort *',
+  'admin.users.passwordPlaceholder': 'Passwort eingeben (mind. 8 Zeichen)',
+  'admin.users.designationRequired': 'Position *',
+  'admin.users.companyPlaceholder': 'Firmenname',
+  'admin.users.contractedHours': 'Vertragliche Wochenstunden *',
+  'admin.users.contractedHoursHelp': 'Feiertage und genehmigter Urlaub werden davon jede Woche abgezogen',
+  'admin.users.permissions': 'Berechtigungen',
+  'admin.users.activeUser': 'Aktiver Benutzer',
+  'admin.users.staffAccess': 'Mitarbeiterzugang',
+  'admin.users.adminAccess': 'Administratorzugang',
+  'admin.users.changePassword': 'Passwort ändern',
+  'admin.users.newPassword': 'Neues Passwort *',
+  'admin.users.newPasswordPlaceholder': 'Neues Passwort eingeben (mind. 8 Zeichen)',
+  'admin.users.confirmPassword': 'Neues Passwort bestätigen *',
+  'admin.users.confirmPasswordPlaceholder': 'Neues Passwort bestätigen',
+  'admin.users.cancel': 'Abbrechen',
+  'admin.users.update': 'Benutzer aktualisieren',
+  'admin.users.create': 'Benutzer anlegen',
+
+  'settings.title': 'Einstellungen',
+  'settings.back': '‹ Zurück zur Zeiterfassung',
+  'settings.loading': 'Einstellungen werden geladen...',
+  'settings.loginTitle': 'Bitte melden Sie sich an',
+  'settings.loginPrompt': 'Sie müssen angemeldet sein, um Ihre Einstellungen zu sehen.',
+  'settings.goToLogin': 'Zur Anmeldung',
+  'settings.loadFailed': 'Einstellungen konnten nicht geladen werden. Bitte laden Sie die Seite neu.',
+  'settings.templatesLoadFailed': 'Vorlagen konnten nicht geladen werden',
+  'settings.preferences': 'Präferenzen',
+  'settings.preferencesSaved': 'Präferenzen gespeichert',
+  'settings.preferencesSaveFailed': 'Präferenzen konnten nicht gespeichert werden',
+  'settings.rounding': 'Stunden runden auf',
+  'settings.roundingHelp': 'Stunden können als 1,5, 1:45, 1h45m oder 90m eingegeben werden und werden vor dem Speichern gerundet.',
+  'settings.templates': 'Zeilenvorlagen',
+  'settings.newTemplate': 'Neue Vorlage',
+  'settings.templatesHelp': 'Vorlagen enthalten Projekt-/Aktivitätszeilen mit optionalen Standardstunden und können in der Zeiterfassung auf jede Woche angewendet werden.',
+  'settings.name': 'Name',
+  'settings.rows': 'Zeilen',
+  'settings.status': 'Status',
+  'settings.actions': 'Aktionen',
+  'settings.notAssigned': 'Nicht zugewiesen: {projects}',
+  'settings.ok': 'OK',
+  'settings.edit': 'Bearbeiten',
+  'settings.delete': 'Löschen',
+  'settings.noTemplates': 'Noch keine Vorlagen.',
+  'settings.templateName': 'Name der Vorlage',
+  'settings.templateNamePlaceholder': 'z. B. Sprintwoche',
+  'settings.project': 'Projekt',
+  'settings.activity': 'Aktivität',
+  'settings.selectProject': 'Projekt auswählen',
+  'settings.selectActivity': 'Aktivität auswählen',
+  'settings.noLongerAssigned': 'Nicht mehr zugewiesen',
+  'settings.removeRow': 'Entfernen',
+  'settings.addRow': 'Zeile hinzufügen',
+  'settings.cancel': 'Abbrechen',
+  'settings.saving': 'Wird gespeichert...',
+  'settings.updateTemplate': 'Vorlage aktualisieren',
+  'settings.createTemplate': 'Vorlage anlegen',
+  'settings.nameRequired': 'Bitte geben Sie einen Namen für die Vorlage ein',
+  'settings.rowIncomplete': 'Wählen Sie für jede Zeile ein Projekt und eine Aktivität aus',
+  'settings.rowDuplicate': 'Jede Kombination aus Projekt und Aktivität darf nur einmal vorkommen',
+  'settings.hoursRange': 'Standardstunden müssen zwischen 0 und 24 liegen, z. B. 7,5, 7:30 oder 7h30m',
+  'settings.templateSaveFailed': 'Vorlage konnte nicht gespeichert werden',
+  'settings.templateCreated': 'Vorlage "{name}" angelegt',
+  'settings.templateUpdated': 'Vorlage "{name}" aktualisiert',
+  'settings.deleteConfirm': 'Vorlage "{name}" löschen?',
+  'settings.templateDeleted': 'Vorlage gelöscht',
+  'settings.templateDeleteFailed': 'Vorlage konnte nicht gelöscht werden',
+  'settings.language': 'Sprache und Formate',
+  'settings.languageHelp': 'Bestimmt die Sprache der Oberfläche und die Darstellung von Datum und Zahlen.'
+};
+
+export default de;
@@ -0,0 +1,730 @@
+// English UI strings. Keys are grouped by the screen they appear on; {name} marks a value filled in at runtime.
+
+const en = {
+  'nav.settings': 'Settings',
+  'nav.settingsTitle': 'Manage row templates and preferences',
+  'nav.leave': 'Leave',
+  'nav.leaveTitle': 'Request leave and see its status',
+  'nav.reports': 'My Reports',
+  'nav.reportsTitle': 'See your hours by project and over time',
+  'nav.adminPanel': 'Admin Panel',
+  'nav.adminPanelTitle': 'Access admin dashboard',
+  'nav.welcome': 'Welcome, {name}',
+  'nav.loggedInAs': 'logged in as : {email}',
+  'nav.logout': 'Logout',
+  'nav.logoutConfirm': 'Are you sure you want to logout?',
+
+  'auth.signInTitle': 'Sign in to your account',
+  'auth.registerTitle': 'Create your account',
+  'auth.email': 'Email Address',
+  'auth.emailPlaceholder': 'Enter your email',
+  'auth.password': 'Password',
+  'auth.passwordPlaceholder': 'Enter your password',
+  'auth.newPasswordPlaceholder': 'Enter password (min 8 characters)',
+  'auth.confirmPassword': 'Confirm Password',
+  'auth.confirmPasswordPlaceholder': 'Confirm your password',
+  'auth.firstName': 'First Name',
+  'auth.firstNamePlaceholder': 'Enter first name',
+  'auth.lastName': 'Last Name',
+  'auth.lastNamePlaceholder': 'Enter last name',
+  'auth.signIn': 'Sign In',
+  'auth.signingIn': 'Signing In...',
+  'auth.createAccount': 'Create Account',
+  'auth.creatingAccount': 'Creating Account...',
+  'auth.noAccount': 'Don\'t have an account?',
+  'auth.createOne': 'Create one here',
+  'auth.haveAccount': 'Already have an account?',
+  'auth.signInHere': 'Sign in here',
+  'auth.loginFailed': 'Login failed',
+  'auth.unexpectedError': 'An unexpected error occurred',
+  'auth.passwordMismatch': 'Passwords don\'t match',
+  'auth.passwordTooShort': 'Password must be at least 8 characters long',
+  'auth.registered': 'Account created successfully! You can now sign in.',
+  'auth.emailError': 'Email: {error}',
+  'auth.passwordError': 'Password: {error}',
+  'auth.registerFailed': 'Registration failed. Please try again.',
+  'auth.networkError': 'Network error. Please check if the backend server is running.',
+
+  'week.title': 'Timesheet - {week}',
+  'week.previous': '‹ Previous Week',
+  'week.next': 'Next Week ›',
+  'week.thisWeek': 'This Week',
+  'week.monthView': 'Month View',
+  'week.outstanding': 'Outstanding Weeks',
+  'week.jumpToDate': 'Jump to the week containing a date',
+  'week.progress': '{logged} / {required}',
+  'week.remaining': ', {hours} remaining',
+  'week.requirementMet': ', requirement met',
+
+  'month.previous': '‹ Previous Month',
+  'month.next': 'Next Month ›',
+  'month.weekView': 'Week View',
+  'month.week': 'Week',
+  'month.openWeek': 'Open this week',
+  'month.loadFailed': 'Failed to load timesheets for this month',
+  'month.project': 'Project',
+  'month.hours': 'Hours',
+  'month.share': 'Share',
+  'month.total': 'Month Total',
+  'month.empty': 'No hours logged this month.',
+  'month.status.missing': 'Missing',
+  'month.status.draft': 'Draft',
+  'month.status.submitted': 'Submitted',
+  'month.status.approved': 'Approved',
+  'month.status.rejected': 'Rejected',
+
+  'grid.legend.empty': 'Empty',
+  'grid.legend.draft': 'Draft',
+  'grid.legend.submitted': 'Submitted (Locked)',
+  'grid.legend.approved': 'Approved',
+  'grid.legend.rejected': 'Rejected',
+  'grid.legend.pendingSync': 'Pending Sync',
+  'grid.legend.holiday': 'Public Holiday',
+  'grid.legend.nonWorking': 'Non-working Day',
+  'grid.legend.leave': 'Approved Leave',
+  'grid.legend.note': 'Has Note',
+  'grid.project': 'Project',
+  'grid.activity': 'Activity',
+  'grid.total': 'Total',
+  'grid.empty': 'No timesheets for this week. Click "Add Project Activity" to get started.',
+  'grid.removeRow': 'Remove row from this week',
+  'grid.removeRowSaving': 'Wait for this row to finish saving before removing it',
+  'grid.removeRowLocked': 'Rows with submitted entries cannot be removed',
+  'grid.addNote': 'Add note',
+  'grid.rejectedNotice': 'Your manager rejected entries in this week. Update them and submit the week again.',
+  'grid.rejectedReason': 'Rejected: {reason}',
+  'grid.subtotal': '{project} subtotal',
+  'grid.billable': 'Billable',
+  'grid.nonBillable': 'Non-billable',
+  'grid.leave': 'Leave',
+  'grid.leaveCell': 'Approved leave - managed from the Leave page. It lowers the hours required this week rather than counting as logged time.',
+  'grid.dailyTotals': 'Daily Totals',
+  'grid.totalHours': 'Total Hours:',
+  'grid.submitting': 'Submitting...',
+  'grid.saving': 'Saving... ({count})',
+  'grid.saveFirst': 'Save changes first',
+  'grid.fixErrors': 'Fix errors first',
+  'grid.submitWeek': 'Submit Week',
+
+  'timer.title': 'Timer',
+  'timer.selectProject': 'Select Project',
+  'timer.selectActivity': 'Select Activity',
+  'timer.start': 'Start',
+  'timer.stop': 'Stop',
+  'timer.discard': 'Discard',
+  'timer.saving': 'Saving...',
+  'timer.forgotten': 'Started {started} - this timer looks forgotten. Enter the hours to log for {date}:',
+  'timer.hoursPlaceholder': 'e.g. 7:30',
+  'timer.invalidHours': 'Enter between 0 and 24 hours, like 7.5, 7:30 or 7h30m',
+  'timer.logHours': 'Log Hours',
+
+  'recall.prompt': 'This week has been submitted but not approved yet. Recall it to make changes.',
+  'recall.button': 'Recall submission',
+  'recall.reasonPlaceholder': 'What needs changing? e.g., Typo in Tuesday hours',
+  'recall.confirm': 'Recall',
+  'recall.recalling': 'Recalling...',
+  'recall.cancel': 'Cancel',
+  'recall.pending': 'Recall requested on {date}. Your manager needs to approve it before the week can be edited.',
+  'recall.history': 'Recall history ({count})',
+  'recall.historyItem': '{date}: {name} recalled {count} entries - {status}',
+  'recall.status.completed': 'reverted to draft',
+  'recall.status.pending': 'waiting for manager',
+  'recall.status.declined': 'declined',
+
+  'timesheet.loading': 'Loading your timesheet...',
+  'timesheet.loginTitle': 'Please log in',
+  'timesheet.loginPrompt': 'You need to be logged in to access your timesheet.',
+  'timesheet.goToLogin': 'Go to Login',
+  'timesheet.unknownError': 'Unknown error',
+  'timesheet.loadUserFailed': 'Failed to load user data',
+  'timesheet.loadFailed': 'Failed to load data. Please try refreshing the page.',
+  'timesheet.contracted': 'Contracted {hours}',
+  'timesheet.contractedMinus': 'Contracted {hours} minus {deductions}',
+  'timesheet.holidayDeduction': '{hours} holidays',
+  'timesheet.leaveDeduction': '{hours} leave',
+  'timesheet.deductionSeparator': ' and ',
+  'timesheet.synced': 'Synced {count} offline change(s)',
+  'timesheet.offlineStoreFailed': 'Save failed: you are offline and some changes could not be stored',
+  'timesheet.offlineQueued': 'Offline - {count} change(s) saved locally and will sync when you reconnect',
+  'timesheet.saveFailedWithError': 'Failed to save: {error}',
+  'timesheet.saveFailed': 'Save failed: {error}',
+  'timesheet.saved': 'Saved {count} change(s)',
+  'timesheet.savedPartial': 'Saved {count} change(s), {failed} failed',
+  'timesheet.savedPartialWithError': 'Saved {count} change(s), {failed} failed: {error}',
+  'timesheet.keptMine': 'Kept your offline value',
+  'timesheet.keptServer': 'Kept the server value',
+  'timesheet.conflictFailed': 'Conflict resolution failed: {error}',
+  'timesheet.undid': 'Undid {label}',
+  'timesheet.redid': 'Redid {label}',
+  'timesheet.undidPartial': 'Undid {label}; {count} cell(s) could not be restored',
+  'timesheet.redidPartial': 'Redid {label}; {count} cell(s) could not be restored',
+  'timesheet.undoFailed': 'Undo failed: {error}',
+  'timesheet.redoFailed': 'Redo failed: {error}',
+  'timesheet.pasteNothing': 'Nothing pasted ({count} cell(s) skipped)',
+  'timesheet.pastePartial': 'Pasted {count} cell(s), {skipped} skipped',
+  'timesheet.noteNeedsHours': 'Enter hours before adding a note',
+  'timesheet.locked': 'Cannot edit submitted timesheet',
+  'timesheet.rowAdded': 'Added {project} - {activity} row',
+  'timesheet.rowSaving': 'Wait for this row to finish saving before removing it',
+  'timesheet.rowLocked': 'Cannot remove a row with submitted timesheets',
+  'timesheet.removeRowConfirm': 'Remove {project} - {activity} and delete its {count} draft entries for this week?',
+  'timesheet.removeRowFailed': 'Failed to remove row: {error}',
+  'timesheet.removeFailed': 'Remove failed: {error}',
+  'timesheet.rowRemoved': 'Removed {project} - {activity} row',
+  'timesheet.timerTooShort': 'Too little time tracked to log',
+  'timesheet.projectNotFound': 'Project "{name}" not found',
+  'timesheet.timerOverLimit': 'Cannot log timer: {detail}',
+  'timesheet.timerLogged': 'Logged {hours} to {project} - {activity} on {date}',
+  'timesheet.copyLoadFailed': 'Failed to load previous week: {error}',
+  'timesheet.copyEmpty': 'No timesheets found in the previous week',
+  'timesheet.copiedRows': 'Copied {count} row(s) from the previous week',
+  'timesheet.copied': 'Copied {count} entries from the previous week',
+  'timesheet.copiedSkipped': 'Copied {count} entries from the previous week ({skipped} skipped)',
+  'timesheet.copiedOverLimit': 'Copied {count} entries from the previous week; {overLimit} would exceed the hour limits and were skipped',
+  'timesheet.templateApplied': 'Applied "{name}": {rows} row(s), {count} entries',
+  'timesheet.templateSkipped': '{count} entries skipped',
+  'timesheet.templateOverLimit': '{count} entries over the hour limits skipped',
+  'timesheet.templateUnassigned': 'skipped unassigned {projects}',
+  'timesheet.noDrafts': 'No draft timesheets to submit',
+  'timesheet.submitted': 'Week submitted successfully! {count} timesheets processed. (Total: {total})',
+  'timesheet.submittedWithWarnings': 'Week submitted with warnings! {count} timesheets processed. (Total: {total})',
+  'timesheet.submitFailed': 'Submission failed: {error}',
+  'timesheet.recalled': 'Week recalled: {count} entries are drafts again',
+  'timesheet.recallRequested': 'Recall requested - your manager needs to approve it',
+  'timesheet.recallFailed': 'Recall failed: {error}',
+  'timesheet.history.edit': 'edit of {project} - {activity} on {date}',
+  'timesheet.history.editMany': 'edit of {count} cells',
+  'timesheet.history.note': 'note on {project} - {activity} on {date}',
+  'timesheet.history.timer': 'timer on {project} - {activity}',
+  'timesheet.history.removal': 'removal of {project} - {activity}',
+  'timesheet.history.copyWeek': 'copy of the previous week',
+  'timesheet.history.template': 'template "{name}"',
+
+  'copyWeek.button': 'Copy Previous Week',
+  'copyWeek.rowsOnly': 'Rows only',
+  'copyWeek.rowsWithHours': 'Rows with hours',
+  'copyWeek.copy': 'Copy',
+  'copyWeek.copying': 'Copying...',
+  'copyWeek.cancel': 'Cancel',
+
+  'applyTemplate.button': 'Apply Template',
+  'applyTemplate.select': 'Select Template',
+  'applyTemplate.apply': 'Apply',
+  'applyTemplate.applying': 'Applying...',
+  'applyTemplate.cancel': 'Cancel',
+  'applyTemplate.create': 'Create a template in Settings',
+  'applyTemplate.unavailable': '{count} row(s) will be skipped because you are no longer assigned to: {projects}',
+
+  'addRow.button': 'Add Project Activity',
+  'addRow.selectProject': 'Select Project',
+  'addRow.selectActivity': 'Select Activity',
+  'addRow.add': 'Add Row',
+  'addRow.cancel': 'Cancel',
+  'addRow.selectBoth': 'Please select both project and activity',
+  'addRow.exists': 'This project-activity combination already exists',
+
+  'saveIndicator.saving': 'Saving {count} change(s)...',
+  'saveIndicator.saveNow': 'Save now',
+
+  'history.undo': '↶ Undo',
+  'history.redo': '↷ Redo',
+  'history.undoTitle': 'Undo {label} (Ctrl+Z)',
+  'history.redoTitle': 'Redo {label} (Ctrl+Shift+Z)',
+  'history.nothingToUndo': 'Nothing to undo',
+  'history.nothingToRedo': 'Nothing to redo',
+
+  'note.placeholder': 'What were these hours spent on?',
+  'note.close': 'Close',
+  'note.cancel': 'Cancel',
+  'note.save': 'Save Note',
+
+  'conflicts.title': '{count} offline change(s) conflict with the server',
+  'conflicts.detail': 'on {date}: your offline value {mine}, server has {server}',
+  'conflicts.emptyValue': 'empty',
+  'conflicts.rejected': '(the server rejected it: {error})',
+  'conflicts.submitted': '(entry has been submitted)',
+  'conflicts.changed': '(changed on the server while you were offline)',
+  'conflicts.keepMine': 'Keep Mine',
+  'conflicts.retryMine': 'Retry Mine',
+  'conflicts.keepServer': 'Keep Server',
+  'conflicts.discardMine': 'Discard Mine',
+
+  'submit.reviewTitle': 'Review week before submitting',
+  'submit.warningsTitle': 'Submission warnings',
+  'submit.totalOnly': 'Total this week: {total}',
+  'submit.totalAgainstRequirement': 'Total this week: {total} of {required} required',
+  'submit.shortfall': 'You need {hours} more to meet this week\'s requirement before submitting.',
+  'submit.showDay': 'Highlight this day in the breakdown',
+  'submit.confirm': 'Submit {count} entries',
+  'submit.backToEditing': 'Back to editing',
+  'submit.submitAnyway': 'Submit anyway ({count} warnings)',
+  'submit.cancel': 'Cancel',
+
+  'outstanding.title': 'My Outstanding Weeks',
+  'outstanding.summary': '{count} of the last {weeks} weeks still need attention',
+  'outstanding.range': 'How many weeks to look back',
+  'outstanding.lastWeeks': 'Last {count} weeks',
+  'outstanding.onlyOutstanding': 'Only outstanding',
+  'outstanding.status': 'Status',
+  'outstanding.logged': 'Logged',
+  'outstanding.shortfall': 'Shortfall',
+  'outstanding.loading': 'Loading weeks...',
+  'outstanding.empty': 'Nothing outstanding - every week in this range is submitted.',
+  'outstanding.loadFailed': 'Failed to load your recent weeks',
+
+  'reports.loginTitle': 'Please log in',
+  'reports.loginPrompt': 'You need to be logged in to see your reports.',
+  'reports.goToLogin': 'Go to Login',
+  'reports.title': 'My Reports',
+  'reports.back': '‹ Back to Timesheet',
+  'reports.loading': 'Loading reports...',
+  'reports.loadFailed': 'Failed to load your timesheets for this range',
+  'reports.from': 'From',
+  'reports.to': 'To',
+  'reports.preset.thisMonth': 'This Month',
+  'reports.preset.lastThreeMonths': 'Last 3 Months',
+  'reports.preset.thisYear': 'This Year',
+  'reports.rangeInvalid': 'Choose a start date on or before the end date.',
+  'reports.rangeTooLong': 'Choose a range of at most {days} days.',
+  'reports.totalHours': 'Total hours',
+  'reports.averagePerWorkingDay': 'Average per working day',
+  'reports.workingDays': '{count} working days in range',
+  'reports.averagePerLoggedDay': 'Average per day logged',
+  'reports.loggedDays': '{count} days with hours',
+  'reports.billableSplit': 'Billable vs non-billable',
+  'reports.weeklyTrend': 'Hours per week',
+  'reports.byProject': 'Hours by project and activity',
+  'reports.activity': 'Activity',
+  'reports.allActivities': 'All activities',
+  'reports.empty': 'No hours logged in this range.',
+
+  'validation.invalid': 'Invalid',
+  'validation.invalidDetail': 'Enter hours like 1.5, 1:45, 1h45m or 90m',
+  'validation.negative': 'Negative',
+  'validation.negativeDetail': 'Hours cannot be negative',
+  'validation.cellMax': 'Max {hours}',
+  'validation.cellMaxDetail': 'A single entry cannot exceed {hours}',
+  'validation.dayMax': 'Over {hours}',
+  'validation.dayMaxDetail': 'Daily total cannot exceed {hours}',
+  'validation.holiday': 'Holiday',
+  'validation.holidayDetail': 'This entry falls on {name}',
+  'validation.weekend': 'Weekend',
+  'validation.weekendDetail': 'This entry falls on a weekend',
+
+  'rounding.none': 'No rounding',
+  'rounding.tenth': 'Nearest 0.1 hour (6 min)',
+  'rounding.quarter': 'Nearest 0.25 hour (15 min)',
+  'rounding.half': 'Nearest 0.5 hour (30 min)',
+
+  'leaveType.annual': 'Annual Leave',
+  'leaveType.sick': 'Sick Leave',
+  'leaveType.unpaid': 'Unpaid Leave',
+  'leaveType.other': 'Other Leave',
+
+  'leaveDuration.full_day': 'Full day',
+  'leaveDuration.half_day': 'Half day',
+
+  'leaveStatus.pending': 'Pending',
+  'leaveStatus.approved': 'Approved',
+  'leaveStatus.rejected': 'Rejected',
+  'leaveStatus.cancelled': 'Cancelled',
+
+  'leave.title': 'Leave',
+  'leave.back': '‹ Back to Timesheet',
+  'leave.loading': 'Loading leave...',
+  'leave.loginTitle': 'Please log in',
+  'leave.loginPrompt': 'You need to be logged in to request leave.',
+  'leave.goToLogin': 'Go to Login',
+  'leave.loadFailed': 'Failed to load leave. Please try refreshing the page.',
+  'leave.requestsLoadFailed': 'Failed to load leave requests',
+  'leave.requestTitle': 'Request Leave',
+  'leave.requestHelp': 'Approved leave shows on your timesheet and reduces the hours you need to log that week.',
+  'leave.type': 'Type',
+  'leave.from': 'From',
+  'leave.to': 'To',
+  'leave.duration': 'Duration',
+  'leave.reason': 'Reason (optional)',
+  'leave.reasonPlaceholder': 'e.g., Family holiday',
+  'leave.submit': 'Request Leave',
+  'leave.submitting': 'Submitting...',
+  'leave.endBeforeStart': 'The end date must be on or after the start date',
+  'leave.requestFailed': 'Failed to request leave',
+  'leave.requested': 'Leave requested - your manager will review it',
+  'leave.cancelConfirm': 'Cancel your {type} request from {date}?',
+  'leave.cancelFailed': 'Failed to cancel leave request',
+  'leave.cancelled': 'Leave request cancelled',
+  'leave.myRequests': 'My Requests',
+  'leave.dates': 'Dates',
+  'leave.status': 'Status',
+  'leave.actions': 'Actions',
+  'leave.dateRange': '{from} to {to}',
+  'leave.cancel': 'Cancel',
+  'leave.empty': 'No leave requests yet.',
+
+  'admin.nav.title': 'Admin Panel',
+  'admin.nav.dashboard': 'Dashboard',
+  'admin.nav.users': 'Users',
+  'admin.nav.projects': 'Projects',
+  'admin.nav.approvals': 'Approvals',
+  'admin.nav.holidays': 'Holidays',
+  'admin.nav.leave': 'Leave Requests',
+  'admin.nav.validation': 'Validation Rules',
+  'admin.nav.workWeek': 'Work Week',
+  'admin.nav.back': '← Back to Employee View',
+  'admin.nav.checkingAccess': 'Checking admin access...',
+  'admin.nav.accessDenied': 'Access denied. Admin privileges required. Your role: {role}',
+  'admin.nav.currentUser': 'Current User',
+  'admin.nav.name': 'Name:',
+  'admin.nav.email': 'Email:',
+  'admin.nav.role': 'Role:',
+  'admin.nav.admin': 'Admin:',
+  'admin.nav.yes': 'Yes',
+  'admin.nav.no': 'No',
+
+  'admin.dashboard.title': 'Timesheet Dashboard',
+  'admin.dashboard.loadingUser': 'Loading user information...',
+  'admin.dashboard.projectsLoadFailed': 'Failed to load projects',
+  'admin.dashboard.timesheetsLoadFailed': 'Failed to load project timesheets',
+  'admin.dashboard.filters': 'Select Project and Date Range',
+  'admin.dashboard.project': 'Project:',
+  'admin.dashboard.selectProject': 'Select a project...',
+  'admin.dashboard.dateFrom': 'Date From:',
+  'admin.dashboard.dateTo': 'Date To:',
+  'admin.dashboard.dateRange': 'Date Range:',
+  'admin.dashboard.loading': 'Loading dashboard data...',
+  'admin.dashboard.submittedOnly': 'Submitted timesheets for the selected period',
+  'admin.dashboard.employee': 'Employee Name',
+  'admin.dashboard.totalHours': 'Total Hours',
+  'admin.dashboard.total': 'Total',
+  'admin.dashboard.totalEmployees': 'Total Employees',
+  'admin.dashboard.totalActivities': 'Total Activities',
+  'admin.dashboard.averageHours': 'Average Hours/Employee',
+  'admin.dashboard.selectTitle': 'Select a Project',
+  'admin.dashboard.selectHelp': 'Choose a project from the dropdown above to view the timesheet summary.',
+  'admin.dashboard.emptyTitle': 'No Data Found',
+  'admin.dashboard.empty': 'No submitted timesheet entries found for the selected project and date range.',
+  'admin.dashboard.emptyHelp': 'Ensure employees have submitted their timesheets for this project and period.',
+
+  'admin.approvals.title': 'Timesheet Approvals',
+  'admin.approvals.loading': 'Loading submitted weeks...',
+  'admin.approvals.weeksLoadFailed': 'Failed to load submitted weeks',
+  'admin.approvals.recallsLoadFailed': 'Failed to load recall requests',
+  'admin.approvals.approveFailed': 'Failed to approve week',
+  'admin.approvals.rejectFailed': 'Failed to reject week',
+  'admin.approvals.approved': 'Week of {date} for {name} approved',
+  'admin.approvals.rejected': 'Week of {date} for {name} rejected',
+  'admin.approvals.recallApproveFailed': 'Failed to approve recall request',
+  'admin.approvals.recallDeclineFailed': 'Failed to decline recall request',
+  'admin.approvals.recallApproved': 'Recall for {name} approved',
+  'admin.approvals.recallDeclined': 'Recall for {name} declined',
+  'admin.approvals.unexpectedError': 'Unexpected error',
+  'admin.approvals.recallRequests': 'Recall Requests',
+  'admin.approvals.employee': 'Employee',
+  'admin.approvals.week': 'Week',
+  'admin.approvals.entries': 'Entries',
+  'admin.approvals.reason': 'Reason',
+  'admin.approvals.requested': 'Requested',
+  'admin.approvals.actions': 'Actions',
+  'admin.approvals.allow': 'Allow',
+  'admin.approvals.decline': 'Decline',
+  'admin.approvals.search': 'Search by employee...',
+  'admin.approvals.filter.submitted': 'Awaiting approval',
+  'admin.approvals.filter.approved': 'Approved',
+  'admin.approvals.filter.rejected': 'Rejected',
+  'admin.approvals.hours': 'Hours',
+  'admin.approvals.projects': 'Projects',
+  'admin.approvals.submitted': 'Submitted',
+  'admin.approvals.weekRange': '{from} to {to}',
+  'admin.approvals.projectHours': '{name} ({hours})',
+  'admin.approvals.reviewedBy': 'Reviewed by {name}',
+  'admin.approvals.approve': 'Approve',
+  'admin.approvals.reject': 'Reject',
+  'admin.approvals.empty': 'No weeks found.',
+  'admin.approvals.rejectTitle': 'Reject Week',
+  'admin.approvals.rejectSummary': '{name} - week of {date}, {hours}',
+  'admin.approvals.rejectReason': 'Reason for rejection *',
+  'admin.approvals.rejectPlaceholder': 'e.g., Client X hours on Tuesday should be on the support project',
+  'admin.approvals.rejectHelp': 'The week\'s entries become editable again and the employee sees this reason on their timesheet',
+  'admin.approvals.cancel': 'Cancel',
+
+  'admin.leave.title': 'Leave Requests',
+  'admin.leave.loading': 'Loading leave requests...',
+  'admin.leave.loadFailed': 'Failed to load leave requests',
+  'admin.leave.approveFailed': 'Failed to approve leave request',
+  'admin.leave.rejectFailed': 'Failed to reject leave request',
+  'admin.leave.approved': 'Leave for {name} approved',
+  'admin.leave.rejected': 'Leave for {name} rejected',
+  'admin.leave.unexpectedError': 'Unexpected error',
+  'admin.leave.search': 'Search by employee...',
+  'admin.leave.all': 'All',
+  'admin.leave.employee': 'Employee',
+  'admin.leave.type': 'Type',
+  'admin.leave.dates': 'Dates',
+  'admin.leave.reason': 'Reason',
+  'admin.leave.status': 'Status',
+  'admin.leave.actions': 'Actions',
+  'admin.leave.dateRange': '{from} to {to}',
+  'admin.leave.halfDay': '{dates} (half day)',
+  'admin.leave.reviewedBy': 'by {name}',
+  'admin.leave.approve': 'Approve',
+  'admin.leave.reject': 'Reject',
+  'admin.leave.empty': 'No leave requests found.',
+  'admin.leave.rejectTitle': 'Reject Leave',
+  'admin.leave.rejectReason': 'Reason for rejection *',
+  'admin.leave.rejectPlaceholder': 'e.g., Team is short-staffed that week',
+  'admin.leave.rejectHelp': 'The employee sees this note next to their request',
+  'admin.leave.cancel': 'Cancel',
+
+  'admin.holidays.title': 'Holiday Calendars',
+  'admin.holidays.loading': 'Loading holiday calendars...',
+  'admin.holidays.loadFailed': 'Failed to load holiday calendars',
+  'admin.holidays.duplicateDate': 'Each date can only appear once in a calendar',
+  'admin.holidays.saveFailed': 'Failed to save holiday calendar',
+  'admin.holidays.created': 'Calendar created successfully',
+  'admin.holidays.updated': 'Calendar updated successfully',
+  'admin.holidays.unexpectedError': 'Unexpected error',
+  'admin.holidays.deleteConfirm': 'Delete {name}? Its holidays will no longer reduce expected hours.',
+  'admin.holidays.deleteFailed': 'Failed to delete holiday calendar',
+  'admin.holidays.deleted': 'Calendar deleted successfully',
+  'admin.holidays.search': 'Search calendars...',
+  'admin.holidays.add': 'Add Calendar',
+  'admin.holidays.edit': 'Edit Calendar',
+  'admin.holidays.name': 'Name',
+  'admin.holidays.company': 'Company',
+  'admin.holidays.location': 'Location',
+  'admin.holidays.upcoming': 'Upcoming Holidays',
+  'admin.holidays.actions': 'Actions',
+  'admin.holidays.allCompanies': 'All companies',
+  'admin.holidays.allLocations': 'All locations',
+  'admin.holidays.holidayItem': '{name} ({date})',
+  'admin.holidays.more': '{holidays} and {count} more',
+  'admin.holidays.noUpcoming': 'No upcoming holidays',
+  'admin.holidays.editButton': 'Edit',
+  'admin.holidays.deleteButton': 'Delete',
+  'admin.holidays.empty': 'No holiday calendars found.',
+  'admin.holidays.calendarName': 'Calendar Name *',
+  'admin.holidays.calendarNamePlaceholder': 'e.g., UK Bank Holidays 2026',
+  'admin.holidays.companyPlaceholder': 'Leave empty for all companies',
+  'admin.holidays.locationPlaceholder': 'Leave empty for all locations',
+  'admin.holidays.holidays': 'Holidays',
+  'admin.holidays.holidaysHelp': 'Each holiday removes one working day from the expected hours of users on this calendar',
+  'admin.holidays.holidayPlaceholder': 'e.g., Christmas Day',
+  'admin.holidays.remove': 'Remove',
+  'admin.holidays.addHoliday': 'Add Holiday',
+  'admin.holidays.cancel': 'Cancel',
+  'admin.holidays.update': 'Update Calendar',
+
+  'admin.validation.title': 'Validation Rules',
+  'admin.validation.loading': 'Loading validation rules...',
+  'admin.validation.loadFailed': 'Failed to load validation rules, showing defaults',
+  'admin.validation.cellAboveDay': 'The per-entry limit cannot be higher than the daily limit',
+  'admin.validation.saveFailed': 'Failed to save validation rules',
+  'admin.validation.saved': 'Validation rules updated successfully',
+  'admin.validation.unexpectedError': 'Unexpected error',
+  'admin.validation.cellMax': 'Maximum hours per entry *',
+  'admin.validation.cellMaxHelp': 'Largest value allowed in a single project/activity cell',
+  'admin.validation.dayMax': 'Maximum hours per day *',
+  'admin.validation.dayMaxHelp': 'Limit on the total across all entries for one day',
+  'admin.validation.warnWeekends': 'Warn about weekend entries',
+  'admin.validation.warnWeekendsHelp': 'Entries outside the working days set under Work Week are still allowed, but highlighted for the employee. Negative hours are always rejected.',
+  'admin.validation.reset': 'Reset to Defaults',
+  'admin.validation.saving': 'Saving...',
+  'admin.validation.save': 'Save Rules',
+
+  'admin.workWeek.title': 'Work Week',
+  'admin.workWeek.loading': 'Loading work week...',
+  'admin.workWeek.loadFailed': 'Failed to load work week, showing defaults',
+  'admin.workWeek.noWorkingDays': 'Select at least one working day',
+  'admin.workWeek.saveFailed': 'Failed to save work week',
+  'admin.workWeek.saved': 'Work week updated successfully',
+  'admin.workWeek.unexpectedError': 'Unexpected error',
+  'admin.workWeek.weekStart': 'First day of the week *',
+  'admin.workWeek.weekStartHelp': 'Sets the columns of the weekly grid and the start date used when a week is submitted. Weeks that are already submitted keep their original dates.',
+  'admin.workWeek.workingDays': 'Working days *',
+  'admin.workWeek.workingDaysHelp': 'Other days are shaded in the grid, and entries on them get a weekend warning when that rule is on',
+  'admin.workWeek.reset': 'Reset to Defaults',
+  'admin.workWeek.saving': 'Saving...',
+  'admin.workWeek.save': 'Save Work Week',
+
+  'admin.projects.title': 'Project Management',
+  'admin.projects.loading': 'Loading projects...',
+  'admin.projects.loadFailed': 'Failed to load projects',
+  'admin.projects.assignmentsSaved': 'User assignments updated successfully',
+  'admin.projects.assignmentsFailed': 'Failed to update assignments',
+  'admin.projects.saveFailed': 'Failed to save project',
+  'admin.projects.created': 'Project created successfully',
+  'admin.projects.updated': 'Project updated successfully',
+  'admin.projects.unexpectedError': 'Unexpected error',
+  'admin.projects.deleteConfirm': 'Delete {name}? This will also remove all user assignments.',
+  'admin.projects.deleteFailed': 'Failed to delete project',
+  'admin.projects.deleted': 'Project deleted successfully',
+  'admin.projects.search': 'Search projects...',
+  'admin.projects.add': 'Add Project',
+  'admin.projects.name': 'Name',
+  'admin.projects.billable': 'Billable',
+  'admin.projects.status': 'Status',
+  'admin.projects.activityTypes': 'Activity Types',
+  'admin.projects.assignedUsers': 'Assigned Users',
+  'admin.projects.actions': 'Actions',
+  'admin.projects.yes': 'YES',
+  'admin.projects.no': 'NO',
+  'admin.projects.status.active': 'Active',
+  'admin.projects.status.completed': 'Completed',
+  'admin.projects.status.on_hold': 'On Hold',
+  'admin.projects.status.cancelled': 'Cancelled',
+  'admin.projects.noActivities': 'No activities defined',
+  'admin.projects.userCount': '{count} users',
+  'admin.projects.manageTitle': 'Manage user assignments',
+  'admin.projects.manage': 'Manage',
+  'admin.projects.edit': 'Edit',
+  'admin.projects.delete': 'Delete',
+  'admin.projects.empty': 'No projects found.',
+  'admin.projects.editTitle': 'Edit Project',
+  'admin.projects.projectName': 'Project Name *',
+  'admin.projects.projectNamePlaceholder': 'e.g., Client A - Website Redesign',
+  'admin.projects.statusRequired': 'Status *',
+  'admin.projects.billableProject': 'Billable Project',
+  'admin.projects.activityHelp': 'Define the types of activities that can be tracked for this project',
+  'admin.projects.activityPlaceholder': 'e.g., Development, Testing, Design',
+  'admin.projects.removeActivity': 'Remove',
+  'admin.projects.addActivity': 'Add Activity Type',
+  'admin.projects.addDefaultActivities': 'Add Default Activities',
+  'admin.projects.cancel': 'Cancel',
+  'admin.projects.update': 'Update Project',
+  'admin.projects.assignmentsTitle': 'Manage User Assignments - {name}',
+  'admin.projects.assignmentsPrompt': 'Select users who can log time for this project:',
+  'admin.projects.selectAll': 'Select All',
+  'admin.projects.deselectAll': 'Deselect All',
+  'admin.projects.noActiveUsers': 'No active users found',
+  'admin.projects.selectedCount': 'Selected: {count} of {total} active users',
+  'admin.projects.saving': 'Saving...',
+  'admin.projects.saveAssignments': 'Save Assignments',
+
+  'admin.users.title': 'User Management',
+  'admin.users.loading': 'Loading users...',
+  'admin.users.adminRequired': 'Admin privileges required to view users',
+  'admin.users.fetchFailed': 'Failed to fetch users',
+  'admin.users.loadFailed': 'Failed to load users: {error}',
+  'admin.users.unknownError': 'Unknown error',
+  'admin.users.passwordMismatch': 'Passwords do not match',
+  'admin.users.passwordTooShort': 'Password must be at least 8 characters long',
+  'admin.users.updatedWithPassword': 'User and password updated successfully',
+  'admin.users.passwordUpdateFailed': 'User updated successfully, but password update failed',
+  'admin.users.updateFailed': 'Failed to update user',
+  'admin.users.updated': 'User updated successfully',
+  'admin.users.created': 'User created successfully',
+  'admin.users.createFailed': 'Failed to create user',
+  'admin.users.unexpectedError': 'An unexpected error occurred',
+  'admin.users.cannotDeleteSelf': 'Cannot delete your own account',
+  'admin.users.deleteConfirm': 'Are you sure you want to delete {name}? This action cannot be undone.',
+  'admin.users.deleted': 'User deleted successfully',
+  'admin.users.deleteFailed': 'Failed to delete user: {error}',
+  'admin.users.deactivateConfirm': 'Are you sure you want to deactivate {name}?',
+  'admin.users.activateConfirm': 'Are you sure you want to activate {name}?',
+  'admin.users.deactivated': 'User deactivated successfully',
+  'admin.users.activated': 'User activated successfully',
+  'admin.users.deactivateFailed': 'Failed to deactivate user: {error}',
+  'admin.users.activateFailed': 'Failed to activate user: {error}',
+  'admin.users.search': 'Search users...',
+  'admin.users.add': 'Add User',
+  'admin.users.name': 'Name',
+  'admin.users.email': 'Email',
+  'admin.users.designation': 'Designation',
+  'admin.users.company': 'Company',
+  'admin.users.actions': 'Actions',
+  'admin.users.designation.employee': 'Employee',
+  'admin.users.designation.senior_employee': 'Senior Employee',
+  'admin.users.designation.team_lead': 'Team Lead',
+  'admin.users.designation.manager': 'Manager',
+  'admin.users.designation.senior_manager': 'Senior Manager',
+  'admin.users.designation.director': 'Director',
+  'admin.users.edit': 'Edit',
+  'admin.users.deactivate': 'Deactivate',
+  'admin.users.activate': 'Activate',
+  'admin.users.delete': 'Delete',
+  'admin.users.deleteSelfTitle': 'Cannot delete yourself',
+  'admin.users.deleteTitle': 'Delete user',
+  'admin.users.noMatches': 'No users found matching your search.',
+  'admin.users.empty': 'No users found.',
+  'admin.users.editTitle': 'Edit User',
+  'admin.users.firstName': 'First Name *',
+  'admin.users.firstNamePlaceholder': 'Enter first name',
+  'admin.users.lastName': 'Last Name *',
+  'admin.users.lastNamePlaceholder': 'Enter last name',
+  'admin.users.emailAddress': 'Email Address *',
+  'admin.users.emailPlaceholder': 'Enter email address',
+  'admin.users.emailLocked': 'Email cannot be changed after user creation',
+  'admin.users.password': 'Password *',
+  'admin.users.passwordPlaceholder': 'Enter password (min 8 characters)',
+  'admin.users.designationRequired': 'Designation *',
+  'admin.users.companyPlaceholder': 'Company name',
+  'admin.users.contractedHours': 'Contracted Hours per Week *',
+  'admin.users.contractedHoursHelp': 'Holidays and approved leave are deducted from this each week',
+  'admin.users.permissions': 'Permissions',
+  'admin.users.activeUser': 'Active User',
+  'admin.users.staffAccess': 'Staff Access',
+  'admin.users.adminAccess': 'Admin Access',
+  'admin.users.changePassword': 'Change Password',
+  'admin.users.newPassword': 'New Password *',
+  'admin.users.newPasswordPlaceholder': 'Enter new password (min 8 characters)',
+  'admin.users.confirmPassword': 'Confirm New Password *',
+  'admin.users.confirmPasswordPlaceholder': 'Confirm new password',
+  'admin.users.cancel': 'Cancel',
+  'admin.users.update': 'Update User',
+  'admin.users.create': 'Create User',
+
+  'settings.title': 'Settings',
+  'settings.back': '‹ Back to Timesheet',
+  'settings.loading': 'Loading settings...',
+  'settings.loginTitle': 'Please log in',
+  'settings.loginPrompt': 'You need to be logged in to access your settings.',
+  'settings.goToLogin': 'Go to Login',
+  'settings.loadFailed': 'Failed to load settings. Please try refreshing the page.',
+  'settings.templatesLoadFailed': 'Failed to load templates',
+  'settings.preferences': 'Preferences',
+  'settings.preferencesSaved': 'Preferences saved',
+  'settings.preferencesSaveFailed': 'Failed to save preferences',
+  'settings.rounding': 'Round hours to',
+  'settings.roundingHelp': 'Hours can be typed as 1.5, 1:45, 1h45m or 90m and are rounded before saving.',
+  'settings.templates': 'Row Templates',
+  'settings.newTemplate': 'New Template',
+  'settings.templatesHelp': 'Templates hold a set of project/activity rows with optional default hours, and can be applied to any week from the timesheet.',
+  'settings.name': 'Name',
+  'settings.rows': 'Rows',
+  'settings.status': 'Status',
+  'settings.actions': 'Actions',
+  'settings.notAssigned': 'Not assigned: {projects}',
+  'settings.ok': 'OK',
+  'settings.edit': 'Edit',
+  'settings.delete': 'Delete',
+  'settings.noTemplates': 'No templates yet.',
+  'settings.templateName': 'Template name',
+  'settings.templateNamePlaceholder': 'e.g., Sprint week',
+  'settings.project': 'Project',
+  'settings.activity': 'Activity',
+  'settings.selectProject': 'Select Project',
+  'settings.selectActivity': 'Select Activity',
+  'settings.noLongerAssigned': 'No longer assigned',
+  'settings.removeRow': 'Remove',
+  'settings.addRow': 'Add Row',
+  'settings.cancel': 'Cancel',
+  'settings.saving': 'Saving...',
+  'settings.updateTemplate': 'Update Template',
+  'settings.createTemplate': 'Create Template',
+  'settings.nameRequired': 'Template name is required',
+  'settings.rowIncomplete': 'Select a project and activity for every row',
+  'settings.rowDuplicate': 'Each project-activity combination can only appear once',
+  'settings.hoursRange': 'Default hours must be between 0 and 24, like 7.5, 7:30 or 7h30m',
+  'settings.templateSaveFailed': 'Failed to save template',
+  'settings.templateCreated': 'Template "{name}" created',
+  'settings.templateUpdated': 'Template "{name}" updated',
+  'settings.deleteConfirm': 'Delete template "{name}"?',
+  'settings.templateDeleted': 'Template deleted',
+  'settings.templateDeleteFailed': 'Failed to delete template',
+  'settings.language': 'Language and formats',
+  'settings.languageHelp': 'Used for the interface language and for how dates and numbers are shown.'
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
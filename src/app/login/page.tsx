@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '../context/AuthContext';
+import { useLocale } from '../context/LocaleContext';
 import '../auth.css';
 
 export default function LoginPage() {
@@ -12,6 +13,7 @@ export default function LoginPage() {
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const { login } = useAuth();
+  const { t } = useLocale();
   const router = useRouter();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -25,11 +27,11 @@ export default function LoginPage() {
       if (result.success) {
         router.push('/');
       } else {
-        setError(result.error || 'Login failed');
+        setError(result.error || t(result.networkError ? 'auth.networkError' : 'auth.loginFailed'));
       }
     } catch {
       // Removed unused err variable
-      setError('An unexpected error occurred');
+      setError(t('auth.unexpectedError'));
     } finally {
       setLoading(false);
     }
@@ -40,7 +42,7 @@ export default function LoginPage() {
       <div className="auth-card">
         <div className="auth-header">
           <div className="logo">Mobiux Timesheet</div>
-          <p>Sign in to your account</p>
+          <p>{t('auth.signInTitle')}</p>
         </div>
 
         {error && (
@@ -51,7 +53,7 @@ export default function LoginPage() {
 
         <form onSubmit={handleSubmit} className="auth-form">
           <div className="auth-field">
-            <label htmlFor="email">Email Address</label>
+            <label htmlFor="email">{t('auth.email')}</label>
             <input
               type="email"
               id="email"
@@ -59,12 +61,12 @@ export default function LoginPage() {
               value={email}
               onChange={(e) => setEmail(e.target.value)}
               required
-              placeholder="Enter your email"
+              placeholder={t('auth.emailPlaceholder')}
             />
           </div>
 
           <div className="auth-field">
-            <label htmlFor="password">Password</label>
+            <label htmlFor="password">{t('auth.password')}</label>
             <input
               type="password"
               id="password"
@@ -72,7 +74,7 @@ export default function LoginPage() {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               required
-              placeholder="Enter your password"
+              placeholder={t('auth.passwordPlaceholder')}
             />
           </div>
 
@@ -84,18 +86,18 @@ export default function LoginPage() {
             {loading ? (
               <div className="loading">
                 <div className="spinner"></div>
-                Signing In...
+                {t('auth.signingIn')}
               </div>
             ) : (
-              'Sign In'
+              t('auth.signIn')
             )}
           </button>
         </form>
 
         <div className="auth-links">
           <p>
-            Don&apos;t have an account?{' '}
-            <Link href="/register">Create one here</Link>
+            {t('auth.noAccount')}{' '}
+            <Link href="/register">{t('auth.createOne')}</Link>
           </p>
         </div>
       </div>
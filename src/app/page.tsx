@@ -3,38 +3,125 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import './page.css';
 import UserSidebar from './components/UserSidebar';
-import WeekNavigation from './components/WeekNavigation';
+import WeekNavigation, { WeekProgress } from './components/WeekNavigation';
 import AddProjectRow from './components/AddProjectRow';
-import TimesheetTable from './components/TimesheetTable';
+import TimesheetTable, { CellChange } from './components/TimesheetTable';
+import CopyPreviousWeek, { CopyWeekMode } from './components/CopyPreviousWeek';
+import ApplyTemplate from './components/ApplyTemplate';
+import TimerWidget from './components/TimerWidget';
+import SyncConflicts, { SyncConflict } from './components/SyncConflicts';
+import UndoRedoControls from './components/UndoRedoControls';
+import SaveIndicator from './components/SaveIndicator';
+import MonthView from './components/MonthView';
+import OutstandingWeeks from './components/OutstandingWeeks';
+import RecallSubmission from './components/RecallSubmission';
+import SubmitReviewModal, { WeekWarning } from './components/SubmitReviewModal';
 import {
   User,
   Timesheet,
+  TimesheetBatchEntry,
+  TimesheetBatchResult,
   Project,
+  RowTemplate,
+  UserSettings,
+  DEFAULT_USER_SETTINGS,
+  ValidationRules,
+  DEFAULT_VALIDATION_RULES,
+  WeekRequirement,
+  WorkWeekSettings,
+  DEFAULT_WORK_WEEK,
+  Holiday,
+  LeaveDay,
+  RecallRecord,
   loadUserData,
+  loadUserSettings,
+  loadValidationRules,
+  loadWeekRequirement,
+  loadWorkWeek,
+  loadHolidays,
+  loadLeaveDays,
+  loadRecalls,
+  recallWeekSubmission,
   loadProjects,
   loadTimesheets,
   loadActivitiesForProject,
+  loadRowTemplates,
+  getUnavailableTemplateRows,
   saveTimesheetEntry,
   deleteTimesheetEntry,
+  deleteTimesheetEntries,
+  saveTimesheetBatch,
+  mergeTimesheetBatch,
   submitWeekTimesheets,
   getWeekDateRange,
   getWeekDates,
-  formatWeekHeader
+  addDaysToDate,
+  parseDate,
+  isLockedStatus
 } from './utils/api';
+import { roundHours } from './utils/duration';
+import { ValidationIssue, validateCellHours, validateDayTotal } from './utils/validation';
+import {
+  PendingEdit,
+  getPendingEdits,
+  enqueueEdit,
+  removePendingEdit,
+  isNetworkError,
+  getCellKey
+} from './utils/offlineQueue';
+import { CellSnapshot, HistoryEntry, pushHistoryEntry, getSnapshotRowKey } from './utils/editHistory';
+import { getWeekFromUrl, setWeekInUrl } from './utils/weekUrl';
+import { formatDateRange, formatDisplayDate, formatHours, formatHoursCompact } from './utils/format';
+import { useLocale } from './context/LocaleContext';
+
+// Edits are collected for this long after the last change before being saved as one batch
+const SAVE_DEBOUNCE_MS = 800;
+
+type ViewMode = 'week' | 'month' | 'outstanding';
+
+interface PendingNavigation {
+  date?: Date;
+  viewMode?: ViewMode;
+}
 
 export default function MainPage() {
+  const { locale, setLocale, t, tLatest } = useLocale();
   // State
   const [user, setUser] = useState<User | null>(null);
   const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const [currentDate, setCurrentDate] = useState(() => {
+    const week = getWeekFromUrl();
+    return week ? parseDate(week) : new Date();
+  });
+  const [viewMode, setViewMode] = useState<ViewMode>('week');
+  const [workWeek, setWorkWeek] = useState<WorkWeekSettings>(DEFAULT_WORK_WEEK);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [saving, setSaving] = useState(false);
   const [tableData, setTableData] = useState<{[key: string]: {[date: string]: string}}>({});
   const [projectActivities, setProjectActivities] = useState<Map<string, string[]>>(new Map());
   const [manuallyAddedRows, setManuallyAddedRows] = useState<Set<string>>(new Set());
+  const [templates, setTemplates] = useState<RowTemplate[]>([]);
+  const [userSettings, setUserSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [validationRules, setValidationRules] = useState<ValidationRules>(DEFAULT_VALIDATION_RULES);
+  const [weekRequirement, setWeekRequirement] = useState<WeekRequirement | null>(null);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [leaveDays, setLeaveDays] = useState<LeaveDay[]>([]);
+  const [recalls, setRecalls] = useState<RecallRecord[]>([]);
+  // Open while the employee reviews the week before submitting; warnings arrive after the first attempt
+  const [submitReview, setSubmitReview] = useState<{ warnings: WeekWarning[] | null; error: string } | null>(null);
+  const [pendingEdits, setPendingEdits] = useState<PendingEdit[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  const [restoringHistory, setRestoringHistory] = useState(false);
+  // Cell edits waiting for the save debounce, and the batch currently being sent
+  const [queuedChanges, setQueuedChanges] = useState<{[cellKey: string]: CellChange}>({});
+  const [inFlightChanges, setInFlightChanges] = useState<{[cellKey: string]: CellChange}>({});
+  // Where to go once every queued and in-flight edit has been saved against the week it was made in
+  const [pendingNavigation, setPendingNavigation] = useState<PendingNavigation | null>(null);
   
   // Refs to prevent infinite loops
   const previousWeekKey = useRef<string>('');
@@ -42,8 +129,17 @@ export default function MainPage() {
   // Stable reference for row ordering - this prevents jumping
   const stableRowOrder = useRef<string[]>([]);
 
+  // Prevents overlapping replays of the offline queue
+  const isSyncing = useRef(false);
+
+  // Prevents overlapping undo/redo steps from racing each other
+  const isRestoringHistory = useRef(false);
+
   // Computed values
-  const dateRange = useMemo(() => getWeekDateRange(currentDate), [currentDate]);
+  const dateRange = useMemo(
+    () => getWeekDateRange(currentDate, workWeek.week_start_day),
+    [currentDate, workWeek.week_start_day]
+  );
   const weekDates = useMemo(() => getWeekDates(dateRange.dateFrom), [dateRange]);
 
   const groupedProjectActivities = useMemo(() => {
@@ -62,6 +158,13 @@ export default function MainPage() {
     manuallyAddedRows.forEach(key => {
       allKeys.add(key);
     });
+
+    // Add keys from edits still waiting to sync
+    pendingEdits
+      .filter(edit => weekDates.includes(edit.date))
+      .forEach(edit => {
+        allKeys.add(`${edit.projectName}-${edit.activityType}`);
+      });
     
     // Convert to array and maintain order based on existing stable order
     const currentKeys = Array.from(allKeys);
@@ -92,7 +195,7 @@ export default function MainPage() {
     });
     
     return groups;
-  }, [timesheets, manuallyAddedRows]);
+  }, [timesheets, manuallyAddedRows, pendingEdits, weekDates]);
 
   // Calculate total hours for validation
   const getTotalHours = useCallback((): number => {
@@ -104,6 +207,18 @@ export default function MainPage() {
     }, 0);
   }, [tableData]);
 
+  const getGridDayTotal = (date: string): number => {
+    return Object.values(tableData).reduce((sum, row) => sum + parseFloat(row[date] || '0'), 0);
+  };
+
+  // The grid's hard limits, applied to hours added from outside the grid
+  const getLimitIssue = (date: string, cellHours: number, otherDayHours: number): ValidationIssue | undefined => {
+    return [
+      ...validateCellHours(cellHours, date, validationRules, undefined, workWeek, locale),
+      ...validateDayTotal(otherDayHours + cellHours, validationRules, locale)
+    ].find(issue => issue.severity === 'error');
+  };
+
   // Data loading with proper error handling
   const loadData = useCallback(async () => {
     setLoading(true);
@@ -123,11 +238,11 @@ export default function MainPage() {
         } catch (error) {
           console.error('User load error:', error);
           // Let the API utility handle authentication redirects
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          const errorMessage = error instanceof Error ? error.message : '';
           if (errorMessage.includes('Authentication')) {
             return; // API utility will handle redirect
           }
-          showNotification('Failed to load user data', 'error');
+          showNotification(tLatest('timesheet.loadUserFailed'), 'error');
           return;
         }
       }
@@ -152,14 +267,14 @@ export default function MainPage() {
 
     } catch (error) {
       console.error('Load data error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorMessage = error instanceof Error ? error.message : '';
       if (!errorMessage.includes('Authentication')) {
-        showNotification('Failed to load data. Please try refreshing the page.', 'error');
+        showNotification(tLatest('timesheet.loadFailed'), 'error');
       }
     } finally {
       setLoading(false);
     }
-  }, [dateRange, user]);
+  }, [dateRange, user, tLatest]);
 
   const loadActivities = useCallback(async () => {
     if (!projects.length) return;
@@ -212,9 +327,25 @@ export default function MainPage() {
       }
       data[key][timesheet.date] = timesheet.hours_worked;
     });
+
+    // Show queued offline values until they are synced
+    pendingEdits.forEach(edit => {
+      const key = `${edit.projectName}-${edit.activityType}`;
+      if (data[key] && weekDates.includes(edit.date)) {
+        data[key][edit.date] = edit.hours;
+      }
+    });
+
+    // Keep edits that have not been saved yet, newest last
+    [...Object.values(inFlightChanges), ...Object.values(queuedChanges)].forEach(change => {
+      const key = `${change.projectName}-${change.activityType}`;
+      if (data[key]) {
+        data[key][change.date] = change.value;
+      }
+    });
     
     setTableData(data);
-  }, [groupedProjectActivities, weekDates, timesheets]);
+  }, [groupedProjectActivities, weekDates, timesheets, pendingEdits, inFlightChanges, queuedChanges]);
 
   // Check if week has changed and reset state accordingly
   const checkWeekChange = useCallback(() => {
@@ -246,56 +377,199 @@ export default function MainPage() {
     }
   }, [projects, loadActivities]);
 
+  useEffect(() => {
+    loadUserSettings().then(settings => {
+      setUserSettings(settings);
+      setLocale(settings.locale);
+    });
+  }, [setLocale]);
+
+  useEffect(() => {
+    loadValidationRules().then(setValidationRules);
+  }, []);
+
+  useEffect(() => {
+    loadWorkWeek().then(setWorkWeek);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setWeekRequirement(null);
+    setHolidays([]);
+    setLeaveDays([]);
+    setRecalls([]);
+    setSubmitReview(null);
+
+    // Ignore slow responses for a week the user has already left
+    loadWeekRequirement(dateRange.dateFrom).then(requirement => {
+      if (!cancelled) setWeekRequirement(requirement);
+    });
+    loadHolidays(dateRange.dateFrom, dateRange.dateTo).then(weekHolidays => {
+      if (!cancelled) setHolidays(weekHolidays);
+    });
+    loadLeaveDays(dateRange.dateFrom, dateRange.dateTo).then(weekLeaveDays => {
+      if (!cancelled) setLeaveDays(weekLeaveDays);
+    });
+    loadRecalls(dateRange.dateFrom).then(weekRecalls => {
+      if (!cancelled) setRecalls(weekRecalls);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dateRange]);
+
+  const weekProgress = useMemo((): WeekProgress | null => {
+    if (!weekRequirement) return null;
+
+    const deductions = [
+      weekRequirement.holiday_hours > 0 &&
+        t('timesheet.holidayDeduction', { hours: formatHoursCompact(weekRequirement.holiday_hours, locale) }),
+      weekRequirement.leave_hours > 0 &&
+        t('timesheet.leaveDeduction', { hours: formatHoursCompact(weekRequirement.leave_hours, locale) })
+    ].filter(Boolean);
+    const contractedHours = formatHoursCompact(weekRequirement.contracted_hours, locale);
+
+    return {
+      loggedHours: getTotalHours(),
+      requiredHours: weekRequirement.required_hours,
+      detail: deductions.length
+        ? t('timesheet.contractedMinus', {
+          hours: contractedHours,
+          deductions: deductions.join(t('timesheet.deductionSeparator'))
+        })
+        : t('timesheet.contracted', { hours: contractedHours })
+    };
+  }, [weekRequirement, getTotalHours, locale, t]);
+
+  useEffect(() => {
+    loadRowTemplates()
+      .then(setTemplates)
+      .catch(error => console.error('Failed to load templates:', error));
+  }, []);
+
   useEffect(() => {
     if (timesheets.length >= 0 && weekDates.length > 0) {
       initializeTableData();
     }
   }, [timesheets, weekDates, manuallyAddedRows, initializeTableData]);
 
-  // Event handlers with proper error handling
-  const handleCellChange = async (
-    projectName: string,
-    activityType: string,
-    date: string,
-    value: string
-  ) => {
-    const key = `${projectName}-${activityType}`;
-    
-    // Update local state immediately
-    setTableData(prev => ({
-      ...prev,
-      [key]: {
-        ...prev[key],
-        [date]: value
+  const pendingCells = useMemo(() => new Set(pendingEdits.map(getCellKey)), [pendingEdits]);
+
+  const savingCells = useMemo(
+    () => new Set([...Object.keys(inFlightChanges), ...Object.keys(queuedChanges)]),
+    [inFlightChanges, queuedChanges]
+  );
+
+  const inFlightCells = useMemo(() => new Set(Object.keys(inFlightChanges)), [inFlightChanges]);
+
+  const refreshPendingEdits = useCallback(async () => {
+    try {
+      const edits = await getPendingEdits();
+      setPendingEdits(edits);
+      return edits;
+    } catch (error) {
+      console.error('Failed to read offline queue:', error);
+      return [];
+    }
+  }, []);
+
+  // Replay queued offline edits in order. An edit is only applied when the server still
+  // has the value it was based on; anything else is surfaced as a conflict to resolve.
+  const syncPendingEdits = useCallback(async () => {
+    if (isSyncing.current || !navigator.onLine) return;
+    isSyncing.current = true;
+
+    try {
+      const edits = await refreshPendingEdits();
+      if (!edits.length) return;
+
+      const conflicts: SyncConflict[] = [];
+      let syncedCount = 0;
+
+      for (const edit of edits) {
+        try {
+          const serverEntry = (await loadTimesheets(edit.date, edit.date)).find(ts =>
+            ts.project_name === edit.projectName &&
+            ts.activity_type === edit.activityType
+          );
+          const serverHours = serverEntry?.hours_worked || '';
+
+          if (isLockedStatus(serverEntry?.status)) {
+            conflicts.push({ edit, serverHours, serverLocked: true });
+            continue;
+          }
+
+          if (parseFloat(serverHours || '0') !== parseFloat(edit.baseHours || '0')) {
+            conflicts.push({ edit, serverHours, serverLocked: false });
+            continue;
+          }
+
+          const response = await applyPendingEdit(edit, serverEntry);
+          if (response && !response.ok) {
+            // Left in the queue for the user to retry or discard rather than failing silently on every reconnect
+            const errorData = await response.json().catch(() => null);
+            conflicts.push({
+              edit,
+              serverHours,
+              serverLocked: false,
+              serverError: errorData?.error || `HTTP ${response.status}`
+            });
+            continue;
+          }
+          if (edit.id) {
+            await removePendingEdit(edit.id);
+            syncedCount++;
+          }
+        } catch (error) {
+          console.error('Offline sync error:', error);
+          if (isNetworkError(error)) break;
+        }
       }
-    }));
 
-    // Save or delete based on value
-    const hours = parseFloat(value);
-    if (hours > 0) {
-      await saveTimesheet(projectName, activityType, date, value);
-    } else {
-      await deleteTimesheet(projectName, activityType, date);
+      setSyncConflicts(conflicts);
+      await refreshPendingEdits();
+
+      if (syncedCount > 0) {
+        const data = await loadTimesheets(dateRange.dateFrom, dateRange.dateTo);
+        setTimesheets(data);
+        showNotification(tLatest('timesheet.synced', { count: syncedCount }));
+      }
+    } finally {
+      isSyncing.current = false;
     }
-  };
+  }, [dateRange, refreshPendingEdits, tLatest]);
 
-  const saveTimesheet = async (
-    projectName: string,
-    activityType: string,
-    date: string,
-    hours: string
-  ) => {
-    if (!user) {
-      showNotification('User not found', 'error');
-      return;
+  useEffect(() => {
+    syncPendingEdits();
+
+    window.addEventListener('online', syncPendingEdits);
+    return () => window.removeEventListener('online', syncPendingEdits);
+  }, [syncPendingEdits]);
+
+  // Send a queued edit to the server, updating or deleting the current server entry
+  const applyPendingEdit = async (edit: PendingEdit, serverEntry?: Timesheet): Promise<Response | null> => {
+    if (parseFloat(edit.hours) > 0) {
+      return saveTimesheetEntry(
+        serverEntry?.id || null,
+        edit.projectId,
+        edit.activityType,
+        edit.date,
+        edit.hours,
+        serverEntry?.description || edit.description
+      );
     }
 
-    try {
+    return serverEntry ? deleteTimesheetEntry(serverEntry.id) : null;
+  };
+
+  const queueOfflineEdits = async (changes: CellChange[]) => {
+    let queuedCount = 0;
+
+    for (const { projectName, activityType, date, value, description } of changes) {
       const project = projects.find(p => p.name === projectName);
-      if (!project) {
-        showNotification(`Project "${projectName}" not found`, 'error');
-        return;
-      }
+      if (!project) continue;
 
       const existingTimesheet = timesheets.find(ts =>
         ts.project_name === projectName &&
@@ -303,58 +577,505 @@ export default function MainPage() {
         ts.date === date
       );
 
-      if (existingTimesheet?.status === 'submitted') {
-        showNotification('Cannot edit submitted timesheet', 'error');
-        return;
+      try {
+        await enqueueEdit({
+          projectId: project.id,
+          projectName,
+          activityType,
+          date,
+          hours: value,
+          description: description ?? (existingTimesheet?.description || ''),
+          baseHours: existingTimesheet?.hours_worked || ''
+        });
+        queuedCount++;
+      } catch (error) {
+        console.error('Failed to queue offline edit:', error);
       }
+    }
 
-      const response = await saveTimesheetEntry(
-        existingTimesheet?.id || null,
-        project.id,
-        activityType,
-        date,
-        hours
+    await refreshPendingEdits();
+
+    if (queuedCount < changes.length) {
+      showNotification(t('timesheet.offlineStoreFailed'), 'error');
+    } else {
+      showNotification(t('timesheet.offlineQueued', { count: queuedCount }), 'error');
+    }
+  };
+
+  // A successful online save supersedes any queued offline value for the same cells
+  const discardPendingEdits = async (cellKeys: string[]) => {
+    const superseded = pendingEdits.filter(edit => cellKeys.includes(getCellKey(edit)));
+    if (!superseded.length) return;
+
+    for (const edit of superseded) {
+      if (edit.id) {
+        await removePendingEdit(edit.id);
+      }
+    }
+    await refreshPendingEdits();
+  };
+
+  // Merge a batch response into the loaded week, unless the user has moved to another week since
+  const mergeBatchResult = (result: TimesheetBatchResult) => {
+    if (previousWeekKey.current !== `${dateRange.dateFrom}-${dateRange.dateTo}`) return;
+
+    setTimesheets(prev => mergeTimesheetBatch(prev, {
+      ...result,
+      saved: result.saved.filter(ts => weekDates.includes(ts.date))
+    }));
+  };
+
+  const resolveConflict = async (conflict: SyncConflict, keep: 'mine' | 'server') => {
+    const { edit } = conflict;
+
+    try {
+      if (keep === 'mine') {
+        const serverEntry = (await loadTimesheets(edit.date, edit.date)).find(ts =>
+          ts.project_name === edit.projectName &&
+          ts.activity_type === edit.activityType
+        );
+        const response = await applyPendingEdit(edit, serverEntry);
+        if (response && !response.ok) {
+          const errorData = await response.json();
+          showNotification(t('timesheet.saveFailedWithError', { error: errorData?.error || t('timesheet.unknownError') }), 'error');
+          return;
+        }
+      }
+
+      if (edit.id) {
+        await removePendingEdit(edit.id);
+      }
+      setSyncConflicts(prev => prev.filter(c => c.edit.id !== edit.id));
+      await refreshPendingEdits();
+      await refreshTimesheets();
+      showNotification(t(keep === 'mine' ? 'timesheet.keptMine' : 'timesheet.keptServer'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('timesheet.unknownError');
+      showNotification(t('timesheet.conflictFailed', { error: errorMessage }), 'error');
+    }
+  };
+
+  const snapshotCell = (projectName: string, activityType: string, date: string): CellSnapshot => {
+    const existingTimesheet = timesheets.find(ts =>
+      ts.project_name === projectName &&
+      ts.activity_type === activityType &&
+      ts.date === date
+    );
+
+    return {
+      projectName,
+      activityType,
+      date,
+      hours: existingTimesheet?.hours_worked || '',
+      description: existingTimesheet?.description || ''
+    };
+  };
+
+  // A new change invalidates anything that was undone before it
+  const recordHistory = (entry: HistoryEntry) => {
+    setUndoStack(prev => pushHistoryEntry(prev, entry));
+    setRedoStack([]);
+  };
+
+  // Write snapshots back to the server, re-creating entries that were deleted since.
+  // Returns the number of cells that could not be restored.
+  const restoreCells = async (snapshots: CellSnapshot[]): Promise<number> => {
+    const dates = snapshots.map(snapshot => snapshot.date).sort();
+    const serverEntries = await loadTimesheets(dates[0], dates[dates.length - 1]);
+    const entries: TimesheetBatchEntry[] = [];
+    const deleteIds: number[] = [];
+    let failedCount = 0;
+
+    snapshots.forEach(snapshot => {
+      const project = projects.find(p => p.name === snapshot.projectName);
+      const existingTimesheet = serverEntries.find(ts =>
+        ts.project_name === snapshot.projectName &&
+        ts.activity_type === snapshot.activityType &&
+        ts.date === snapshot.date
       );
 
-      if (response?.ok) {
-        showNotification(`Saved ${hours}h for ${projectName} - ${activityType} on ${date}`);
-        await refreshTimesheets();
+      if (!project || isLockedStatus(existingTimesheet?.status)) {
+        failedCount++;
+        return;
+      }
+
+      if (parseFloat(snapshot.hours) > 0) {
+        entries.push({
+          id: existingTimesheet?.id || null,
+          project: project.id,
+          activity_type: snapshot.activityType,
+          date: snapshot.date,
+          hours_worked: snapshot.hours,
+          description: snapshot.description
+        });
+      } else if (existingTimesheet) {
+        deleteIds.push(existingTimesheet.id);
+      }
+    });
+
+    if (!entries.length && !deleteIds.length) {
+      return failedCount;
+    }
+
+    const response = await saveTimesheetBatch(entries, deleteIds);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data?.error || t('timesheet.unknownError'));
+    }
+
+    const result = data as TimesheetBatchResult;
+    mergeBatchResult(result);
+    return failedCount + (result.errors?.length || 0);
+  };
+
+  const stepHistory = async (direction: 'undo' | 'redo') => {
+    const stack = direction === 'undo' ? undoStack : redoStack;
+    const entry = stack[stack.length - 1];
+
+    // Wait for outstanding saves so the history is complete before stepping through it
+    if (!entry || isRestoringHistory.current || savingCells.size > 0) return;
+
+    isRestoringHistory.current = true;
+    setRestoringHistory(true);
+
+    const snapshots = direction === 'undo' ? entry.before : entry.after;
+
+    try {
+      setTableData(prev => {
+        const next = { ...prev };
+        snapshots.forEach(snapshot => {
+          const key = getSnapshotRowKey(snapshot);
+          if (next[key]) {
+            next[key] = { ...next[key], [snapshot.date]: snapshot.hours };
+          }
+        });
+        return next;
+      });
+
+      if (entry.removedRows) {
+        const removedRows = entry.removedRows;
+        setManuallyAddedRows(prev => {
+          const next = new Set(prev);
+          removedRows.forEach(key => direction === 'undo' ? next.add(key) : next.delete(key));
+          return next;
+        });
+      }
+
+      const failedCount = snapshots.length ? await restoreCells(snapshots) : 0;
+
+      if (direction === 'undo') {
+        setUndoStack(prev => prev.slice(0, -1));
+        setRedoStack(prev => pushHistoryEntry(prev, entry));
+      } else {
+        setRedoStack(prev => prev.slice(0, -1));
+        setUndoStack(prev => pushHistoryEntry(prev, entry));
+      }
+
+      if (failedCount > 0) {
+        showNotification(
+          t(direction === 'undo' ? 'timesheet.undidPartial' : 'timesheet.redidPartial', { label: entry.label, count: failedCount }),
+          'error'
+        );
       } else {
-        const errorData = await response?.json();
-        showNotification(`Failed to save: ${errorData?.error || 'Unknown error'}`, 'error');
+        showNotification(t(direction === 'undo' ? 'timesheet.undid' : 'timesheet.redid', { label: entry.label }));
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      showNotification('Save failed: ' + errorMessage, 'error');
+      const errorMessage = error instanceof Error ? error.message : t('timesheet.unknownError');
+      showNotification(t(direction === 'undo' ? 'timesheet.undoFailed' : 'timesheet.redoFailed', { error: errorMessage }), 'error');
+      await refreshTimesheets();
+    } finally {
+      isRestoringHistory.current = false;
+      setRestoringHistory(false);
     }
   };
 
-  const deleteTimesheet = async (
+  // Ctrl+Z / Ctrl+Shift+Z outside text fields; grid cells forward the shortcut themselves
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      e.preventDefault();
+      stepHistory(e.shiftKey ? 'redo' : 'undo');
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Event handlers with proper error handling
+  const queueCellChanges = (changes: CellChange[]) => {
+    // Update local state immediately
+    setTableData(prev => {
+      const next = { ...prev };
+      changes.forEach(({ projectName, activityType, date, value }) => {
+        const key = `${projectName}-${activityType}`;
+        next[key] = { ...next[key], [date]: value };
+      });
+      return next;
+    });
+
+    setQueuedChanges(prev => {
+      const next = { ...prev };
+      changes.forEach(change => {
+        const cellKey = `${change.projectName}-${change.activityType}-${change.date}`;
+        // A later hours edit must not drop a note that is still waiting to be sent
+        next[cellKey] = { ...change, description: change.description ?? prev[cellKey]?.description };
+      });
+      return next;
+    });
+  };
+
+  const handleCellChange = (
     projectName: string,
     activityType: string,
-    date: string
+    date: string,
+    value: string
   ) => {
-    try {
+    queueCellChanges([{ projectName, activityType, date, value }]);
+  };
+
+  const handleBulkChange = (changes: CellChange[], skippedCount: number) => {
+    if (!changes.length) {
+      showNotification(t('timesheet.pasteNothing', { count: skippedCount }), 'error');
+      return;
+    }
+
+    queueCellChanges(changes);
+
+    if (skippedCount > 0) {
+      showNotification(t('timesheet.pastePartial', { count: changes.length, skipped: skippedCount }), 'error');
+    }
+  };
+
+  // Send every queued cell change in one request and merge the returned entries locally
+  const flushQueuedChanges = async () => {
+    const batch = queuedChanges;
+    const changes = Object.values(batch);
+    if (!changes.length || Object.keys(inFlightChanges).length) return;
+
+    setInFlightChanges(batch);
+    // Edits made after this point stay queued for the next batch
+    setQueuedChanges(prev => {
+      const next = { ...prev };
+      Object.keys(batch).forEach(cellKey => {
+        if (next[cellKey] === batch[cellKey]) {
+          delete next[cellKey];
+        }
+      });
+      return next;
+    });
+
+    const entries: TimesheetBatchEntry[] = [];
+    const deleteIds: number[] = [];
+    const before: CellSnapshot[] = [];
+    const after: CellSnapshot[] = [];
+    let skippedCount = 0;
+
+    changes.forEach(({ projectName, activityType, date, value, description }) => {
+      const project = projects.find(p => p.name === projectName);
       const existingTimesheet = timesheets.find(ts =>
         ts.project_name === projectName &&
         ts.activity_type === activityType &&
         ts.date === date
       );
 
-      if (existingTimesheet && existingTimesheet.status !== 'submitted') {
-        const response = await deleteTimesheetEntry(existingTimesheet.id);
+      if (!project || isLockedStatus(existingTimesheet?.status)) {
+        skippedCount++;
+        return;
+      }
 
-        if (response.ok) {
-          showNotification(`Cleared ${projectName} - ${activityType} on ${date}`);
-          await refreshTimesheets();
+      if (parseFloat(value) > 0) {
+        entries.push({
+          id: existingTimesheet?.id || null,
+          project: project.id,
+          activity_type: activityType,
+          date,
+          hours_worked: value,
+          description: description ?? (existingTimesheet?.description || '')
+        });
+      } else if (existingTimesheet) {
+        deleteIds.push(existingTimesheet.id);
+      } else {
+        // Nothing on the server to clear
+        return;
+      }
+
+      const snapshot = snapshotCell(projectName, activityType, date);
+      before.push(snapshot);
+      after.push({
+        ...snapshot,
+        hours: parseFloat(value) > 0 ? value : '',
+        description: description ?? snapshot.description
+      });
+    });
+
+    try {
+      let errors: NonNullable<TimesheetBatchResult['errors']> = [];
+
+      if (entries.length || deleteIds.length) {
+        const response = await saveTimesheetBatch(entries, deleteIds);
+        const data = await response.json();
+
+        if (!response.ok) {
+          showNotification(t('timesheet.saveFailedWithError', { error: data?.error || t('timesheet.unknownError') }), 'error');
+          return;
         }
+
+        const result = data as TimesheetBatchResult;
+        errors = result.errors || [];
+        mergeBatchResult(result);
+      }
+
+      const isFailed = (snapshot: CellSnapshot) => errors.some(e =>
+        e.project_name === snapshot.projectName &&
+        e.activity_type === snapshot.activityType &&
+        e.date === snapshot.date
+      );
+      const savedBefore = before.filter(snapshot => !isFailed(snapshot));
+      const savedAfter = after.filter(snapshot => !isFailed(snapshot));
+
+      await discardPendingEdits(changes
+        .filter(change => !errors.some(e =>
+          e.project_name === change.projectName &&
+          e.activity_type === change.activityType &&
+          e.date === change.date
+        ))
+        .map(getCellKey)
+      );
+
+      if (savedBefore.length) {
+        const [first] = savedBefore;
+        const historyLabels = new Set(changes.map(change => change.historyLabel));
+        const [sharedLabel] = historyLabels.size === 1 ? Array.from(historyLabels) : [];
+        recordHistory({
+          label: sharedLabel || (savedBefore.length === 1
+            ? t('timesheet.history.edit', {
+              project: first.projectName,
+              activity: first.activityType,
+              date: formatDisplayDate(first.date, locale)
+            })
+            : t('timesheet.history.editMany', { count: savedBefore.length })),
+          before: savedBefore,
+          after: savedAfter
+        });
+      }
+
+      const failedCount = errors.length + skippedCount;
+      if (failedCount > 0) {
+        showNotification(errors[0]
+          ? t('timesheet.savedPartialWithError', { count: savedBefore.length, failed: failedCount, error: errors[0].error })
+          : t('timesheet.savedPartial', { count: savedBefore.length, failed: failedCount }), 'error');
+      } else if (savedBefore.length) {
+        showNotification(t('timesheet.saved', { count: savedBefore.length }));
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      showNotification('Delete failed: ' + errorMessage, 'error');
+      if (isNetworkError(error)) {
+        await queueOfflineEdits(changes);
+        return;
+      }
+      const errorMessage = error instanceof Error ? error.message : t('timesheet.unknownError');
+      showNotification(t('timesheet.saveFailed', { error: errorMessage }), 'error');
+    } finally {
+      setInFlightChanges({});
     }
   };
 
+  // The debounce below must call the flush from the latest render
+  const flushQueuedChangesRef = useRef(flushQueuedChanges);
+  useEffect(() => {
+    flushQueuedChangesRef.current = flushQueuedChanges;
+  });
+
+  // Keep the URL on the week being shown so it can be refreshed, shared and navigated with Back
+  useEffect(() => {
+    const urlWeek = getWeekFromUrl();
+    if (urlWeek === dateRange.dateFrom) return;
+
+    const isSameWeek = !!urlWeek && urlWeek >= dateRange.dateFrom && urlWeek <= dateRange.dateTo;
+    setWeekInUrl(dateRange.dateFrom, !urlWeek || isSameWeek);
+  }, [dateRange]);
+
+  // Leaving the week waits for the batch in flight and then flushes whatever was queued behind it,
+  // since queued changes are resolved against the loaded week's entries when they are sent
+  useEffect(() => {
+    if (!pendingNavigation || Object.keys(inFlightChanges).length) return;
+
+    if (Object.keys(queuedChanges).length) {
+      flushQueuedChangesRef.current();
+      return;
+    }
+
+    if (pendingNavigation.date) setCurrentDate(pendingNavigation.date);
+    if (pendingNavigation.viewMode) setViewMode(pendingNavigation.viewMode);
+    setPendingNavigation(null);
+  }, [pendingNavigation, queuedChanges, inFlightChanges]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const week = getWeekFromUrl();
+      setPendingNavigation({ date: week ? parseDate(week) : new Date() });
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    if (!Object.keys(queuedChanges).length || Object.keys(inFlightChanges).length) return;
+
+    const timeout = setTimeout(() => flushQueuedChangesRef.current(), SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [queuedChanges, inFlightChanges]);
+
+  // Warn before leaving with changes that have not reached the server yet
+  useEffect(() => {
+    if (!savingCells.size) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [savingCells]);
+
+  // Notes go through the save queue so they cannot overwrite hours that are still waiting to be sent
+  const handleDescriptionChange = (
+    projectName: string,
+    activityType: string,
+    date: string,
+    description: string
+  ) => {
+    const existingTimesheet = timesheets.find(ts =>
+      ts.project_name === projectName &&
+      ts.activity_type === activityType &&
+      ts.date === date
+    );
+    const currentValue = tableData[`${projectName}-${activityType}`]?.[date] || '';
+
+    if (!(parseFloat(currentValue) > 0)) {
+      showNotification(t('timesheet.noteNeedsHours'), 'error');
+      return;
+    }
+
+    if (isLockedStatus(existingTimesheet?.status)) {
+      showNotification(t('timesheet.locked'), 'error');
+      return;
+    }
+
+    queueCellChanges([{
+      projectName,
+      activityType,
+      date,
+      value: currentValue,
+      description,
+      historyLabel: t('timesheet.history.note', { project: projectName, activity: activityType, date: formatDisplayDate(date, locale) })
+    }]);
+  };
+
   const refreshTimesheets = async () => {
     try {
       const data = await loadTimesheets(dateRange.dateFrom, dateRange.dateTo);
@@ -370,78 +1091,402 @@ export default function MainPage() {
     // Add to manually added rows set
     setManuallyAddedRows(prev => new Set([...prev, key]));
     
-    showNotification(`Added ${projectName} - ${activityType} row`);
+    showNotification(t('timesheet.rowAdded', { project: projectName, activity: activityType }));
   };
 
-  const submitWeek = async () => {
-    const draftTimesheets = timesheets.filter(ts => ts.status === 'draft');
-    const totalHours = getTotalHours();
-    const minimumHours = 40;
-    
-    if (!draftTimesheets.length) {
-      showNotification('No draft timesheets to submit', 'error');
-      return;
+  // Queue draft entries for cells that are still empty in the grid. Cells with a saved, queued or
+  // in-flight value are left untouched.
+  const queueDraftEntries = (
+    entries: {projectName: string, activityType: string, date: string, hours: string}[],
+    historyLabel: string
+  ) => {
+    const changes: CellChange[] = [];
+    let skippedCount = 0;
+    let overLimitCount = 0;
+    // Day totals including the entries queued so far, so several entries cannot add up past the limit
+    const dayTotals: {[date: string]: number} = {};
+
+    entries.forEach(entry => {
+      const project = projects.find(p => p.name === entry.projectName);
+      const gridValue = tableData[`${entry.projectName}-${entry.activityType}`]?.[entry.date];
+      const hasExistingEntry = parseFloat(gridValue || '0') > 0 || timesheets.some(ts =>
+        ts.project_name === entry.projectName &&
+        ts.activity_type === entry.activityType &&
+        ts.date === entry.date
+      );
+
+      if (!project || hasExistingEntry || !(parseFloat(entry.hours) > 0)) {
+        skippedCount++;
+        return;
+      }
+
+      const hours = parseFloat(entry.hours);
+      const dayTotal = dayTotals[entry.date] ?? getGridDayTotal(entry.date);
+      if (getLimitIssue(entry.date, hours, dayTotal)) {
+        overLimitCount++;
+        return;
+      }
+      dayTotals[entry.date] = dayTotal + hours;
+
+      changes.push({
+        projectName: entry.projectName,
+        activityType: entry.activityType,
+        date: entry.date,
+        value: entry.hours,
+        historyLabel
+      });
+    });
+
+    if (changes.length) {
+      queueCellChanges(changes);
     }
 
-    // Check minimum hours requirement
-    if (totalHours < minimumHours) {
-      const hoursShort = minimumHours - totalHours;
-      showNotification(
-        `Cannot submit: You need ${hoursShort.toFixed(1)} more hours to meet the minimum requirement of ${minimumHours}h per week.`,
-        'error'
+    return { createdCount: changes.length, skippedCount, overLimitCount };
+  };
+
+  // Add time tracked by the timer to the cell for the day it was started.
+  // Resolves to false when nothing was saved, so the timer is kept running.
+  const addTimerHours = async (
+    projectName: string,
+    activityType: string,
+    date: string,
+    hours: number
+  ): Promise<boolean> => {
+    const roundedHours = roundHours(hours, userSettings.rounding_increment);
+    if (!(roundedHours > 0)) {
+      showNotification(t('timesheet.timerTooShort'), 'error');
+      return false;
+    }
+
+    try {
+      const project = projects.find(p => p.name === projectName);
+      if (!project) {
+        showNotification(t('timesheet.projectNotFound', { name: projectName }), 'error');
+        return false;
+      }
+
+      // The timer day may be outside the week being viewed, so look its entry up directly
+      const isInCurrentWeek = weekDates.includes(date);
+      const dayEntries = isInCurrentWeek ? timesheets : await loadTimesheets(date, date);
+      const existingTimesheet = dayEntries.find(ts =>
+        ts.project_name === projectName &&
+        ts.activity_type === activityType &&
+        ts.date === date
       );
+
+      if (isLockedStatus(existingTimesheet?.status)) {
+        showNotification(t('timesheet.locked'), 'error');
+        return false;
+      }
+
+      // In the loaded week the grid values may include edits that are still queued
+      const rowKey = `${projectName}-${activityType}`;
+      const cellHours = isInCurrentWeek
+        ? parseFloat(tableData[rowKey]?.[date] || '0')
+        : parseFloat(existingTimesheet?.hours_worked || '0');
+      const dayHours = isInCurrentWeek
+        ? getGridDayTotal(date)
+        : dayEntries.filter(ts => ts.date === date).reduce((sum, ts) => sum + (parseFloat(ts.hours_worked) || 0), 0);
+      const totalHours = roundHours(cellHours + roundedHours, 0);
+
+      const limitIssue = getLimitIssue(date, totalHours, dayHours - cellHours);
+      if (limitIssue) {
+        showNotification(t('timesheet.timerOverLimit', { detail: limitIssue.detail }), 'error');
+        return false;
+      }
+
+      if (isInCurrentWeek) {
+        setManuallyAddedRows(prev => new Set([...prev, rowKey]));
+        queueCellChanges([{
+          projectName,
+          activityType,
+          date,
+          value: String(totalHours),
+          historyLabel: t('timesheet.history.timer', { project: projectName, activity: activityType })
+        }]);
+        showNotification(t('timesheet.timerLogged', {
+          hours: formatHoursCompact(roundedHours, locale),
+          project: projectName,
+          activity: activityType,
+          date: formatDisplayDate(date, locale)
+        }));
+        return true;
+      }
+
+      const response = await saveTimesheetEntry(
+        existingTimesheet?.id || null,
+        project.id,
+        activityType,
+        date,
+        String(totalHours),
+        existingTimesheet?.description || ''
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        showNotification(t('timesheet.saveFailedWithError', { error: errorData?.error || t('timesheet.unknownError') }), 'error');
+        return false;
+      }
+
+      showNotification(t('timesheet.timerLogged', {
+        hours: formatHoursCompact(roundedHours, locale),
+        project: projectName,
+        activity: activityType,
+        date: formatDisplayDate(date, locale)
+      }));
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('timesheet.unknownError');
+      showNotification(t('timesheet.saveFailed', { error: errorMessage }), 'error');
+      return false;
+    }
+  };
+
+  const removeRow = async (projectName: string, activityType: string) => {
+    const key = `${projectName}-${activityType}`;
+    const rowEntries = timesheets.filter(ts =>
+      ts.project_name === projectName &&
+      ts.activity_type === activityType
+    );
+
+    if (rowEntries.some(ts => isLockedStatus(ts.status))) {
+      showNotification(t('timesheet.rowLocked'), 'error');
+      return;
+    }
+
+    // A queued or in-flight save would re-create the entries after they are deleted
+    const rowCellKeys = weekDates.map(date => `${projectName}-${activityType}-${date}`);
+    if (rowCellKeys.some(cellKey => savingCells.has(cellKey))) {
+      showNotification(t('timesheet.rowSaving'), 'error');
+      return;
+    }
+
+    if (rowEntries.length && !confirm(t('timesheet.removeRowConfirm', { project: projectName, activity: activityType, count: rowEntries.length }))) {
+      return;
+    }
+
+    if (rowEntries.length) {
+      try {
+        const response = await deleteTimesheetEntries(rowEntries.map(ts => ts.id));
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          showNotification(t('timesheet.removeRowFailed', { error: errorData?.error || t('timesheet.unknownError') }), 'error');
+          return;
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : t('timesheet.unknownError');
+        showNotification(t('timesheet.removeFailed', { error: errorMessage }), 'error');
+        return;
+      }
+    }
+
+    // Offline edits for the row would otherwise bring it back on the next sync
+    await discardPendingEdits(rowCellKeys);
+
+    setManuallyAddedRows(prev => {
+      const next = new Set(prev);
+      next.delete(key);
+      return next;
+    });
+    await refreshTimesheets();
+
+    const removed = rowEntries.map(ts => snapshotCell(projectName, activityType, ts.date));
+    recordHistory({
+      label: t('timesheet.history.removal', { project: projectName, activity: activityType }),
+      before: removed,
+      after: removed.map(snapshot => ({ ...snapshot, hours: '' })),
+      removedRows: [key]
+    });
+
+    showNotification(t('timesheet.rowRemoved', { project: projectName, activity: activityType }));
+  };
+
+  const copyPreviousWeek = async (mode: CopyWeekMode) => {
+    const previousWeekFrom = addDaysToDate(dateRange.dateFrom, -7);
+    const previousWeekTo = addDaysToDate(dateRange.dateTo, -7);
+
+    let previousEntries: Timesheet[];
+    try {
+      previousEntries = await loadTimesheets(previousWeekFrom, previousWeekTo);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('timesheet.unknownError');
+      showNotification(t('timesheet.copyLoadFailed', { error: errorMessage }), 'error');
+      return;
+    }
+
+    if (!previousEntries.length) {
+      showNotification(t('timesheet.copyEmpty'), 'error');
       return;
     }
 
-    if (!confirm(`Submit ${draftTimesheets.length} draft timesheet(s) for this week? (Total: ${totalHours.toFixed(1)}h)`)) {
+    const copiedKeys = new Set(
+      previousEntries.map(entry => `${entry.project_name}-${entry.activity_type}`)
+    );
+    setManuallyAddedRows(prev => new Set([...prev, ...copiedKeys]));
+
+    if (mode === 'rows') {
+      showNotification(t('timesheet.copiedRows', { count: copiedKeys.size }));
       return;
     }
 
+    const { createdCount, skippedCount, overLimitCount } = queueDraftEntries(
+      previousEntries.map(entry => ({
+        projectName: entry.project_name,
+        activityType: entry.activity_type,
+        date: addDaysToDate(entry.date, 7),
+        hours: entry.hours_worked
+      })),
+      t('timesheet.history.copyWeek')
+    );
+
+    if (overLimitCount > 0) {
+      showNotification(t('timesheet.copiedOverLimit', { count: createdCount, overLimit: overLimitCount }), 'error');
+    } else if (skippedCount > 0) {
+      showNotification(t('timesheet.copiedSkipped', { count: createdCount, skipped: skippedCount }));
+    } else {
+      showNotification(t('timesheet.copied', { count: createdCount }));
+    }
+  };
+
+  const applyTemplate = async (template: RowTemplate) => {
+    const unavailableRows = getUnavailableTemplateRows(template, projects);
+    const availableRows = template.rows.filter(row => !unavailableRows.includes(row));
+
+    setManuallyAddedRows(prev => new Set([
+      ...prev,
+      ...availableRows.map(row => `${row.project_name}-${row.activity_type}`)
+    ]));
+
+    const defaultEntries = availableRows.flatMap(row =>
+      weekDates
+        .map(date => ({
+          projectName: row.project_name,
+          activityType: row.activity_type,
+          date,
+          // Templates store hours Monday first, whatever day the week starts on
+          hours: row.default_hours[(parseDate(date).getDay() + 6) % 7] || ''
+        }))
+        .filter(entry => parseFloat(entry.hours) > 0)
+    );
+
+    const { createdCount, skippedCount, overLimitCount } = queueDraftEntries(
+      defaultEntries,
+      t('timesheet.history.template', { name: template.name })
+    );
+
+    const summary = [t('timesheet.templateApplied', { name: template.name, rows: availableRows.length, count: createdCount })];
+    if (skippedCount > 0) {
+      summary.push(t('timesheet.templateSkipped', { count: skippedCount }));
+    }
+    if (overLimitCount > 0) {
+      summary.push(t('timesheet.templateOverLimit', { count: overLimitCount }));
+    }
+    if (unavailableRows.length > 0) {
+      summary.push(t('timesheet.templateUnassigned', {
+        projects: Array.from(new Set(unavailableRows.map(row => row.project_name))).join(', ')
+      }));
+    }
+    showNotification(summary.join('; '), unavailableRows.length > 0 || overLimitCount > 0 ? 'error' : 'success');
+  };
+
+  const submitWeek = () => {
+    // Rejected entries are resubmitted along with new drafts
+    if (!timesheets.some(ts => ts.status === 'draft' || ts.status === 'rejected')) {
+      showNotification(t('timesheet.noDrafts'), 'error');
+      return;
+    }
+
+    setSubmitReview({ warnings: null, error: '' });
+  };
+
+  const confirmSubmitWeek = async (force: boolean) => {
+    const totalHours = getTotalHours();
     setSaving(true);
+    setSubmitReview(review => review && { ...review, error: '' });
 
     try {
-      const response = await submitWeekTimesheets(dateRange.dateFrom, false);
+      const response = await submitWeekTimesheets(dateRange.dateFrom, force);
       const data = await response.json();
 
       if (response.ok) {
-        showNotification(`Week submitted successfully! ${data.submitted_count} timesheets processed. (Total: ${totalHours.toFixed(1)}h)`);
+        setSubmitReview(null);
+        showNotification(t(force ? 'timesheet.submittedWithWarnings' : 'timesheet.submitted', {
+          count: data.submitted_count,
+          total: formatHours(totalHours, locale)
+        }));
         await refreshTimesheets();
-      } else if (data.can_force_submit) {
-        const warningMessage = [
-          'There are warnings with this submission:',
-          ...(data.week_warnings || []),
-          '',
-          `Total hours: ${totalHours.toFixed(1)}h`,
-          'Do you want to submit anyway?'
-        ].join('\n');
-
-        if (confirm(warningMessage)) {
-          const forceResponse = await submitWeekTimesheets(dateRange.dateFrom, true);
-          
-          if (forceResponse.ok) {
-            const forceData = await forceResponse.json();
-            showNotification(`Week submitted with warnings! ${forceData.submitted_count} timesheets processed. (Total: ${totalHours.toFixed(1)}h)`);
-            await refreshTimesheets();
-          } else {
-            const errorData = await forceResponse.json();
-            showNotification(`Submission failed: ${errorData.error}`, 'error');
-          }
-        }
+      } else if (data.can_force_submit && !force) {
+        // Keep the dialog open so each warning can be checked before forcing
+        setSubmitReview({ warnings: data.week_warnings || [], error: '' });
       } else {
-        showNotification(`Submission failed: ${data.error}`, 'error');
+        setSubmitReview(review => review && { ...review, error: t('timesheet.submitFailed', { error: data.error }) });
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      showNotification('Submission failed: ' + errorMessage, 'error');
+      const errorMessage = error instanceof Error ? error.message : t('timesheet.unknownError');
+      setSubmitReview(review => review && { ...review, error: t('timesheet.submitFailed', { error: errorMessage }) });
     } finally {
       setSaving(false);
     }
   };
 
+  const canRecallWeek = timesheets.some(ts => ts.status === 'submitted') &&
+    !timesheets.some(ts => ts.status === 'approved');
+
+  const recallSubmission = async (reason: string): Promise<boolean> => {
+    const weekKey = previousWeekKey.current;
+
+    try {
+      const response = await recallWeekSubmission(dateRange.dateFrom, reason);
+      const data = await response.json();
+
+      if (!response.ok) {
+        showNotification(t('timesheet.recallFailed', { error: data.error || t('timesheet.unknownError') }), 'error');
+        return false;
+      }
+
+      // The week may have changed while the request was in flight
+      if (previousWeekKey.current !== weekKey) return true;
+
+      const recall: RecallRecord = data.recall;
+      setRecalls(prev => [recall, ...prev]);
+
+      if (recall.status === 'completed') {
+        showNotification(t('timesheet.recalled', { count: recall.entry_count }));
+        await refreshTimesheets();
+      } else {
+        showNotification(t('timesheet.recallRequested'));
+      }
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('timesheet.unknownError');
+      showNotification(t('timesheet.recallFailed', { error: errorMessage }), 'error');
+      return false;
+    }
+  };
+
   const navigateWeek = (direction: number) => {
-    const newDate = new Date(currentDate);
+    const newDate = new Date(pendingNavigation?.date || currentDate);
     newDate.setDate(newDate.getDate() + (direction * 7));
-    setCurrentDate(newDate);
+    setPendingNavigation({ date: newDate });
+  };
+
+  const jumpToDate = (date: string) => {
+    setPendingNavigation({ date: parseDate(date) });
+  };
+
+  // The overviews read from the server, so they also wait for the latest edits to be saved
+  const showMonthView = () => {
+    setPendingNavigation({ viewMode: 'month' });
+  };
+
+  const showOutstandingWeeks = () => {
+    setPendingNavigation({ viewMode: 'outstanding' });
+  };
+
+  const openWeekFromOverview = (date: string) => {
+    setCurrentDate(parseDate(date));
+    setViewMode('week');
   };
 
   const showNotification = (message: string, type: 'success' | 'error' = 'success') => {
@@ -463,7 +1508,7 @@ export default function MainPage() {
       <div className="loading">
         <div className="loading-content">
           <div className="spinner"></div>
-          <p>Loading your timesheet...</p>
+          <p>{t('timesheet.loading')}</p>
         </div>
       </div>
     );
@@ -473,13 +1518,13 @@ export default function MainPage() {
     return (
       <div className="container">
         <div className="login-prompt">
-          <h2>Please log in</h2>
-          <p>You need to be logged in to access your timesheet.</p>
+          <h2>{t('timesheet.loginTitle')}</h2>
+          <p>{t('timesheet.loginPrompt')}</p>
           <button 
             onClick={() => window.location.href = '/login'}
             className="login-btn"
           >
-            Go to Login
+            {t('timesheet.goToLogin')}
           </button>
         </div>
       </div>
@@ -503,10 +1548,31 @@ export default function MainPage() {
       
       <div className="main">
         <div className="container">
-          <WeekNavigation 
-            currentWeek={formatWeekHeader(dateRange.dateFrom, dateRange.dateTo)}
-            onNavigateWeek={navigateWeek}
-          />
+          {viewMode === 'month' ? (
+            <MonthView
+              initialDate={currentDate}
+              workWeek={workWeek}
+              onOpenWeek={openWeekFromOverview}
+              onShowWeek={() => setViewMode('week')}
+            />
+          ) : viewMode === 'outstanding' ? (
+            <OutstandingWeeks
+              workWeek={workWeek}
+              onOpenWeek={openWeekFromOverview}
+              onShowWeek={() => setViewMode('week')}
+            />
+          ) : (
+            <WeekNavigation 
+              currentWeek={formatDateRange(dateRange.dateFrom, dateRange.dateTo, locale)}
+              weekStart={dateRange.dateFrom}
+              isCurrentWeek={dateRange.dateFrom === getWeekDateRange(new Date(), workWeek.week_start_day).dateFrom}
+              onNavigateWeek={navigateWeek}
+              onJumpToDate={jumpToDate}
+              onShowMonth={showMonthView}
+              onShowOutstanding={showOutstandingWeeks}
+              progress={weekProgress}
+            />
+          )}
 
           {/* Floating Toast Notifications */}
           {error && (
@@ -556,23 +1622,95 @@ export default function MainPage() {
             </div>
           )}
 
-          <AddProjectRow
-            projects={projects}
-            projectActivities={projectActivities}
-            onAddRow={addNewRow}
-            existingRows={existingRows}
-          />
-
-          <TimesheetTable
-            tableData={tableData}
-            weekDates={weekDates}
-            timesheets={timesheets}
-            groupedProjectActivities={groupedProjectActivities}
-            onCellChange={handleCellChange}
-            saving={saving}
-            onSubmitWeek={submitWeek} 
-            orderedProjectActivities={[]}          
-          />
+          {viewMode === 'week' && (
+            <>
+              <SyncConflicts conflicts={syncConflicts} onResolve={resolveConflict} />
+
+              <RecallSubmission
+                recalls={recalls}
+                canRecall={canRecallWeek}
+                onRecall={recallSubmission}
+              />
+
+              <TimerWidget
+                projects={projects}
+                projectActivities={projectActivities}
+                roundingIncrement={userSettings.rounding_increment}
+                onStop={addTimerHours}
+              />
+
+              <div className="grid-actions">
+                <AddProjectRow
+                  projects={projects}
+                  projectActivities={projectActivities}
+                  onAddRow={addNewRow}
+                  existingRows={existingRows}
+                />
+
+                <CopyPreviousWeek onCopy={copyPreviousWeek} />
+
+                <ApplyTemplate
+                  templates={templates}
+                  projects={projects}
+                  onApply={applyTemplate}
+                />
+
+                <UndoRedoControls
+                  undoLabel={undoStack[undoStack.length - 1]?.label || null}
+                  redoLabel={redoStack[redoStack.length - 1]?.label || null}
+                  busy={restoringHistory || savingCells.size > 0}
+                  onUndo={() => stepHistory('undo')}
+                  onRedo={() => stepHistory('redo')}
+                />
+
+                <SaveIndicator
+                  changeCount={savingCells.size}
+                  inFlight={Object.keys(inFlightChanges).length > 0}
+                  onSaveNow={flushQueuedChanges}
+                />
+              </div>
+
+              <TimesheetTable
+                tableData={tableData}
+                weekDates={weekDates}
+                timesheets={timesheets}
+                projects={projects}
+                groupedProjectActivities={groupedProjectActivities}
+                onCellChange={handleCellChange}
+                onDescriptionChange={handleDescriptionChange}
+                onBulkChange={handleBulkChange}
+                onRemoveRow={removeRow}
+                roundingIncrement={userSettings.rounding_increment}
+                validationRules={validationRules}
+                holidays={holidays}
+                workWeek={workWeek}
+                leaveDays={leaveDays}
+                pendingCells={pendingCells}
+                savingCells={savingCells}
+                inFlightCells={inFlightCells}
+                onUndo={() => stepHistory('undo')}
+                onRedo={() => stepHistory('redo')}
+                saving={saving}
+                onSubmitWeek={submitWeek} 
+                orderedProjectActivities={[]}          
+              />
+
+              {submitReview && (
+                <SubmitReviewModal
+                  weekDates={weekDates}
+                  timesheets={timesheets}
+                  draftCount={timesheets.filter(ts => ts.status === 'draft' || ts.status === 'rejected').length}
+                  totalHours={getTotalHours()}
+                  requiredHours={weekRequirement ? weekRequirement.required_hours : null}
+                  warnings={submitReview.warnings}
+                  error={submitReview.error}
+                  submitting={saving}
+                  onSubmit={confirmSubmitWeek}
+                  onClose={() => setSubmitReview(null)}
+                />
+              )}
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '../context/AuthContext';
+import { useLocale } from '../context/LocaleContext';
 import '../auth.css';
 
 // Get API base URL from environment
@@ -13,6 +14,7 @@ export default function RegisterPage() {
   const router = useRouter();
   // Removed unused login from useAuth
   const { } = useAuth();
+  const { t } = useLocale();
   
   const [formData, setFormData] = useState({
     email: '',
@@ -43,13 +45,13 @@ export default function RegisterPage() {
 
     // Client-side validation
     if (formData.password !== formData.password_confirm) {
-      setError("Passwords don't match");
+      setError(t('auth.passwordMismatch'));
       setLoading(false);
       return;
     }
 
     if (formData.password.length < 8) {
-      setError("Password must be at least 8 characters long");
+      setError(t('auth.passwordTooShort'));
       setLoading(false);
       return;
     }
@@ -74,7 +76,7 @@ export default function RegisterPage() {
       const data = await response.json();
 
       if (response.ok) {
-        setSuccess('Account created successfully! You can now sign in.');
+        setSuccess(t('auth.registered'));
         
         // Clear form
         setFormData({
@@ -93,16 +95,16 @@ export default function RegisterPage() {
         if (data.error) {
           setError(data.error);
         } else if (data.email) {
-          setError(`Email: ${Array.isArray(data.email) ? data.email[0] : data.email}`);
+          setError(t('auth.emailError', { error: Array.isArray(data.email) ? data.email[0] : data.email }));
         } else if (data.password) {
-          setError(`Password: ${Array.isArray(data.password) ? data.password[0] : data.password}`);
+          setError(t('auth.passwordError', { error: Array.isArray(data.password) ? data.password[0] : data.password }));
         } else {
-          setError('Registration failed. Please try again.');
+          setError(t('auth.registerFailed'));
         }
       }
     } catch (err) {
       console.error('💥 Registration error:', err);
-      setError('Network error. Please check if the backend server is running.');
+      setError(t('auth.networkError'));
     } finally {
       setLoading(false);
     }
@@ -113,7 +115,7 @@ export default function RegisterPage() {
       <div className="auth-card">
         <div className="auth-header">
           <div className="logo">Mobiux Timesheet</div>
-            <p>Create your account</p>
+            <p>{t('auth.registerTitle')}</p>
 
         </div>
 
@@ -132,7 +134,7 @@ export default function RegisterPage() {
         <form onSubmit={handleSubmit} className="auth-form">
           <div>
             <div className="auth-field">
-              <label htmlFor="first_name">First Name</label>
+              <label htmlFor="first_name">{t('auth.firstName')}</label>
               <input
                 type="text"
                 id="first_name"
@@ -140,12 +142,12 @@ export default function RegisterPage() {
                 value={formData.first_name}
                 onChange={handleChange}
                 required
-                placeholder="Enter first name"
+                placeholder={t('auth.firstNamePlaceholder')}
               />
             </div>
 
             <div className="auth-field">
-              <label htmlFor="last_name">Last Name</label>
+              <label htmlFor="last_name">{t('auth.lastName')}</label>
               <input
                 type="text"
                 id="last_name"
@@ -153,13 +155,13 @@ export default function RegisterPage() {
                 value={formData.last_name}
                 onChange={handleChange}
                 required
-                placeholder="Enter last name"
+                placeholder={t('auth.lastNamePlaceholder')}
               />
             </div>
           </div>
 
           <div className="auth-field">
-            <label htmlFor="email">Email Address</label>
+            <label htmlFor="email">{t('auth.email')}</label>
             <input
               type="email"
               id="email"
@@ -167,12 +169,12 @@ export default function RegisterPage() {
               value={formData.email}
               onChange={handleChange}
               required
-              placeholder="Enter your email"
+              placeholder={t('auth.emailPlaceholder')}
             />
           </div>
 
           <div className="auth-field">
-            <label htmlFor="password">Password</label>
+            <label htmlFor="password">{t('auth.password')}</label>
             <input
               type="password"
               id="password"
@@ -180,13 +182,13 @@ export default function RegisterPage() {
               value={formData.password}
               onChange={handleChange}
               required
-              placeholder="Enter password (min 8 characters)"
+              placeholder={t('auth.newPasswordPlaceholder')}
               minLength={8}
             />
           </div>
 
           <div className="auth-field">
-            <label htmlFor="password_confirm">Confirm Password</label>
+            <label htmlFor="password_confirm">{t('auth.confirmPassword')}</label>
             <input
               type="password"
               id="password_confirm"
@@ -194,7 +196,7 @@ export default function RegisterPage() {
               value={formData.password_confirm}
               onChange={handleChange}
               required
-              placeholder="Confirm your password"
+              placeholder={t('auth.confirmPasswordPlaceholder')}
             />
           </div>
 
@@ -206,18 +208,18 @@ export default function RegisterPage() {
             {loading ? (
               <div className="loading">
                 <div className="spinner"></div>
-                Creating Account...
+                {t('auth.creatingAccount')}
               </div>
             ) : (
-              'Create Account'
+              t('auth.createAccount')
             )}
           </button>
         </form>
 
         <div className="auth-links">
           <p>
-            Already have an account?{' '}
-            <Link href="/login">Sign in here</Link>
+            {t('auth.haveAccount')}{' '}
+            <Link href="/login">{t('auth.signInHere')}</Link>
           </p>
         </div>
       </div>
@@ -0,0 +1,452 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import '../page.css';
+import UserSidebar from '../components/UserSidebar';
+import {
+  User,
+  Project,
+  Timesheet,
+  WorkWeekSettings,
+  DEFAULT_WORK_WEEK,
+  loadUserData,
+  loadProjects,
+  loadWorkWeek,
+  loadTimesheets,
+  formatDate,
+  parseDate,
+  addDaysToDate,
+  getWeekDateRange,
+  getMonthDateRange,
+  isWorkingDay
+} from '../utils/api';
+import { formatDateRange, formatDisplayDate, formatHours, formatNumber, formatPercent } from '../utils/format';
+import { MessageKey } from '../utils/i18n';
+import { useLocale } from '../context/LocaleContext';
+
+interface ReportRange {
+  dateFrom: string;
+  dateTo: string;
+}
+
+// Longer ranges load too many entries for a single request
+const MAX_RANGE_DAYS = 366;
+
+const RANGE_PRESETS: { label: MessageKey; getRange: (today: Date) => ReportRange }[] = [
+  { label: 'reports.preset.thisMonth', getRange: today => getMonthDateRange(today) },
+  {
+    label: 'reports.preset.lastThreeMonths',
+    getRange: today => ({
+      dateFrom: formatDate(new Date(today.getFullYear(), today.getMonth() - 2, 1)),
+      dateTo: getMonthDateRange(today).dateTo
+    })
+  },
+  {
+    label: 'reports.preset.thisYear',
+    getRange: today => ({
+      dateFrom: formatDate(new Date(today.getFullYear(), 0, 1)),
+      dateTo: formatDate(new Date(today.getFullYear(), 11, 31))
+    })
+  }
+];
+
+const getHours = (entry: Timesheet): number => parseFloat(entry.hours_worked) || 0;
+
+const getDaysInRange = (range: ReportRange): string[] => {
+  const days: string[] = [];
+  for (let date = range.dateFrom; date <= range.dateTo && days.length < MAX_RANGE_DAYS; date = addDaysToDate(date, 1)) {
+    days.push(date);
+  }
+  return days;
+};
+
+export default function ReportsPage() {
+  const { locale, t, tLatest } = useLocale();
+  const [user, setUser] = useState<User | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [workWeek, setWorkWeek] = useState<WorkWeekSettings>(DEFAULT_WORK_WEEK);
+  const [range, setRange] = useState<ReportRange>(() => RANGE_PRESETS[1].getRange(new Date()));
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingEntries, setLoadingEntries] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadData = async () => {
+      const token = localStorage.getItem('access_token');
+      if (!token) {
+        window.location.href = '/login';
+        return;
+      }
+
+      try {
+        const [userData, projectData, workWeekData] = await Promise.all([
+          loadUserData(),
+          loadProjects(),
+          loadWorkWeek()
+        ]);
+        setUser(userData);
+        setProjects(projectData);
+        setWorkWeek(workWeekData);
+      } catch (err) {
+        console.error('Reports load error:', err);
+        setError(tLatest('reports.loadFailed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [tLatest]);
+
+  const rangeDays = useMemo(() => getDaysInRange(range), [range]);
+  const rangeTooLong = !!range.dateFrom && !!range.dateTo && addDaysToDate(range.dateFrom, MAX_RANGE_DAYS) <= range.dateTo;
+  const rangeInvalid = !range.dateFrom || !range.dateTo || range.dateTo < range.dateFrom || rangeTooLong;
+
+  useEffect(() => {
+    if (rangeInvalid) return;
+    let cancelled = false;
+
+    setLoadingEntries(true);
+    setError('');
+    loadTimesheets(range.dateFrom, range.dateTo)
+      .then(entries => {
+        if (!cancelled) setTimesheets(entries);
+      })
+      .catch(() => {
+        if (!cancelled) setError(tLatest('reports.loadFailed'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingEntries(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range, rangeInvalid, tLatest]);
+
+  const report = useMemo(() => {
+    const entries = timesheets.filter(entry => entry.date >= range.dateFrom && entry.date <= range.dateTo);
+    const totalHours = entries.reduce((sum, entry) => sum + getHours(entry), 0);
+
+    const projectTotals = new Map<string, { hours: number; activities: Map<string, number> }>();
+    entries.forEach(entry => {
+      const project = projectTotals.get(entry.project_name) || { hours: 0, activities: new Map<string, number>() };
+      project.hours += getHours(entry);
+      project.activities.set(entry.activity_type, (project.activities.get(entry.activity_type) || 0) + getHours(entry));
+      projectTotals.set(entry.project_name, project);
+    });
+
+    // Projects no longer assigned have no billable flag and count as non-billable, as on the timesheet
+    const billableHours = entries
+      .filter(entry => projects.find(p => p.name === entry.project_name)?.billable === true)
+      .reduce((sum, entry) => sum + getHours(entry), 0);
+
+    // Every week touching the range, clipped to the range for its total
+    const weeks: { weekStart: string; weekEnd: string; hours: number }[] = [];
+    if (range.dateFrom && range.dateTo >= range.dateFrom) {
+      const firstWeekStart = getWeekDateRange(parseDate(range.dateFrom), workWeek.week_start_day).dateFrom;
+      for (let weekStart = firstWeekStart; weekStart <= range.dateTo; weekStart = addDaysToDate(weekStart, 7)) {
+        const weekEnd = addDaysToDate(weekStart, 6);
+        weeks.push({
+          weekStart,
+          weekEnd,
+          hours: entries
+            .filter(entry => entry.date >= weekStart && entry.date <= weekEnd)
+            .reduce((sum, entry) => sum + getHours(entry), 0)
+        });
+      }
+    }
+
+    const loggedDays = new Set(entries.filter(entry => getHours(entry) > 0).map(entry => entry.date)).size;
+    const workingDays = rangeDays.filter(date => isWorkingDay(date, workWeek)).length;
+
+    return {
+      totalHours,
+      billableHours,
+      nonBillableHours: totalHours - billableHours,
+      projectTotals: Array.from(projectTotals.entries()).sort(([, a], [, b]) => b.hours - a.hours),
+      weeks,
+      loggedDays,
+      workingDays
+    };
+  }, [timesheets, projects, range, rangeDays, workWeek]);
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-content">
+          <div className="spinner"></div>
+          <p>{t('reports.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="container">
+        <div className="login-prompt">
+          <h2>{t('reports.loginTitle')}</h2>
+          <p>{t('reports.loginPrompt')}</p>
+          <button
+            onClick={() => window.location.href = '/login'}
+            className="login-btn"
+          >
+            {t('reports.goToLogin')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isAdmin = user.role === 'admin' || user.role === 'manager';
+  const maxWeekHours = Math.max(0, ...report.weeks.map(week => week.hours));
+  const share = (hours: number) => formatPercent(report.totalHours ? hours / report.totalHours : 0, locale);
+
+  const cellStyle: React.CSSProperties = {
+    padding: '8px',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center'
+  };
+
+  const headerStyle: React.CSSProperties = {
+    ...cellStyle,
+    background: 'rgba(255, 255, 255, 0.05)',
+    fontWeight: '600'
+  };
+
+  const summaryStyle: React.CSSProperties = {
+    flex: '1 1 160px',
+    padding: '12px',
+    borderRadius: '8px',
+    background: 'rgba(255, 255, 255, 0.04)',
+    border: '1px solid rgba(255, 255, 255, 0.1)'
+  };
+
+  return (
+    <div className="app">
+      <UserSidebar
+        user={{
+          employee_id: user.id.toString(),
+          employee_name: user.full_name,
+          department: user.company,
+          role: user.designation
+        }}
+        isAdmin={isAdmin}
+      />
+
+      <div className="main">
+        <div className="container">
+          <div className="header-section">
+            <h2>{t('reports.title')}</h2>
+            <div className="nav-buttons">
+              <button onClick={() => window.location.href = '/'} className="nav-btn">
+                {t('reports.back')}
+              </button>
+            </div>
+          </div>
+
+          {error && <div className="notification error">{error}</div>}
+
+          <div className="settings-section">
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: '12px' }}>
+              <label className="settings-label" style={{ marginBottom: 0 }}>
+                {t('reports.from')}
+                <input
+                  type="date"
+                  value={range.dateFrom}
+                  onChange={(e) => setRange({ ...range, dateFrom: e.target.value })}
+                  className="settings-input"
+                  style={{ width: '160px' }}
+                />
+              </label>
+              <label className="settings-label" style={{ marginBottom: 0 }}>
+                {t('reports.to')}
+                <input
+                  type="date"
+                  min={range.dateFrom}
+                  value={range.dateTo}
+                  onChange={(e) => setRange({ ...range, dateTo: e.target.value })}
+                  className="settings-input"
+                  style={{ width: '160px' }}
+                />
+              </label>
+              {RANGE_PRESETS.map(preset => (
+                <button key={preset.label} onClick={() => setRange(preset.getRange(new Date()))} className="nav-btn">
+                  {t(preset.label)}
+                </button>
+              ))}
+            </div>
+            {rangeInvalid && (
+              <p className="settings-warning" style={{ marginTop: '8px' }}>
+                {rangeTooLong ? t('reports.rangeTooLong', { days: MAX_RANGE_DAYS }) : t('reports.rangeInvalid')}
+              </p>
+            )}
+          </div>
+
+          <div style={{ opacity: loadingEntries || rangeInvalid ? 0.5 : 1 }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', marginBottom: '16px' }}>
+              <div style={summaryStyle}>
+                <div className="settings-help" style={{ marginBottom: '4px' }}>{t('reports.totalHours')}</div>
+                <div style={{ fontSize: '20px', fontWeight: '600', color: 'rgba(52, 199, 89, 0.9)' }}>
+                  {formatHours(report.totalHours, locale)}
+                </div>
+              </div>
+              <div style={summaryStyle}>
+                <div className="settings-help" style={{ marginBottom: '4px' }}>{t('reports.averagePerWorkingDay')}</div>
+                <div style={{ fontSize: '20px', fontWeight: '600', color: 'rgba(255, 255, 255, 0.95)' }}>
+                  {formatHours(report.workingDays ? report.totalHours / report.workingDays : 0, locale)}
+                </div>
+                <div className="settings-help" style={{ margin: 0 }}>
+                  {t('reports.workingDays', { count: report.workingDays })}
+                </div>
+              </div>
+              <div style={summaryStyle}>
+                <div className="settings-help" style={{ marginBottom: '4px' }}>{t('reports.averagePerLoggedDay')}</div>
+                <div style={{ fontSize: '20px', fontWeight: '600', color: 'rgba(255, 255, 255, 0.95)' }}>
+                  {formatHours(report.loggedDays ? report.totalHours / report.loggedDays : 0, locale)}
+                </div>
+                <div className="settings-help" style={{ margin: 0 }}>
+                  {t('reports.loggedDays', { count: report.loggedDays })}
+                </div>
+              </div>
+            </div>
+
+            <div className="settings-section">
+              <div className="settings-section-header">
+                <h3>{t('reports.billableSplit')}</h3>
+              </div>
+              <div style={{
+                display: 'flex',
+                height: '14px',
+                borderRadius: '7px',
+                overflow: 'hidden',
+                background: 'rgba(255, 255, 255, 0.08)',
+                marginBottom: '8px'
+              }}>
+                <div style={{
+                  width: `${report.totalHours ? (report.billableHours / report.totalHours) * 100 : 0}%`,
+                  background: 'rgba(52, 199, 89, 0.7)'
+                }} />
+                <div style={{
+                  width: `${report.totalHours ? (report.nonBillableHours / report.totalHours) * 100 : 0}%`,
+                  background: 'rgba(255, 255, 255, 0.3)'
+                }} />
+              </div>
+              <div style={{ display: 'flex', gap: '20px', fontSize: '13px', color: 'rgba(255, 255, 255, 0.85)' }}>
+                <span>
+                  <span style={{ color: 'rgba(52, 199, 89, 0.9)' }}>■</span>{' '}
+                  {t('grid.billable')}: {formatHours(report.billableHours, locale)} ({share(report.billableHours)})
+                </span>
+                <span>
+                  <span style={{ color: 'rgba(255, 255, 255, 0.5)' }}>■</span>{' '}
+                  {t('grid.nonBillable')}: {formatHours(report.nonBillableHours, locale)} ({share(report.nonBillableHours)})
+                </span>
+              </div>
+            </div>
+
+            <div className="settings-section">
+              <div className="settings-section-header">
+                <h3>{t('reports.weeklyTrend')}</h3>
+              </div>
+              {report.weeks.length ? (
+                <div style={{ display: 'flex', alignItems: 'flex-end', gap: '4px', height: '160px', overflowX: 'auto' }}>
+                  {report.weeks.map(week => (
+                    <div
+                      key={week.weekStart}
+                      title={`${formatDateRange(week.weekStart, week.weekEnd, locale)}: ${formatHours(week.hours, locale)}`}
+                      style={{
+                        flex: '1 0 14px',
+                        display: 'flex',
+                        flexDirection: 'column',
+                        justifyContent: 'flex-end',
+                        alignItems: 'center',
+                        height: '100%'
+                      }}
+                    >
+                      <span style={{ fontSize: '10px', color: 'rgba(255, 255, 255, 0.6)', marginBottom: '2px' }}>
+                        {week.hours ? formatNumber(week.hours, locale, 0) : ''}
+                      </span>
+                      <div style={{
+                        width: '100%',
+                        height: `${maxWeekHours ? (week.hours / maxWeekHours) * 120 : 0}px`,
+                        minHeight: week.hours ? '2px' : 0,
+                        borderRadius: '3px 3px 0 0',
+                        background: 'rgba(0, 122, 255, 0.6)'
+                      }} />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="settings-help">{t('reports.empty')}</p>
+              )}
+              {report.weeks.length > 0 && (
+                <div style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  fontSize: '11px',
+                  color: 'rgba(255, 255, 255, 0.6)',
+                  marginTop: '4px'
+                }}>
+                  <span>{formatDisplayDate(report.weeks[0].weekStart, locale)}</span>
+                  <span>{formatDisplayDate(report.weeks[report.weeks.length - 1].weekStart, locale)}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="settings-section">
+              <div className="settings-section-header">
+                <h3>{t('reports.byProject')}</h3>
+              </div>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...headerStyle, textAlign: 'left' }}>{t('grid.project')}</th>
+                    <th style={{ ...headerStyle, textAlign: 'left' }}>{t('reports.activity')}</th>
+                    <th style={headerStyle}>{t('month.hours')}</th>
+                    <th style={headerStyle}>{t('month.share')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.projectTotals.length ? report.projectTotals.flatMap(([projectName, project]) => [
+                    <tr key={projectName}>
+                      <td style={{ ...cellStyle, textAlign: 'left', fontWeight: '600' }}>{projectName}</td>
+                      <td style={{ ...cellStyle, textAlign: 'left', color: 'rgba(255, 255, 255, 0.6)' }}>
+                        {t('reports.allActivities')}
+                      </td>
+                      <td style={{ ...cellStyle, fontWeight: '600' }}>{formatHours(project.hours, locale)}</td>
+                      <td style={{ ...cellStyle, fontWeight: '600' }}>{share(project.hours)}</td>
+                    </tr>,
+                    ...Array.from(project.activities.entries())
+                      .sort(([, a], [, b]) => b - a)
+                      .map(([activityType, hours]) => (
+                        <tr key={`${projectName}-${activityType}`}>
+                          <td style={cellStyle}></td>
+                          <td style={{ ...cellStyle, textAlign: 'left' }}>{activityType}</td>
+                          <td style={cellStyle}>{formatHours(hours, locale)}</td>
+                          <td style={{ ...cellStyle, color: 'rgba(255, 255, 255, 0.7)' }}>{share(hours)}</td>
+                        </tr>
+                      ))
+                  ]) : (
+                    <tr>
+                      <td colSpan={4} style={{
+                        ...cellStyle,
+                        padding: '20px',
+                        color: 'rgba(255, 255, 255, 0.6)',
+                        fontStyle: 'italic'
+                      }}>
+                        {t('reports.empty')}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
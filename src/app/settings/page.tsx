@@ -0,0 +1,493 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import '../page.css';
+import UserSidebar from '../components/UserSidebar';
+import {
+  User,
+  Project,
+  RowTemplate,
+  RowTemplateRow,
+  UserSettings,
+  DEFAULT_USER_SETTINGS,
+  loadUserData,
+  loadUserSettings,
+  saveUserSettings,
+  loadProjects,
+  loadActivitiesForProject,
+  loadRowTemplates,
+  saveRowTemplate,
+  deleteRowTemplate,
+  getUnavailableTemplateRows
+} from '../utils/api';
+import { ROUNDING_OPTIONS, normaliseDuration } from '../utils/duration';
+import { SUPPORTED_LOCALES } from '../utils/i18n';
+import { formatDayName } from '../utils/format';
+import { useLocale } from '../context/LocaleContext';
+
+const WEEK_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const emptyRow = (): RowTemplateRow => ({
+  project_id: 0,
+  project_name: '',
+  activity_type: '',
+  default_hours: WEEK_DAYS.map(() => '')
+});
+
+export default function SettingsPage() {
+  const { locale, setLocale, t, tLatest } = useLocale();
+  const [user, setUser] = useState<User | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [templates, setTemplates] = useState<RowTemplate[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [projectActivities, setProjectActivities] = useState<Map<number, string[]>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<RowTemplate | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formName, setFormName] = useState('');
+  const [formRows, setFormRows] = useState<RowTemplateRow[]>([]);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setTemplates(await loadRowTemplates());
+    } catch (err) {
+      console.error('Failed to load templates:', err);
+      setError(tLatest('settings.templatesLoadFailed'));
+    }
+  }, [tLatest]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const token = localStorage.getItem('access_token');
+      if (!token) {
+        window.location.href = '/login';
+        return;
+      }
+
+      try {
+        const [userData, projectData, settingsData] = await Promise.all([
+          loadUserData(),
+          loadProjects(),
+          loadUserSettings()
+        ]);
+        setUser(userData);
+        setProjects(projectData);
+        setSettings(settingsData);
+        await fetchTemplates();
+      } catch (err) {
+        console.error('Settings load error:', err);
+        setError(tLatest('settings.loadFailed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [fetchTemplates, tLatest]);
+
+  // Clear messages after 5 seconds
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError('');
+        setSuccess('');
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [error, success]);
+
+  const handleSettingChange = async (changes: Partial<UserSettings>) => {
+    const previous = settings;
+    setSettings({ ...settings, ...changes });
+
+    try {
+      const response = await saveUserSettings(changes);
+      if (!response.ok) throw new Error(t('settings.preferencesSaveFailed'));
+      if (changes.locale) setLocale(changes.locale);
+      setSuccess(t('settings.preferencesSaved'));
+    } catch (err) {
+      setSettings(previous);
+      setError(err instanceof Error ? err.message : t('settings.preferencesSaveFailed'));
+    }
+  };
+
+  const ensureActivitiesLoaded = async (projectId: number) => {
+    if (!projectId || projectActivities.has(projectId)) return;
+
+    const activities = await loadActivitiesForProject(projectId);
+    setProjectActivities(prev => new Map(prev).set(projectId, activities));
+  };
+
+  const openForm = (template: RowTemplate | null) => {
+    setEditingTemplate(template);
+    setFormName(template?.name || '');
+    setFormRows(template ? template.rows.map(row => ({
+      ...row,
+      default_hours: WEEK_DAYS.map((_, i) => row.default_hours[i] || '')
+    })) : [emptyRow()]);
+    setShowForm(true);
+
+    template?.rows.forEach(row => ensureActivitiesLoaded(row.project_id));
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingTemplate(null);
+    setFormName('');
+    setFormRows([]);
+  };
+
+  const updateRow = (index: number, changes: Partial<RowTemplateRow>) => {
+    setFormRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleProjectChange = (index: number, projectId: number) => {
+    const project = projects.find(p => p.id === projectId);
+    updateRow(index, {
+      project_id: projectId,
+      project_name: project?.name || '',
+      activity_type: ''
+    });
+    ensureActivitiesLoaded(projectId);
+  };
+
+  const handleHoursChange = (index: number, dayIndex: number, value: string) => {
+    const row = formRows[index];
+    updateRow(index, {
+      default_hours: row.default_hours.map((hours, i) => i === dayIndex ? value : hours)
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = formName.trim();
+    if (!name) {
+      setError(t('settings.nameRequired'));
+      return;
+    }
+
+    if (formRows.some(row => !row.project_id || !row.activity_type)) {
+      setError(t('settings.rowIncomplete'));
+      return;
+    }
+
+    const keys = formRows.map(row => `${row.project_name}-${row.activity_type}`);
+    if (new Set(keys).size !== keys.length) {
+      setError(t('settings.rowDuplicate'));
+      return;
+    }
+
+    // Store hours the way the grid does, so "1:30" or "90m" are saved as decimal hours
+    const defaultHours = formRows.map(row =>
+      row.default_hours.map(hours => normaliseDuration(hours, settings.rounding_increment))
+    );
+    const isValidHours = (hours: string | null) => hours !== null && parseFloat(hours || '0') >= 0 && parseFloat(hours || '0') <= 24;
+    if (defaultHours.some(rowHours => !rowHours.every(isValidHours))) {
+      setError(t('settings.hoursRange'));
+      return;
+    }
+    const rows = formRows.map((row, index) => ({
+      ...row,
+      default_hours: defaultHours[index].map(hours => hours || '')
+    }));
+
+    setSaving(true);
+    try {
+      const response = await saveRowTemplate(editingTemplate?.id || null, name, rows);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t('settings.templateSaveFailed'));
+      }
+
+      setSuccess(t(editingTemplate ? 'settings.templateUpdated' : 'settings.templateCreated', { name }));
+      await fetchTemplates();
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('settings.templateSaveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: RowTemplate) => {
+    if (!confirm(t('settings.deleteConfirm', { name: template.name }))) return;
+
+    try {
+      const response = await deleteRowTemplate(template.id);
+      if (!response.ok) throw new Error(t('settings.templateDeleteFailed'));
+      setSuccess(t('settings.templateDeleted'));
+      await fetchTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('settings.templateDeleteFailed'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-content">
+          <div className="spinner"></div>
+          <p>{t('settings.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="container">
+        <div className="login-prompt">
+          <h2>{t('settings.loginTitle')}</h2>
+          <p>{t('settings.loginPrompt')}</p>
+          <button
+            onClick={() => window.location.href = '/login'}
+            className="login-btn"
+          >
+            {t('settings.goToLogin')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isAdmin = user.role === 'admin' || user.role === 'manager';
+
+  return (
+    <div className="app">
+      <UserSidebar
+        user={{
+          employee_id: user.id.toString(),
+          employee_name: user.full_name,
+          department: user.company,
+          role: user.designation
+        }}
+        isAdmin={isAdmin}
+      />
+
+      <div className="main">
+        <div className="container">
+          <div className="header-section">
+            <h2>{t('settings.title')}</h2>
+            <div className="nav-buttons">
+              <button onClick={() => window.location.href = '/'} className="nav-btn">
+                {t('settings.back')}
+              </button>
+            </div>
+          </div>
+
+          {error && <div className="notification error">{error}</div>}
+          {success && <div className="notification success">{success}</div>}
+
+          <div className="settings-section">
+            <div className="settings-section-header">
+              <h3>{t('settings.preferences')}</h3>
+            </div>
+
+            <label className="settings-label">
+              {t('settings.rounding')}
+              <select
+                value={settings.rounding_increment}
+                onChange={(e) => handleSettingChange({ rounding_increment: Number(e.target.value) })}
+                className="settings-input"
+              >
+                {ROUNDING_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.label)}</option>
+                ))}
+              </select>
+            </label>
+            <p className="settings-help">
+              {t('settings.roundingHelp')}
+            </p>
+
+            <label className="settings-label">
+              {t('settings.language')}
+              <select
+                value={settings.locale}
+                onChange={(e) => handleSettingChange({ locale: e.target.value })}
+                className="settings-input"
+              >
+                {SUPPORTED_LOCALES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <p className="settings-help">
+              {t('settings.languageHelp')}
+            </p>
+          </div>
+
+          <div className="settings-section">
+            <div className="settings-section-header">
+              <h3>{t('settings.templates')}</h3>
+              {!showForm && (
+                <button className="nav-btn" onClick={() => openForm(null)}>
+                  {t('settings.newTemplate')}
+                </button>
+              )}
+            </div>
+            <p className="settings-help">
+              {t('settings.templatesHelp')}
+            </p>
+
+            {!showForm && (
+              templates.length ? (
+                <table>
+                  <thead>
+                    <tr>
+                      <th>{t('settings.name')}</th>
+                      <th>{t('settings.rows')}</th>
+                      <th>{t('settings.status')}</th>
+                      <th>{t('settings.actions')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {templates.map(template => {
+                      const unavailableRows = getUnavailableTemplateRows(template, projects);
+                      return (
+                        <tr key={template.id}>
+                          <td>{template.name}</td>
+                          <td>
+                            {template.rows.map(row => `${row.project_name} - ${row.activity_type}`).join(', ')}
+                          </td>
+                          <td>
+                            {unavailableRows.length ? (
+                              <span className="settings-warning">
+                                {t('settings.notAssigned', {
+                                  projects: Array.from(new Set(unavailableRows.map(row => row.project_name))).join(', ')
+                                })}
+                              </span>
+                            ) : t('settings.ok')}
+                          </td>
+                          <td>
+                            <div className="nav-buttons" style={{ justifyContent: 'center' }}>
+                              <button className="nav-btn" onClick={() => openForm(template)}>{t('settings.edit')}</button>
+                              <button className="delete-btn" onClick={() => handleDelete(template)}>{t('settings.delete')}</button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="settings-help">{t('settings.noTemplates')}</p>
+              )
+            )}
+
+            {showForm && (
+              <form onSubmit={handleSubmit}>
+                <label className="settings-label">
+                  {t('settings.templateName')}
+                  <input
+                    type="text"
+                    value={formName}
+                    onChange={(e) => setFormName(e.target.value)}
+                    placeholder={t('settings.templateNamePlaceholder')}
+                    className="settings-input"
+                  />
+                </label>
+
+                <table>
+                  <thead>
+                    <tr>
+                      <th>{t('settings.project')}</th>
+                      <th>{t('settings.activity')}</th>
+                      {WEEK_DAYS.map((day, dayIndex) => (
+                        // Templates store hours Monday first
+                        <th key={day}>{formatDayName((dayIndex + 1) % 7, locale)}</th>
+                      ))}
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {formRows.map((row, index) => {
+                      const isUnavailable = !!row.project_id && !projects.some(p => p.id === row.project_id);
+                      return (
+                        <tr key={index}>
+                          <td>
+                            <select
+                              value={row.project_id || ''}
+                              onChange={(e) => handleProjectChange(index, Number(e.target.value))}
+                              style={{ width: '160px' }}
+                            >
+                              <option value="">{t('settings.selectProject')}</option>
+                              {isUnavailable && (
+                                <option value={row.project_id} disabled>{row.project_name}</option>
+                              )}
+                              {projects.map(project => (
+                                <option key={project.id} value={project.id}>{project.name}</option>
+                              ))}
+                            </select>
+                            {isUnavailable && (
+                              <div className="settings-warning">{t('settings.noLongerAssigned')}</div>
+                            )}
+                          </td>
+                          <td>
+                            <select
+                              value={row.activity_type}
+                              onChange={(e) => updateRow(index, { activity_type: e.target.value })}
+                              disabled={!row.project_id}
+                              style={{ width: '160px' }}
+                            >
+                              <option value="">{t('settings.selectActivity')}</option>
+                              {row.activity_type && !projectActivities.get(row.project_id)?.includes(row.activity_type) && (
+                                <option value={row.activity_type}>{row.activity_type}</option>
+                              )}
+                              {projectActivities.get(row.project_id)?.map(activity => (
+                                <option key={activity} value={activity}>{activity}</option>
+                              ))}
+                            </select>
+                          </td>
+                          {WEEK_DAYS.map((day, dayIndex) => (
+                            <td key={day}>
+                              <input
+                                type="number"
+                                value={row.default_hours[dayIndex]}
+                                min="0"
+                                max="24"
+                                step="0.5"
+                                onChange={(e) => handleHoursChange(index, dayIndex, e.target.value)}
+                              />
+                            </td>
+                          ))}
+                          <td>
+                            <button
+                              type="button"
+                              className="delete-btn"
+                              onClick={() => setFormRows(prev => prev.filter((_, i) => i !== index))}
+                            >
+                              {t('settings.removeRow')}
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+
+                <div className="form-buttons" style={{ justifyContent: 'space-between' }}>
+                  <button type="button" onClick={() => setFormRows(prev => [...prev, emptyRow()])}>
+                    {t('settings.addRow')}
+                  </button>
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <button type="button" onClick={resetForm} disabled={saving}>
+                      {t('settings.cancel')}
+                    </button>
+                    <button type="submit" disabled={saving || !formRows.length}>
+                      {saving ? t('settings.saving') : editingTemplate ? t('settings.updateTemplate') : t('settings.createTemplate')}
+                    </button>
+                  </div>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import type { MessageKey } from '../locales/en';
+
 export interface User {
   id: number;
   email: string;
@@ -12,20 +14,163 @@ export interface User {
   role: string;
 }
 
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
 export interface Timesheet {
   id: number;
   project_name: string;
   activity_type: string;
   date: string;
   hours_worked: string;
-  status?: 'draft' | 'submitted';
+  status?: TimesheetStatus;
+  // Set by the manager when the week is rejected
+  rejection_reason?: string;
   can_edit?: boolean;
   description?: string;
 }
 
+// 'missing' means nothing has been logged for the week
+export type WeekStatus = 'missing' | 'draft' | 'submitted' | 'approved' | 'rejected';
+
 export interface Project {
   id: number;
   name: string;
+  billable?: boolean;
+  status?: string;
+}
+
+export interface UserSettings {
+  // Hour increment cell values are rounded to before saving; 0 disables rounding
+  rounding_increment: number;
+  // BCP 47 tag such as 'en-GB', used for UI language and date and number formats
+  locale: string;
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  rounding_increment: 0,
+  locale: 'en-US'
+};
+
+// Organisation-wide limits checked before hours are saved
+export interface ValidationRules {
+  max_hours_per_cell: number;
+  max_hours_per_day: number;
+  warn_on_weekends: boolean;
+}
+
+export const DEFAULT_VALIDATION_RULES: ValidationRules = {
+  max_hours_per_cell: 24,
+  max_hours_per_day: 24,
+  warn_on_weekends: true
+};
+
+// Organisation-wide week layout. Days are numbered as in Date.getDay(), so 0 is Sunday
+export interface WorkWeekSettings {
+  week_start_day: 0 | 1 | 6;
+  working_days: number[];
+}
+
+export const DEFAULT_WORK_WEEK: WorkWeekSettings = {
+  week_start_day: 1,
+  working_days: [1, 2, 3, 4, 5]
+};
+
+// Hours a user is expected to log in a given week, calculated by the server from their
+// contracted hours minus public holidays and approved leave in that week
+export interface WeekRequirement {
+  contracted_hours: number;
+  holiday_hours: number;
+  leave_hours: number;
+  required_hours: number;
+}
+
+export interface Holiday {
+  date: string;
+  name: string;
+}
+
+export type LeaveType = 'annual' | 'sick' | 'unpaid' | 'other';
+export type LeaveDuration = 'full_day' | 'half_day';
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, MessageKey> = {
+  annual: 'leaveType.annual',
+  sick: 'leaveType.sick',
+  unpaid: 'leaveType.unpaid',
+  other: 'leaveType.other'
+};
+
+export interface LeaveRequest {
+  id: number;
+  start_date: string;
+  end_date: string;
+  // Half days are only allowed for single-day requests
+  duration: LeaveDuration;
+  leave_type: LeaveType;
+  reason: string;
+  status: LeaveStatus;
+  employee_name?: string;
+  reviewed_by?: string;
+  review_note?: string;
+  created_at: string;
+}
+
+// Approved leave expanded by the server into working days, with the hours each day covers
+export interface LeaveDay {
+  date: string;
+  leave_type: LeaveType;
+  hours: number;
+}
+
+// 'completed' recalls reverted the week to draft straight away; 'pending' ones wait for a manager
+export type RecallStatus = 'completed' | 'pending' | 'declined';
+
+// Audit record of a request to take back a submitted week
+export interface RecallRecord {
+  id: number;
+  week_start_date: string;
+  requested_by: string;
+  requested_at: string;
+  reason: string;
+  status: RecallStatus;
+  entry_count: number;
+  reviewed_by?: string;
+  reviewed_at?: string;
+}
+
+export interface RowTemplateRow {
+  project_id: number;
+  project_name: string;
+  activity_type: string;
+  // Default hours per weekday, Monday first; empty string means no default
+  default_hours: string[];
+}
+
+export interface RowTemplate {
+  id: number;
+  name: string;
+  rows: RowTemplateRow[];
+}
+
+export interface TimesheetBatchEntry {
+  // null creates a new entry
+  id: number | null;
+  project: number;
+  activity_type: string;
+  date: string;
+  hours_worked: string;
+  description: string;
+}
+
+export interface TimesheetBatchResult {
+  saved: Timesheet[];
+  deleted_ids: number[];
+  errors?: {
+    project_name: string;
+    activity_type: string;
+    date: string;
+    error: string;
+  }[];
 }
 
 interface AssignedProject {
@@ -203,6 +348,97 @@ export const loadUserData = async (): Promise<User> => {
   }
 };
 
+export const loadUserSettings = async (): Promise<UserSettings> => {
+  try {
+    const response = await makeAPICall(`${API_BASE}/accounts/settings/`);
+
+    if (response.ok) {
+      const data = await response.json();
+      return { ...DEFAULT_USER_SETTINGS, ...data.settings };
+    }
+  } catch (error) {
+    console.error('Error loading user settings:', error);
+  }
+
+  return DEFAULT_USER_SETTINGS;
+};
+
+export const saveUserSettings = async (settings: Partial<UserSettings>) => {
+  return await makeAPICall(
+    `${API_BASE}/accounts/settings/`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(settings)
+    }
+  );
+};
+
+export const loadValidationRules = async (): Promise<ValidationRules> => {
+  try {
+    const response = await makeAPICall(`${API_BASE}/timesheets/validation-rules/`);
+
+    if (response.ok) {
+      const data = await response.json();
+      return { ...DEFAULT_VALIDATION_RULES, ...data.rules };
+    }
+  } catch (error) {
+    console.error('Error loading validation rules:', error);
+  }
+
+  return DEFAULT_VALIDATION_RULES;
+};
+
+export const loadWorkWeek = async (): Promise<WorkWeekSettings> => {
+  try {
+    const response = await makeAPICall(`${API_BASE}/timesheets/work-week/`);
+
+    if (response.ok) {
+      const data = await response.json();
+      return { ...DEFAULT_WORK_WEEK, ...data.work_week };
+    }
+  } catch (error) {
+    console.error('Error loading work week:', error);
+  }
+
+  return DEFAULT_WORK_WEEK;
+};
+
+// Resolves to null when the requirement is unavailable, leaving the check to the server on submit
+export const loadWeekRequirement = async (weekStartDate: string): Promise<WeekRequirement | null> => {
+  try {
+    const response = await makeAPICall(
+      `${API_BASE}/timesheets/week-requirement/?week_start_date=${weekStartDate}`
+    );
+
+    if (response.ok) {
+      const data = await response.json();
+      return data.requirement;
+    }
+  } catch (error) {
+    console.error('Error loading week requirement:', error);
+  }
+
+  return null;
+};
+
+// Public holidays from the calendar that applies to the current user
+export const loadHolidays = async (dateFrom: string, dateTo: string): Promise<Holiday[]> => {
+  try {
+    const response = await makeAPICall(
+      `${API_BASE}/timesheets/holidays/?date_from=${dateFrom}&date_to=${dateTo}`
+    );
+
+    if (response.ok) {
+      const data = await response.json();
+      return data.holidays || [];
+    }
+  } catch (error) {
+    console.error('Error loading holidays:', error);
+  }
+
+  return [];
+};
+
 export const loadProjects = async (): Promise<Project[]> => {
   const response = await makeAPICall(`${API_BASE}/accounts/my-projects/`);
   
@@ -264,14 +500,15 @@ export const saveTimesheetEntry = async (
   projectId: number,
   activityType: string,
   date: string,
-  hours: string
+  hours: string,
+  description: string = ''
 ) => {
   const requestData = {
     project: projectId,
     activity_type: activityType,
     date: date,
     hours_worked: hours,
-    description: ''
+    description: description
   };
 
   if (timesheetId) {
@@ -300,6 +537,83 @@ export const deleteTimesheetEntry = async (timesheetId: number) => {
   );
 };
 
+export const deleteTimesheetEntries = async (timesheetIds: number[]) => {
+  return await makeAPICall(
+    `${API_BASE}/timesheets/bulk-delete/`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ timesheet_ids: timesheetIds })
+    }
+  );
+};
+
+export const loadLeaveRequests = async (): Promise<LeaveRequest[]> => {
+  const response = await makeAPICall(`${API_BASE}/leave/my-requests/`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load leave requests: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.requests || [];
+};
+
+export const createLeaveRequest = async (
+  request: Pick<LeaveRequest, 'start_date' | 'end_date' | 'duration' | 'leave_type' | 'reason'>
+) => {
+  return await makeAPICall(
+    `${API_BASE}/leave/requests/`,
+    {
+      method: 'POST',
+      body: JSON.stringify(request)
+    }
+  );
+};
+
+export const cancelLeaveRequest = async (requestId: number) => {
+  return await makeAPICall(
+    `${API_BASE}/leave/requests/${requestId}/cancel/`,
+    { method: 'POST' }
+  );
+};
+
+export const loadLeaveDays = async (dateFrom: string, dateTo: string): Promise<LeaveDay[]> => {
+  try {
+    const response = await makeAPICall(
+      `${API_BASE}/leave/days/?date_from=${dateFrom}&date_to=${dateTo}`
+    );
+
+    if (response.ok) {
+      const data = await response.json();
+      return data.days || [];
+    }
+  } catch (error) {
+    console.error('Error loading leave days:', error);
+  }
+
+  return [];
+};
+
+// Create, update and delete many entries in a single request
+export const saveTimesheetBatch = async (entries: TimesheetBatchEntry[], deleteIds: number[] = []) => {
+  return await makeAPICall(
+    `${API_BASE}/timesheets/bulk-save/`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ entries, delete_ids: deleteIds })
+    }
+  );
+};
+
+// Apply a batch result to already loaded entries instead of reloading them
+export const mergeTimesheetBatch = (timesheets: Timesheet[], result: TimesheetBatchResult): Timesheet[] => {
+  const savedIds = new Set(result.saved.map(ts => ts.id));
+  return [
+    ...timesheets.filter(ts => !savedIds.has(ts.id) && !result.deleted_ids.includes(ts.id)),
+    ...result.saved
+  ];
+};
+
 export const submitWeekTimesheets = async (weekStartDate: string, forceSubmit: boolean = false) => {
   return await makeAPICall(
     `${API_BASE}/timesheets/submit-week/`,
@@ -313,6 +627,89 @@ export const submitWeekTimesheets = async (weekStartDate: string, forceSubmit: b
   );
 };
 
+export const loadRecalls = async (weekStartDate: string): Promise<RecallRecord[]> => {
+  try {
+    const response = await makeAPICall(
+      `${API_BASE}/timesheets/recalls/?week_start_date=${weekStartDate}`
+    );
+
+    if (response.ok) {
+      const data = await response.json();
+      return data.recalls || [];
+    }
+  } catch (error) {
+    console.error('Error loading recalls:', error);
+  }
+
+  return [];
+};
+
+// The server decides whether the organisation needs manager consent and responds with the new record
+export const recallWeekSubmission = async (weekStartDate: string, reason: string) => {
+  return await makeAPICall(
+    `${API_BASE}/timesheets/recalls/`,
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        week_start_date: weekStartDate,
+        reason
+      })
+    }
+  );
+};
+
+export const loadRowTemplates = async (): Promise<RowTemplate[]> => {
+  const response = await makeAPICall(`${API_BASE}/timesheets/templates/`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load templates: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.templates || [];
+};
+
+export const saveRowTemplate = async (
+  templateId: number | null,
+  name: string,
+  rows: RowTemplateRow[]
+) => {
+  const requestData = { name, rows };
+
+  if (templateId) {
+    return await makeAPICall(
+      `${API_BASE}/timesheets/templates/${templateId}/`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(requestData)
+      }
+    );
+  } else {
+    return await makeAPICall(
+      `${API_BASE}/timesheets/templates/`,
+      {
+        method: 'POST',
+        body: JSON.stringify(requestData)
+      }
+    );
+  }
+};
+
+export const deleteRowTemplate = async (templateId: number) => {
+  return await makeAPICall(
+    `${API_BASE}/timesheets/templates/${templateId}/`,
+    { method: 'DELETE' }
+  );
+};
+
+// Rows whose project is no longer in the user's assigned projects
+export const getUnavailableTemplateRows = (
+  template: RowTemplate,
+  projects: Project[]
+): RowTemplateRow[] => {
+  return template.rows.filter(row => !projects.some(p => p.id === row.project_id));
+};
+
 // Date utilities (unchanged)
 export const formatDate = (date: Date): string => {
   const year = date.getFullYear();
@@ -326,20 +723,25 @@ export const parseDate = (dateStr: string): Date => {
   return new Date(year, month - 1, day);
 };
 
-export const getWeekDateRange = (currentDate: Date) => {
+export const addDaysToDate = (dateStr: string, days: number): string => {
+  const date = parseDate(dateStr);
+  date.setDate(date.getDate() + days);
+  return formatDate(date);
+};
+
+export const getWeekDateRange = (currentDate: Date, weekStartDay: number = DEFAULT_WORK_WEEK.week_start_day) => {
   const date = new Date(currentDate);
-  const dayOfWeek = date.getDay();
-  const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
+  const daysToStart = (date.getDay() - weekStartDay + 7) % 7;
   
-  const monday = new Date(date);
-  monday.setDate(date.getDate() - daysToMonday);
+  const firstDay = new Date(date);
+  firstDay.setDate(date.getDate() - daysToStart);
   
-  const sunday = new Date(monday);
-  sunday.setDate(monday.getDate() + 6);
+  const lastDay = new Date(firstDay);
+  lastDay.setDate(firstDay.getDate() + 6);
   
   return {
-    dateFrom: formatDate(monday),
-    dateTo: formatDate(sunday)
+    dateFrom: formatDate(firstDay),
+    dateTo: formatDate(lastDay)
   };
 };
 
@@ -356,20 +758,29 @@ export const getWeekDates = (dateFrom: string): string[] => {
   return dates;
 };
 
-export const formatWeekHeader = (dateFrom: string, dateTo: string): string => {
-  const startDate = parseDate(dateFrom);
-  const endDate = parseDate(dateTo);
-  
-  const startFormatted = startDate.toLocaleDateString('en-US', {
-    month: 'short',
-    day: 'numeric'
-  });
-  
-  const endFormatted = endDate.toLocaleDateString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric'
-  });
-  
-  return `${startFormatted} - ${endFormatted}`;
-};
\ No newline at end of file
+export const isWorkingDay = (dateStr: string, workWeek: WorkWeekSettings): boolean => {
+  return workWeek.working_days.includes(parseDate(dateStr).getDay());
+};
+
+export const getMonthDateRange = (date: Date) => {
+  const firstDay = new Date(date.getFullYear(), date.getMonth(), 1);
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+
+  return {
+    dateFrom: formatDate(firstDay),
+    dateTo: formatDate(lastDay)
+  };
+};
+
+// Submitted and approved entries are locked; rejected ones go back to the employee for changes
+export const isLockedStatus = (status?: TimesheetStatus): boolean => {
+  return status === 'submitted' || status === 'approved';
+};
+
+// A rejection needs the employee's attention first; otherwise any draft entry keeps the week a draft
+export const getWeekStatus = (entries: Timesheet[]): WeekStatus => {
+  if (!entries.length) return 'missing';
+  if (entries.some(entry => entry.status === 'rejected')) return 'rejected';
+  if (entries.some(entry => !isLockedStatus(entry.status))) return 'draft';
+  return entries.every(entry => entry.status === 'approved') ? 'approved' : 'submitted';
+};
@@ -0,0 +1,63 @@
+// Duration parsing and rounding for hour cells
+
+import type { MessageKey } from '../locales/en';
+
+export type RoundingIncrement = 0 | 0.1 | 0.25 | 0.5;
+
+export const ROUNDING_OPTIONS: { value: RoundingIncrement; label: MessageKey }[] = [
+  { value: 0, label: 'rounding.none' },
+  { value: 0.1, label: 'rounding.tenth' },
+  { value: 0.25, label: 'rounding.quarter' },
+  { value: 0.5, label: 'rounding.half' }
+];
+
+// Parse "1.5", "1,5", "1:45", "1h45m", "1h 45", "1.5h" or "90m" into decimal hours.
+// A leading minus is kept so validation can reject negative values with a clear message.
+// Returns null when the input is not a recognisable duration.
+export const parseDuration = (input: string): number | null => {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('-')) {
+    const hours = parseDuration(trimmed.slice(1));
+    return hours === null || hours < 0 ? null : -hours;
+  }
+
+  const value = trimmed.toLowerCase().replace(/\s+/g, '').replace(',', '.');
+
+  if (value === '') return 0;
+
+  if (/^\d+(\.\d+)?$|^\.\d+$/.test(value)) {
+    return parseFloat(value);
+  }
+
+  const clockMatch = value.match(/^(\d+):([0-5]?\d)$/);
+  if (clockMatch) {
+    return Number(clockMatch[1]) + Number(clockMatch[2]) / 60;
+  }
+
+  const unitMatch = value.match(/^(?:(\d+(?:\.\d+)?)h(?:rs?|ours?)?)?(?:(\d+)(m|mins?|minutes?)?)?$/);
+  if (unitMatch && (unitMatch[1] || unitMatch[2])) {
+    const [, hours, minutes, minuteUnit] = unitMatch;
+
+    // Bare numbers are handled above, so minutes without hours need a unit
+    if (!hours && !minuteUnit) return null;
+
+    return Number(hours || 0) + Number(minutes || 0) / 60;
+  }
+
+  return null;
+};
+
+export const roundHours = (hours: number, increment: number): number => {
+  if (!increment) return parseFloat(hours.toFixed(2));
+  return parseFloat((Math.round(hours / increment) * increment).toFixed(2));
+};
+
+// Parse and round a cell value into the string stored in the grid, '' for empty/zero.
+// Returns null when the input cannot be parsed.
+export const normaliseDuration = (input: string, increment: number): string | null => {
+  const hours = parseDuration(input);
+  if (hours === null) return null;
+
+  const rounded = roundHours(hours, increment);
+  return rounded !== 0 ? String(rounded) : '';
+};
@@ -0,0 +1,29 @@
+// Undo/redo history for grid edits. Each entry records the affected cells before and after
+// the change, so either side can be written back to the server.
+
+export interface CellSnapshot {
+  projectName: string;
+  activityType: string;
+  date: string;
+  // Empty string means the cell had no entry
+  hours: string;
+  description: string;
+}
+
+export interface HistoryEntry {
+  label: string;
+  before: CellSnapshot[];
+  after: CellSnapshot[];
+  // Row keys removed by this change, shown again when it is undone
+  removedRows?: string[];
+}
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+export const pushHistoryEntry = (stack: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] => {
+  return [...stack, entry].slice(-MAX_HISTORY_ENTRIES);
+};
+
+export const getSnapshotRowKey = (snapshot: CellSnapshot): string => {
+  return `${snapshot.projectName}-${snapshot.activityType}`;
+};
@@ -0,0 +1,78 @@
+// Locale-aware formatting for dates and numbers. Every date or number shown to a user goes through here.
+
+import { parseDate } from './api';
+
+// Accepts a YYYY-MM-DD string or a Date
+const toDate = (date: string | Date): Date => {
+  return typeof date === 'string' ? parseDate(date) : date;
+};
+
+// e.g. 12/10/2026 for en-GB, 10/12/2026 for en-US, 12.10.2026 for de-DE
+export const formatDisplayDate = (date: string | Date, locale: string): string => {
+  return toDate(date).toLocaleDateString(locale, {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric'
+  });
+};
+
+// e.g. "Oct 12 - Oct 18, 2026" for en-US or "12. Okt. - 18. Okt. 2026" for de-DE
+export const formatDateRange = (dateFrom: string, dateTo: string, locale: string): string => {
+  const startFormatted = toDate(dateFrom).toLocaleDateString(locale, {
+    month: 'short',
+    day: 'numeric'
+  });
+
+  const endFormatted = toDate(dateTo).toLocaleDateString(locale, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+  return `${startFormatted} - ${endFormatted}`;
+};
+
+export const formatMonthYear = (date: string | Date, locale: string): string => {
+  return toDate(date).toLocaleDateString(locale, { month: 'long', year: 'numeric' });
+};
+
+export const formatWeekday = (date: string | Date, locale: string): string => {
+  return toDate(date).toLocaleDateString(locale, { weekday: 'short' });
+};
+
+// Day names by JavaScript day number (0 = Sunday), for settings that are not tied to a date
+export const formatDayName = (day: number, locale: string, width: 'long' | 'short' = 'short'): string => {
+  // 4 January 1970 was a Sunday
+  return new Date(1970, 0, 4 + day).toLocaleDateString(locale, { weekday: width });
+};
+
+export const formatDateTime = (date: string | Date, locale: string): string => {
+  return toDate(date).toLocaleString(locale);
+};
+
+export const formatNumber = (value: number, locale: string, fractionDigits: number = 1): string => {
+  return value.toLocaleString(locale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  });
+};
+
+// Up to two decimals without trailing zeros, e.g. "40" or "7.25"
+export const formatNumberCompact = (value: number, locale: string): string => {
+  return value.toLocaleString(locale, { maximumFractionDigits: 2 });
+};
+
+// Shares of a total, e.g. "25%" or "25 %"
+export const formatPercent = (value: number, locale: string): string => {
+  return value.toLocaleString(locale, { style: 'percent' });
+};
+
+// Hour totals, e.g. "7.5h" or "7,5h"
+export const formatHours = (hours: number, locale: string): string => {
+  return `${formatNumber(hours, locale)}h`;
+};
+
+// Hours without trailing zeros, e.g. "40h" or "7.25h"
+export const formatHoursCompact = (hours: number, locale: string): string => {
+  return `${formatNumberCompact(hours, locale)}h`;
+};
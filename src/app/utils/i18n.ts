@@ -0,0 +1,30 @@
+// Translation catalogues and lookup. Locales are BCP 47 tags; the catalogue is picked by language.
+
+import en, { MessageKey } from '../locales/en';
+import de from '../locales/de';
+import { DEFAULT_USER_SETTINGS } from './api';
+
+export type { MessageKey };
+
+export const DEFAULT_LOCALE = DEFAULT_USER_SETTINGS.locale;
+
+export const SUPPORTED_LOCALES = [
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' }
+];
+
+const CATALOGUES: { [language: string]: Record<MessageKey, string> } = { en, de };
+
+// Falls back to English for unknown languages, and fills {placeholders} from params
+export const translate = (
+  locale: string,
+  key: MessageKey,
+  params: { [name: string]: string | number } = {}
+): string => {
+  const catalogue = CATALOGUES[locale.split('-')[0]] || en;
+  return Object.entries(params).reduce(
+    (message, [name, value]) => message.replaceAll(`{${name}}`, String(value)),
+    catalogue[key]
+  );
+};
@@ -0,0 +1,89 @@
+// IndexedDB-backed queue of cell edits made while offline, replayed in order once back online
+
+export interface PendingEdit {
+  id?: number;
+  projectId: number;
+  projectName: string;
+  activityType: string;
+  date: string;
+  // Empty string clears the cell
+  hours: string;
+  description: string;
+  // Server hours when the edit was first queued, used to detect conflicting changes
+  baseHours: string;
+  queuedAt: number;
+}
+
+const DB_NAME = 'timesheets-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'pending-edits';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open offline storage'));
+  });
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error || new Error('Offline storage transaction failed'));
+    };
+  });
+};
+
+// Errors thrown by makeAPICall when the request never reached the server
+export const isNetworkError = (error: unknown): boolean => {
+  return (error instanceof Error && error.message.startsWith('Network error')) ||
+    (typeof navigator !== 'undefined' && !navigator.onLine);
+};
+
+export const getCellKey = (edit: Pick<PendingEdit, 'projectName' | 'activityType' | 'date'>): string => {
+  return `${edit.projectName}-${edit.activityType}-${edit.date}`;
+};
+
+export const getPendingEdits = async (): Promise<PendingEdit[]> => {
+  const edits = await runTransaction<PendingEdit[]>('readonly', store => store.getAll());
+  return edits.sort((a, b) => (a.id || 0) - (b.id || 0));
+};
+
+// Queue an edit; a later edit to the same cell replaces the earlier one but keeps its
+// original base value, so conflicts are still detected against the pre-offline server state
+export const enqueueEdit = async (edit: Omit<PendingEdit, 'id' | 'queuedAt'>): Promise<void> => {
+  const existing = (await getPendingEdits()).find(e => getCellKey(e) === getCellKey(edit));
+
+  // Editing a cell back to its original server value leaves nothing to sync
+  if (existing?.id && parseFloat(existing.baseHours || '0') === parseFloat(edit.hours || '0')) {
+    await removePendingEdit(existing.id);
+    return;
+  }
+
+  await runTransaction('readwrite', store => store.put({
+    ...edit,
+    ...(existing && { id: existing.id, baseHours: existing.baseHours }),
+    queuedAt: Date.now()
+  }));
+};
+
+export const removePendingEdit = async (id: number): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,83 @@
+// Validation rules for hour cells and daily totals. Errors block saving; warnings are shown only.
+
+import { ValidationRules, WorkWeekSettings, DEFAULT_WORK_WEEK, isWorkingDay } from './api';
+import { DEFAULT_LOCALE, translate } from './i18n';
+import { formatHoursCompact } from './format';
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  // Short enough to show under a grid cell; longer detail goes in the tooltip
+  message: string;
+  detail: string;
+}
+
+// Any day outside the organisation's working days counts as the weekend
+export const isWeekend = (date: string, workWeek: WorkWeekSettings = DEFAULT_WORK_WEEK): boolean => {
+  return !isWorkingDay(date, workWeek);
+};
+
+// Negative hours are always rejected; the other rules come from the organisation's settings
+export const validateCellHours = (
+  hours: number,
+  date: string,
+  rules: ValidationRules,
+  holidayName?: string,
+  workWeek?: WorkWeekSettings,
+  locale: string = DEFAULT_LOCALE
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const maxHours = formatHoursCompact(rules.max_hours_per_cell, locale);
+
+  if (hours < 0) {
+    issues.push({
+      severity: 'error',
+      message: translate(locale, 'validation.negative'),
+      detail: translate(locale, 'validation.negativeDetail')
+    });
+  }
+
+  if (hours > rules.max_hours_per_cell) {
+    issues.push({
+      severity: 'error',
+      message: translate(locale, 'validation.cellMax', { hours: maxHours }),
+      detail: translate(locale, 'validation.cellMaxDetail', { hours: maxHours })
+    });
+  }
+
+  if (hours > 0 && holidayName) {
+    issues.push({
+      severity: 'warning',
+      message: translate(locale, 'validation.holiday'),
+      detail: translate(locale, 'validation.holidayDetail', { name: holidayName })
+    });
+  }
+
+  if (hours > 0 && rules.warn_on_weekends && isWeekend(date, workWeek)) {
+    issues.push({
+      severity: 'warning',
+      message: translate(locale, 'validation.weekend'),
+      detail: translate(locale, 'validation.weekendDetail')
+    });
+  }
+
+  return issues;
+};
+
+export const validateDayTotal = (
+  total: number,
+  rules: ValidationRules,
+  locale: string = DEFAULT_LOCALE
+): ValidationIssue[] => {
+  if (total <= rules.max_hours_per_day) return [];
+
+  const maxHours = formatHoursCompact(rules.max_hours_per_day, locale);
+  return [{
+    severity: 'error',
+    message: translate(locale, 'validation.dayMax', { hours: maxHours }),
+    detail: translate(locale, 'validation.dayMaxDetail', { hours: maxHours })
+  }];
+};
+
+export const hasValidationErrors = (issues: ValidationIssue[]): boolean => {
+  return issues.some(issue => issue.severity === 'error');
+};
@@ -0,0 +1,25 @@
+// Keeps the week shown on the main page in the `week` query parameter, e.g. /?week=2026-10-12
+
+const WEEK_PARAM = 'week';
+
+// Returns the date in the URL, or null when it is missing or not a real YYYY-MM-DD date
+export const getWeekFromUrl = (): string | null => {
+  if (typeof window === 'undefined') return null;
+
+  const week = new URLSearchParams(window.location.search).get(WEEK_PARAM);
+  if (!week || !/^\d{4}-\d{2}-\d{2}$/.test(week)) return null;
+
+  return isNaN(new Date(`${week}T00:00:00`).getTime()) ? null : week;
+};
+
+// Replacing is for corrections such as filling in a missing week; pushing adds a Back step
+export const setWeekInUrl = (weekStart: string, replace: boolean) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(WEEK_PARAM, weekStart);
+
+  if (replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+};